@@ -0,0 +1,207 @@
+import {describe, expect, it, vi} from "vitest";
+import type {PaymentRequirements} from "x402/types";
+import {createRequirements} from "../test/fixtures";
+import {NetworkType} from "../types/common";
+import type {CheckoutWallet, V402Client, V402RequestOptions} from "../types/common";
+import {getAbortError} from "../utils/abort";
+import {PaymentErrorCode, PaymentOperationError} from "../utils/payment-error-handler";
+import {silentLogger} from "../utils/logger";
+import {createCheckoutMachine} from "./checkout-machine";
+
+const base = createRequirements({network: "base"});
+const solana = createRequirements({network: "solana"});
+
+const evmWallet: CheckoutWallet = {address: "0xabc", networkType: NetworkType.EVM, chainId: 8453};
+const svmWallet: CheckoutWallet = {address: "So1ana", networkType: NetworkType.SOLANA, chainId: null};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+function createClient(accepts: PaymentRequirements[] | null = [base, solana]) {
+  return {
+    logger: silentLogger,
+    fetchPaymentRequirements: vi.fn(async () => accepts),
+    makePayment: vi.fn(async (_networkType: NetworkType, _options?: V402RequestOptions) => ({
+      response: new Response(JSON.stringify({ok: true})),
+      settlement: null,
+    })),
+  };
+}
+
+function createMachine(client = createClient(), networkType?: NetworkType) {
+  return createCheckoutMachine({client: client as unknown as V402Client, checkoutId: "checkout-1", networkType});
+}
+
+describe("createCheckoutMachine", () => {
+  it("loads requirements and waits for a wallet", async () => {
+    const machine = createMachine();
+    expect(machine.getState().status).toBe("idle");
+
+    const loading = machine.load();
+    expect(machine.getState().status).toBe("loadingRequirements");
+    await loading;
+
+    expect(machine.getState()).toMatchObject({status: "awaitingWallet", requirements: [base, solana], selected: base});
+  });
+
+  it("preselects the entry of the preferred network type", async () => {
+    const machine = createMachine(createClient(), NetworkType.SOLANA);
+    await machine.load();
+    expect(machine.getState().selected).toBe(solana);
+  });
+
+  it("fails when the checkout has no requirements", async () => {
+    const machine = createMachine(createClient([]));
+    await machine.load();
+    expect(machine.getState().status).toBe("failed");
+    expect(machine.getState().error?.code).toBe(PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS);
+  });
+
+  it("follows the wallet between awaitingWallet, wrongNetwork and readyToPay", async () => {
+    const machine = createMachine();
+    await machine.load();
+
+    machine.setWallet(svmWallet);
+    expect(machine.getState().status).toBe("awaitingWallet");
+
+    machine.setWallet({...evmWallet, chainId: 1});
+    expect(machine.getState().status).toBe("wrongNetwork");
+
+    machine.setWallet(evmWallet);
+    expect(machine.getState().status).toBe("readyToPay");
+
+    machine.select(solana);
+    expect(machine.getState().status).toBe("awaitingWallet");
+  });
+
+  it("pays the selected requirement and ends in success", async () => {
+    const client = createClient();
+    const machine = createMachine(client);
+    const statuses: string[] = [];
+    machine.subscribe(() => statuses.push(machine.getState().status));
+    await machine.load();
+    machine.setWallet(evmWallet);
+
+    const state = await machine.pay();
+
+    expect(state).toMatchObject({status: "success", result: {ok: true}});
+    expect(statuses).toContain("signing");
+    const [networkType, options] = client.makePayment.mock.calls[0];
+    expect(networkType).toBe(NetworkType.EVM);
+    expect(options?.merchantId).toBe("checkout-1");
+    const preference = options?.preference;
+    expect(preference?.strategy === "custom" && preference.select([solana, createRequirements({network: "base"})])).toEqual(base);
+  });
+
+  it("fails instead of paying when the amount changed since loading", async () => {
+    const client = createClient();
+    const repriced = createRequirements({network: "base", maxAmountRequired: "2000000"});
+    // Like handleX402Payment: apply the preference to the fresh 402 response
+    client.makePayment.mockImplementationOnce(async (_networkType, options) => {
+      const preference = options?.preference;
+      if (preference?.strategy === "custom") {
+        preference.select([solana, repriced]);
+      }
+      return {response: new Response("paid"), settlement: null};
+    });
+    const machine = createMachine(client);
+    await machine.load();
+    machine.setWallet(evmWallet);
+
+    await machine.pay();
+
+    expect(machine.getState().status).toBe("failed");
+    expect(machine.getState().error).toMatchObject({
+      code: PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS,
+      details: {expected: "1000000", received: "2000000"},
+    });
+  });
+
+  it("does not pay before the wallet is ready", async () => {
+    const client = createClient();
+    const machine = createMachine(client);
+
+    await machine.pay();
+    expect(machine.getState().status).toBe("idle");
+
+    await machine.load();
+    await machine.pay();
+    expect(machine.getState().status).toBe("awaitingWallet");
+    expect(client.makePayment).not.toHaveBeenCalled();
+  });
+
+  it("ignores pay() and select() while a payment is in flight", async () => {
+    const client = createClient();
+    const pending = deferred<{ response: Response; settlement: null }>();
+    client.makePayment.mockImplementationOnce(() => pending.promise);
+    const machine = createMachine(client);
+    await machine.load();
+    machine.setWallet(evmWallet);
+
+    const first = machine.pay();
+    expect(machine.getState().status).toBe("signing");
+
+    await machine.pay();
+    machine.select(solana);
+    expect(client.makePayment).toHaveBeenCalledTimes(1);
+    expect(machine.getState()).toMatchObject({status: "signing", selected: base});
+
+    pending.resolve({response: new Response("done"), settlement: null});
+    await first;
+    expect(machine.getState()).toMatchObject({status: "success", result: "done"});
+
+    machine.select(solana);
+    expect(machine.getState().selected).toBe(base);
+  });
+
+  it("fails on payment errors and can retry", async () => {
+    const client = createClient();
+    client.makePayment.mockRejectedValueOnce(new PaymentOperationError({
+      code: PaymentErrorCode.INSUFFICIENT_BALANCE,
+      message: "Insufficient balance",
+    }));
+    const machine = createMachine(client);
+    await machine.load();
+    machine.setWallet(evmWallet);
+
+    await machine.pay();
+    expect(machine.getState().status).toBe("failed");
+    expect(machine.getState().error?.code).toBe(PaymentErrorCode.INSUFFICIENT_BALANCE);
+
+    await machine.pay();
+    expect(machine.getState().status).toBe("success");
+  });
+
+  it("returns to the wallet status when a payment is cancelled", async () => {
+    const client = createClient();
+    client.makePayment.mockImplementationOnce((_networkType, options) => new Promise((_resolve, reject) => {
+      options?.signal?.addEventListener("abort", () => reject(getAbortError(options.signal!)));
+    }));
+    const machine = createMachine(client);
+    await machine.load();
+    machine.setWallet(evmWallet);
+
+    const paying = machine.pay();
+    machine.cancel();
+    await paying;
+
+    expect(machine.getState()).toMatchObject({status: "readyToPay", error: null});
+  });
+
+  it("reset() leaves success for the wallet status", async () => {
+    const machine = createMachine();
+    await machine.load();
+    machine.setWallet(evmWallet);
+    await machine.pay();
+
+    machine.reset();
+    expect(machine.getState()).toMatchObject({status: "readyToPay", result: null, settlement: null});
+  });
+});
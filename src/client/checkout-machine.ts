@@ -0,0 +1,319 @@
+/**
+ * Checkout state machine
+ *
+ * The checkout flow behind V402Checkout / useV402Checkout, without any UI:
+ * load the accepts list, wait for a wallet on the right network, sign, submit, settle
+ */
+
+import type {PaymentRequirements} from "x402/types";
+import {NetworkType} from "../types/common";
+import type {
+  CheckoutMachine,
+  CheckoutMachineOptions,
+  CheckoutState,
+  CheckoutStatus,
+  CheckoutWallet,
+} from "../types/common";
+import {getChain} from "../utils/chain-registry";
+import {getNetworkType} from "../utils/network";
+import {combinePaymentHooks} from "../utils/payment-lifecycle";
+import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "../utils/payment-error-handler";
+import {errorFields} from "../utils/logger";
+
+// Statuses that follow from the wallet; the others are only left through an action
+const WALLET_STATUSES: CheckoutStatus[] = ['awaitingWallet', 'wrongNetwork', 'readyToPay'];
+
+// Statuses pay() starts from; otherwise it returns the current state
+const PAYABLE_STATUSES: CheckoutStatus[] = ['readyToPay', 'failed'];
+
+const EMPTY_WALLET: CheckoutWallet = {address: null, networkType: null, chainId: null};
+
+// SOLANA and SVM are the same family of wallets
+function isSameFamily(a: NetworkType, b: NetworkType): boolean {
+  const family = (type: NetworkType) => type === NetworkType.SVM ? NetworkType.SOLANA : type;
+  return family(a) === family(b);
+}
+
+/**
+ * Status for a wallet and the requirement to pay
+ */
+function getWalletStatus(wallet: CheckoutWallet, selected: PaymentRequirements | null): CheckoutStatus {
+  if (!selected || !wallet.address || !wallet.networkType) {
+    return 'awaitingWallet';
+  }
+  if (!isSameFamily(wallet.networkType, getNetworkType(selected.network))) {
+    return 'awaitingWallet';
+  }
+
+  // 支付流程会自行切链，这里只在已知链不一致时提示
+  const requiredChainId = wallet.networkType === NetworkType.EVM ? getChain(selected.network)?.chainId : undefined;
+  if (requiredChainId && wallet.chainId !== null && wallet.chainId !== requiredChainId) {
+    return 'wrongNetwork';
+  }
+  return 'readyToPay';
+}
+
+// The 402 response is fetched again when paying, so requirements are matched by value
+function isSameRequirement(a: PaymentRequirements, b: PaymentRequirements): boolean {
+  return isSameRecipient(a, b) && a.maxAmountRequired === b.maxAmountRequired;
+}
+
+// Same entry, ignoring the amount
+function isSameRecipient(a: PaymentRequirements, b: PaymentRequirements): boolean {
+  return a.scheme === b.scheme
+      && a.network.toLowerCase() === b.network.toLowerCase()
+      && a.asset.toLowerCase() === b.asset.toLowerCase()
+      && a.payTo.toLowerCase() === b.payTo.toLowerCase();
+}
+
+/**
+ * Entry of the fresh 402 response that matches the one the user chose
+ *
+ * Throws INVALID_PAYMENT_REQUIREMENTS when the amount changed since the requirements were
+ * loaded, so the user never pays a price they were not shown.
+ */
+function findSelectedRequirement(
+    candidates: PaymentRequirements[],
+    selected: PaymentRequirements
+): PaymentRequirements | undefined {
+  const match = candidates.find(candidate => isSameRequirement(candidate, selected));
+  if (match) {
+    return match;
+  }
+
+  const repriced = candidates.find(candidate => isSameRecipient(candidate, selected));
+  if (repriced) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS,
+      message: `Payment amount changed from ${selected.maxAmountRequired} to ${repriced.maxAmountRequired}`,
+      details: {network: selected.network, expected: selected.maxAmountRequired, received: repriced.maxAmountRequired},
+    });
+  }
+  return undefined;
+}
+
+// Initial selection: the first entry of the preferred network type, else the first entry
+function getInitialSelection(requirements: PaymentRequirements[], networkType?: NetworkType): PaymentRequirements {
+  const preferred = networkType
+      ? requirements.find(req => isSameFamily(getNetworkType(req.network), networkType))
+      : undefined;
+  return preferred || requirements[0];
+}
+
+// Response bodies are usually JSON; keep plain text as-is
+async function readBody(response: Response): Promise<any> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+}
+
+/**
+ * Create a checkout state machine
+ *
+ * Feed it the connected wallet with `setWallet()` and render from `getState()`;
+ * `subscribe()` fires on every transition.
+ *
+ * @param options - Client, checkout id and payment options
+ *
+ * @example
+ * ```typescript
+ * const checkout = createCheckoutMachine({client, checkoutId: 'your-checkout-id'});
+ * checkout.subscribe(() => render(checkout.getState()));
+ *
+ * await checkout.load();
+ * checkout.setWallet({address, networkType: NetworkType.EVM, chainId: 8453});
+ * const {status, result} = await checkout.pay();
+ * ```
+ */
+export function createCheckoutMachine(options: CheckoutMachineOptions): CheckoutMachine {
+  // additionalParams / hooks / timeoutMs are read from options on every call, so they may be getters
+  const {client, checkoutId} = options;
+  const listeners = new Set<() => void>();
+
+  let state: CheckoutState = {
+    status: 'idle',
+    requirements: null,
+    selected: null,
+    wallet: EMPTY_WALLET,
+    result: null,
+    settlement: null,
+    error: null,
+  };
+  let loadController: AbortController | null = null;
+  let payController: AbortController | null = null;
+
+  const setState = (partial: Partial<CheckoutState>) => {
+    state = {...state, ...partial};
+    listeners.forEach(listener => listener());
+  };
+
+  // Back to the status the wallet implies
+  const settle = (partial: Partial<CheckoutState> = {}) => {
+    const next = {...state, ...partial};
+    setState({...partial, status: getWalletStatus(next.wallet, next.selected)});
+  };
+
+  const load = async () => {
+    loadController?.abort();
+    const controller = new AbortController();
+    loadController = controller;
+
+    setState({status: 'loadingRequirements', error: null});
+    try {
+      const requirements = await client.fetchPaymentRequirements({
+        merchantId: checkoutId,
+        additionalParams: options.additionalParams,
+        signal: controller.signal,
+      });
+      if (loadController !== controller) {
+        return;
+      }
+
+      if (!requirements || requirements.length === 0) {
+        setState({
+          status: 'failed',
+          requirements: null,
+          selected: null,
+          error: new PaymentOperationError({
+            code: PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS,
+            message: `Checkout ${checkoutId} has no payment requirements`,
+          }),
+        });
+        return;
+      }
+      settle({requirements, selected: getInitialSelection(requirements, options.networkType)});
+    } catch (error) {
+      if (loadController !== controller) {
+        return;
+      }
+      client.logger.error('Failed to load payment requirements', errorFields(error, {checkoutId}));
+      setState({status: 'failed', requirements: null, selected: null, error: wrapPaymentError(error)});
+    } finally {
+      if (loadController === controller) {
+        loadController = null;
+      }
+    }
+  };
+
+  const setWallet = (wallet: CheckoutWallet) => {
+    if (WALLET_STATUSES.includes(state.status)) {
+      settle({wallet});
+    } else {
+      setState({wallet});
+    }
+  };
+
+  const select = (requirements: PaymentRequirements) => {
+    // 支付中或支付成功后（凭证已展示）不允许切换，需先 reset()
+    if (!state.requirements || ['signing', 'submitting', 'success'].includes(state.status)) {
+      return;
+    }
+    // 切换选项后清除上一次的错误
+    settle({selected: requirements, result: null, settlement: null, error: null});
+  };
+
+  const pay = async (): Promise<CheckoutState> => {
+    // 只能从可支付 / 失败重试状态发起，避免中断进行中的签名或在钱包未就绪时支付
+    if (!PAYABLE_STATUSES.includes(state.status) || !state.requirements) {
+      return state;
+    }
+
+    const {networkType} = state.wallet;
+    const {selected} = state;
+    if (!networkType || !selected) {
+      setState({
+        status: 'failed',
+        error: new PaymentOperationError({
+          code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+          message: 'Connect a wallet before paying',
+        }),
+      });
+      return state;
+    }
+
+    payController?.abort();
+    const controller = new AbortController();
+    payController = controller;
+
+    setState({status: 'signing', result: null, settlement: null, error: null});
+    const progress = {
+      signed: () => {
+        if (payController === controller) {
+          setState({status: 'submitting'});
+        }
+      },
+    };
+
+    try {
+      const {response, settlement} = await client.makePayment(networkType, {
+        merchantId: checkoutId,
+        additionalParams: options.additionalParams,
+        signal: controller.signal,
+        timeoutMs: options.timeoutMs,
+        hooks: combinePaymentHooks(options.hooks, progress),
+        // 支付用户选中的条目
+        preference: {
+          strategy: 'custom',
+          select: candidates => findSelectedRequirement(candidates, selected),
+        },
+      });
+      const result = await readBody(response);
+      if (payController === controller) {
+        setState({status: 'success', result, settlement});
+      }
+    } catch (error) {
+      if (payController === controller) {
+        const wrapped = wrapPaymentError(error);
+        // 被取消时回到支付前的状态，不视为失败
+        if (wrapped.code === PaymentErrorCode.CANCELLED) {
+          settle();
+        } else {
+          setState({status: 'failed', error: wrapped});
+        }
+      }
+    } finally {
+      if (payController === controller) {
+        payController = null;
+      }
+    }
+    return state;
+  };
+
+  const reset = () => {
+    if (state.status === 'success' || (state.status === 'failed' && state.requirements)) {
+      settle({result: null, settlement: null, error: null});
+    }
+  };
+
+  const cancel = () => {
+    if (loadController) {
+      loadController.abort();
+      loadController = null;
+      setState({status: 'idle'});
+    }
+    if (payController) {
+      payController.abort();
+      payController = null;
+      settle();
+    }
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    load,
+    setWallet,
+    select,
+    pay,
+    reset,
+    cancel,
+  };
+}
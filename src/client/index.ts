@@ -0,0 +1,9 @@
+/**
+ * v402pay Client
+ *
+ * Runtime client configuration for the v402pay backend
+ */
+
+export {createV402Client} from "./v402-client";
+export {createCheckoutMachine} from "./checkout-machine";
+export {makePayment} from "./make-payment";
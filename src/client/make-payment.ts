@@ -0,0 +1,53 @@
+/**
+ * makePayment shorthand
+ *
+ * One-off payment without keeping a v402pay client around
+ */
+
+import type {NetworkType, PaymentFlowOptions, PaymentResult} from "../types";
+import {PROD_BACK_URL} from "../types/common";
+import {createV402Client} from "./v402-client";
+
+/**
+ * Make payment with automatic chain handling
+ *
+ * This function handles all the chain-specific logic internally.
+ * Business logic should be handled via callbacks.
+ *
+ * Shorthand for `createV402Client({baseUrl: endpoint, merchantId}).makePayment(...)`.
+ * Use a client directly to configure fetch, logger or RPC URLs.
+ *
+ * @param networkType - Network type (from useWallet)
+ * @param merchantId - @see our website to apply
+ * @param endpoint - v402pay API base URL
+ * @param additionalParams - Optional additional parameters to send with the request (default: {})
+ * @param options - Optional `signal` / `timeoutMs` to cancel the payment and lifecycle `hooks`
+ * @returns Endpoint response plus the decoded settlement
+ *
+ * @example
+ * ```tsx
+ * const {response, settlement} = await makePayment(networkType, merchantId);
+ * const data = await response.json();
+ * ```
+ *
+ * @example
+ * ```tsx
+ * // With additional parameters
+ * const {response} = await makePayment(
+ *   networkType,
+ *   merchantId,
+ *   '/api/endpoint',
+ *   { userId: '123', customField: 'value' }
+ * );
+ * ```
+ */
+export async function makePayment(
+    networkType: NetworkType,
+    merchantId: string,
+    endpoint: string = PROD_BACK_URL,
+    additionalParams?: Record<string, any>,
+    options: PaymentFlowOptions = {},
+): Promise<PaymentResult> {
+    const client = createV402Client({baseUrl: endpoint, merchantId});
+    return client.makePayment(networkType, {additionalParams, ...options});
+}
@@ -0,0 +1,145 @@
+/**
+ * v402pay Client
+ *
+ * Runtime configuration (backend URL, merchant, fetch, logger, RPC URLs)
+ * shared by makePayment, usePaymentInfo and V402Checkout
+ */
+
+import type {PaymentRequirements} from "x402/types";
+import {NetworkType, PROD_BACK_URL} from "../types/common";
+import type {
+  PaymentResult,
+  TokenMetadata,
+  V402Client,
+  V402ClientConfig,
+  V402RequestOptions,
+  X402ClientConfig,
+} from "../types/common";
+import {handleX402Payment, resolveTokenMetadata} from "../services/unified";
+import {getChain} from "../utils/chain-registry";
+import {parsePaymentRequired} from "../utils/payment-helpers";
+import {withPaymentAbort} from "../utils/abort";
+import {combinePaymentHooks, PaymentEventEmitter} from "../utils/payment-lifecycle";
+import {getConnectedWalletAdapter} from "../services/connectors";
+import {getLogger} from "../utils/logger";
+
+/**
+ * Build the request body for a checkout call
+ */
+function buildRequestInit(additionalParams?: Record<string, any>): RequestInit {
+  return additionalParams && Object.keys(additionalParams).length > 0
+      ? {
+        body: JSON.stringify(additionalParams),
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+      : {};
+}
+
+/**
+ * Create a v402pay client
+ *
+ * @param config - Runtime configuration (all fields optional)
+ * @returns Client bound to the given backend and merchant
+ *
+ * @example
+ * ```typescript
+ * const client = createV402Client({
+ *   baseUrl: "https://staging.example.com/api/pay",
+ *   merchantId: "your-merchant-id",
+ *   rpcUrls: {"solana": "https://my-rpc.example.com"},
+ * });
+ *
+ * const {response, settlement} = await client.makePayment(NetworkType.EVM);
+ * ```
+ */
+export function createV402Client(config: V402ClientConfig = {}): V402Client {
+  const baseUrl = (config.baseUrl || PROD_BACK_URL).replace(/\/+$/, '');
+  const fetchFn: typeof fetch = config.fetch || ((input, init) => fetch(input, init));
+  const logger = config.logger || getLogger();
+  const locale = config.locale;
+  const rpcUrls = config.rpcUrls || {};
+
+  // Lifecycle events of every makePayment() call; config.hooks are the first subscribers
+  const events = new PaymentEventEmitter();
+  if (config.hooks) {
+    events.use(config.hooks);
+  }
+
+  const getCheckoutUrl = (merchantId: string | undefined = config.merchantId): string => {
+    if (!merchantId) {
+      throw new Error('Missing merchantId. Pass it to createV402Client() or to the request.');
+    }
+    return `${baseUrl}/${merchantId}`;
+  };
+
+  const getRpcUrl = (network: string): string | undefined => {
+    return rpcUrls[network] || rpcUrls[network.toLowerCase()] || getChain(network)?.rpcUrls[0];
+  };
+
+  const fetchPaymentRequirements = async (
+      options: V402RequestOptions = {}
+  ): Promise<PaymentRequirements[] | null> => {
+    return withPaymentAbort(options, async (signal) => {
+      const response = await fetchFn(getCheckoutUrl(options.merchantId), {
+        method: 'POST',
+        ...buildRequestInit(options.additionalParams),
+        signal,
+      });
+
+      if (response.status !== 402) {
+        // No payment required
+        return null;
+      }
+
+      const body = await response.json();
+      return parsePaymentRequired(body);
+    });
+  };
+
+  const getTokenMetadata = (
+      requirements: Pick<PaymentRequirements, 'network' | 'asset' | 'extra'>
+  ): Promise<TokenMetadata | null> => {
+    return resolveTokenMetadata(requirements, {rpcUrl: getRpcUrl(requirements.network), logger});
+  };
+
+  const makePayment = async (
+      networkType: NetworkType,
+      options: V402RequestOptions = {}
+  ): Promise<PaymentResult> => {
+    // 按网络类型准备钱包，具体使用哪个 accepts 条目由 handleX402Payment 决定
+    const paymentConfig: X402ClientConfig = {
+      rpcUrls,
+      fetch: fetchFn,
+      checkBalance: config.checkBalance,
+      preference: options.preference,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
+      hooks: combinePaymentHooks(events.hooks, options.hooks),
+      logger,
+    };
+    // 钱包来自该网络类型当前使用的 connector（registerConnector 可替换）
+    Object.assign(paymentConfig, await getConnectedWalletAdapter(networkType));
+
+    const endpoint = getCheckoutUrl(options.merchantId);
+    logger.debug('Paying checkout endpoint', {endpoint, networkType});
+
+    return handleX402Payment(endpoint, paymentConfig, buildRequestInit(options.additionalParams));
+  };
+
+  return {
+    baseUrl,
+    merchantId: config.merchantId,
+    fetch: fetchFn,
+    logger,
+    locale,
+    rpcUrls,
+    events,
+    getCheckoutUrl,
+    getRpcUrl,
+    fetchPaymentRequirements,
+    getTokenMetadata,
+    makePayment,
+  };
+}
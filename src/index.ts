@@ -5,16 +5,23 @@
  * 
  * @example
  * ```typescript
- * import { handleSvmPayment, handleEvmPayment } from '@x402/sdk';
+ * import { handleX402Payment, handleSvmPayment, handleEvmPayment } from '@x402/sdk';
+ * 
+ * // Any chain - picks among the server's accepts entries
+ * const { response, settlement } = await handleX402Payment(endpoint, {
+ *   evmWallet: { address, signTypedData },
+ *   svmWallet: window.solana,
+ *   preference: { strategy: 'cheapest' }
+ * });
  * 
  * // SVM payment
- * const response = await handleSvmPayment(endpoint, {
+ * const { response } = await handleSvmPayment(endpoint, {
  *   wallet: window.solana,
  *   network: 'solana-devnet'
  * });
  * 
  * // EVM payment
- * const response = await handleEvmPayment(endpoint, {
+ * const { response } = await handleEvmPayment(endpoint, {
  *   wallet: { address, signTypedData },
  *   network: 'base-sepolia'
  * });
@@ -28,20 +35,59 @@ export type {
   // Common types
   WalletAdapter,
   EvmWalletAdapter,
-  NetworkType,
+  PaymentResult,
+  PaymentAbortOptions,
+  PaymentFlowOptions,
+  PaymentLifecycleEvents,
+  PaymentLifecycleEvent,
+  PaymentLifecycleHooks,
+  PaymentEventSource,
+  PaymentPreference,
+  PaymentRequirementsSelector,
+  X402ClientConfig,
+  ChainConfig,
+  TokenInfo,
+  TokenMetadata,
+  TokenMetadataSource,
+  Logger,
+  LogFields,
+  WalletStorage,
+  WalletStorageOptions,
+  V402Client,
+  V402ClientConfig,
+  V402RequestOptions,
+  CheckoutStatus,
+  CheckoutWallet,
+  CheckoutState,
+  CheckoutMachine,
+  CheckoutMachineOptions,
+  WalletConnector,
+  EvmWalletConnector,
+  SvmWalletConnector,
+  WalletConnectorEvents,
+  ConnectorWallet,
+  WalletSyncMessage,
   
   // SVM types
   SolanaNetwork,
   SolanaPaymentPayload,
   SvmClientConfig,
   CreateSvmPaymentHeaderParams,
+  ExecuteSvmPaymentParams,
+  StandardWallet,
+  StandardWalletAccount,
+  StandardWalletInfo,
   
   // EVM types
   EvmNetwork,
   EvmPaymentPayload,
   EvmClientConfig,
   CreateEvmPaymentHeaderParams,
+  ExecuteEvmPaymentParams,
   EvmNetworkConfig,
+  Eip1193Provider,
+  Eip6963ProviderInfo,
+  Eip6963ProviderDetail,
   
   // x402 protocol types (re-exported from x402/types)
   PaymentRequirements,
@@ -51,14 +97,32 @@ export type {
   SPLTokenAmount,
 } from "./types";
 
+export type {
+  // Amount types
+  RoundingMode,
+  FormatAmountOptions,
+
+  // Error types
+  PaymentError,
+
+  // i18n types
+  MessageKey,
+  MessageCatalog,
+  MessageParams,
+} from "./utils";
+
 export {
   // Enums and constants
+  NetworkType,
+  PROD_BACK_URL,
   SolanaNetworkSchema,
   SolanaPaymentPayloadSchema,
   EvmNetworkSchema,
   EvmPaymentPayloadSchema,
   EVM_NETWORK_CONFIGS,
   getChainId,
+  getEvmNetworkConfig,
+  getEvmNetworkConfigs,
 } from "./types";
 
 // ============================================
@@ -70,10 +134,16 @@ export {
   // High-level API
   handleSvmPayment,
   createSvmPaymentFetch,
+  executeSvmPayment,
   
   // Low-level API
   createSvmPaymentHeader,
   getDefaultSolanaRpcUrl,
+  getSplTokenMetadata,
+
+  // Wallet adapters
+  svmAdapterFromKeypair,
+  svmAdapterFromStandardWallet,
 } from "./services/svm";
 
 // EVM services
@@ -81,22 +151,100 @@ export {
   // High-level API
   handleEvmPayment,
   createEvmPaymentFetch,
+  executeEvmPayment,
   
   // Low-level API
   createEvmPaymentHeader,
   getChainIdFromNetwork,
+  getErc20Balance,
+  assertSufficientErc20Balance,
+  getErc20Metadata,
+
+  // Wallet adapters
+  evmAdapterFromEip1193,
+  evmAdapterFromEthersSigner,
+  evmAdapterFromViemWalletClient,
 } from "./services/evm";
 
+export type {
+  ViemWalletClientLike,
+} from "./services/evm";
+
+// Chain-agnostic services
+export {
+  // High-level API
+  handleX402Payment,
+  createX402PaymentFetch,
+  
+  // Requirement selection
+  getPayableRequirements,
+  selectPaymentRequirements,
+  
+  // Token metadata
+  resolveTokenMetadata,
+  clearTokenMetadataCache,
+} from "./services/unified";
+
+// Wallet connectors
+export {
+  ConnectorRegistry,
+  connectorRegistry,
+  registerConnector,
+  unregisterConnector,
+  getConnector,
+  getConnectors,
+  getActiveConnector,
+  injectedEvmConnector,
+  injectedSvmConnector,
+
+  // Connector-backed wallet utilities
+  isWalletInstalled,
+  getWalletProvider,
+  getWalletInstallUrl,
+  getWalletDisplayName,
+} from "./services/connectors";
+
+// ============================================
+// Client exports
+// ============================================
+export {
+  createV402Client,
+  createCheckoutMachine,
+  makePayment,
+} from "./client";
+
 // ============================================
 // Utility exports
 // ============================================
 export {
   // Wallet utilities
-  isWalletInstalled,
-  getWalletProvider,
   formatAddress,
-  getWalletInstallUrl,
-  getWalletDisplayName,
+  
+  // Wallet discovery (EIP-6963 for EVM, Wallet Standard for Solana)
+  discoverEvmWallets,
+  getEvmWallets,
+  getEvmWallet,
+  getEvmProvider,
+  onEvmWalletsChanged,
+  getSelectedEvmWallet,
+  saveSelectedEvmWallet,
+  discoverSvmWallets,
+  getSvmWallets,
+  getSvmWallet,
+  onSvmWalletsChanged,
+  getSelectedSvmWallet,
+  saveSelectedSvmWallet,
+  
+  // Wallet state storage
+  configureStorage,
+  getStorage,
+  getStorageKey,
+  createWebStorage,
+  createMemoryStorage,
+  
+  // Cross-tab wallet sync
+  broadcastWalletChange,
+  onWalletSync,
   
   // Network utilities
   getNetworkType,
@@ -105,13 +253,57 @@ export {
   isSolanaAddress,
   isEvmAddress,
   getNetworkDisplayName,
+  getChainDisplayName,
+  
+  // Chain registry
+  ChainRegistry,
+  chainRegistry,
+  registerChain,
+  getChain,
+  getChainByChainId,
+  getKnownToken,
+  getExplorerTxUrl,
+  getExplorerAddressUrl,
   
+  // Amount conversion and formatting
+  parseUnits,
+  formatUnits,
+  formatAmount,
+  roundUnits,
+
   // General helpers
   toAtomicUnits,
   fromAtomicUnits,
   is402Response,
   
-  // Payment helpers
-  makePayment,
+  // Payment response
+  decodePaymentResponse,
+  getPaymentSettlement,
+
+  // Errors and cancellation
+  PaymentErrorCode,
+  PaymentOperationError,
+  parsePaymentError,
+  wrapPaymentError,
+  wrapChainSwitchError,
+  mapPaymentErrorReason,
+  withPaymentAbort,
+  throwIfAborted,
+
+  // Logging
+  consoleLogger,
+  silentLogger,
+  getLogger,
+  setLogger,
+
+  // Internationalization
+  translate,
+  getLocale,
+  setLocale,
+  addMessages,
+
+  // Payment lifecycle
+  PaymentEventEmitter,
+  combinePaymentHooks,
 } from "./utils";
 
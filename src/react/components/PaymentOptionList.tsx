@@ -0,0 +1,102 @@
+/**
+ * PaymentOptionList Component
+ *
+ * Lets the user pick which accepts entry (network + token) to pay with
+ */
+
+'use client';
+
+import React from 'react';
+import type {PaymentRequirements} from 'x402/types';
+import type {V402Client} from '../../types';
+import {getNetworkDisplayName} from '../../utils';
+import {useTokenMetadata} from '../hooks/useTokenMetadata';
+import {getPaymentDetails} from '../hooks/useV402Checkout';
+import {getNetworkIcon, TokenIcon} from '../utils/CryptoIcons';
+import {themeVars} from '../styles/theme';
+
+const c = themeVars.colors;
+
+export interface PaymentOptionListProps {
+    options: PaymentRequirements[];
+    selected: PaymentRequirements | null;
+    onSelect: (requirements: PaymentRequirements) => void;
+    label?: string;
+    disabled?: boolean;
+    client?: V402Client;
+}
+
+interface PaymentOptionProps {
+    option: PaymentRequirements;
+    isSelected: boolean;
+    disabled?: boolean;
+    client?: V402Client;
+    onSelect: (requirements: PaymentRequirements) => void;
+}
+
+function PaymentOption({option, isSelected, disabled, client, onSelect}: PaymentOptionProps) {
+    // 每个选项单独解析代币
+    const {token, isLoading} = useTokenMetadata(option, client);
+    const details = getPaymentDetails(option, token);
+    const NetworkIcon = getNetworkIcon(option.network);
+    const pricePrefix = /^USD/i.test(details.currency) ? '$' : '';
+
+    return (
+        <button
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            disabled={disabled}
+            onClick={() => onSelect(option)}
+            style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                width: '100%',
+                padding: '10px 12px',
+                borderRadius: themeVars.radius,
+                border: `1px solid ${isSelected ? c.primary : c.border}`,
+                background: isSelected ? c.surfaceMuted : c.surface,
+                fontFamily: 'inherit',
+                cursor: disabled ? 'not-allowed' : 'pointer',
+                opacity: disabled && !isSelected ? 0.6 : 1,
+                textAlign: 'left',
+                transition: 'border-color 0.2s ease',
+            }}
+        >
+            <NetworkIcon width={20} height={20}/>
+            <span style={{flex: 1, fontSize: '13px', fontWeight: 500, color: c.text}}>
+                {getNetworkDisplayName(option.network)}
+            </span>
+            <span style={{display: 'inline-flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: c.text}}>
+                <TokenIcon symbol={details.currency} logoURI={details.logoURI}/>
+                {isLoading ? '…' : `${pricePrefix}${details.amount} ${details.currency}`}
+            </span>
+        </button>
+    );
+}
+
+/**
+ * List of accepts entries; the selected one is paid
+ */
+export function PaymentOptionList({options, selected, onSelect, label, disabled, client}: PaymentOptionListProps) {
+    return (
+        <div role="radiogroup" aria-label={label} className="mb-4">
+            {label && (
+                <div style={{fontSize: '13px', color: c.textSecondary, marginBottom: '8px'}}>{label}</div>
+            )}
+            <div style={{display: 'flex', flexDirection: 'column', gap: '8px'}}>
+                {options.map((option, index) => (
+                    <PaymentOption
+                        key={`${option.network}-${option.asset}-${index}`}
+                        option={option}
+                        isSelected={option === selected}
+                        disabled={disabled}
+                        client={client}
+                        onSelect={onSelect}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,201 @@
+/**
+ * PaymentReceipt Component
+ *
+ * On-chain receipt of a settled payment: transaction, payer, network, token and amount,
+ * with explorer links from the chain registry
+ */
+
+'use client';
+
+import React, {useEffect, useRef, useState} from 'react';
+import type {SettleResponse} from 'x402/types';
+import {formatAddress, getExplorerAddressUrl, getExplorerTxUrl, getNetworkDisplayName} from '../../utils';
+import {useI18n} from '../hooks/useI18n';
+import type {CheckoutPaymentDetails} from '../hooks/useV402Checkout';
+import {themeVars} from '../styles/theme';
+import {TokenIcon} from '../utils/CryptoIcons';
+import {CheckIcon, CopyIcon, ExternalLinkIcon} from '../utils/UiIcons';
+import {Button, Divider, Text} from './primitives';
+
+const c = themeVars.colors;
+
+const COPIED_RESET_MS = 1500;
+
+export interface PaymentReceiptProps {
+    settlement: SettleResponse; // Decoded X-PAYMENT-RESPONSE header
+    paymentDetails?: CheckoutPaymentDetails | null; // Amount and token that were paid
+    locale?: string; // Label language (defaults to the client / SDK locale)
+}
+
+// "https://sepolia.basescan.org/tx/..." -> "Basescan"
+function getExplorerName(url: string): string {
+    const labels = new URL(url).hostname.split('.');
+    const name = labels[labels.length - 2] || labels[0];
+    return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Clipboard API 不可用（非 HTTPS / 旧浏览器）时回退到 execCommand
+async function copyToClipboard(text: string): Promise<boolean> {
+    try {
+        if (navigator.clipboard?.writeText) {
+            await navigator.clipboard.writeText(text);
+            return true;
+        }
+        const textarea = document.createElement('textarea');
+        textarea.value = text;
+        textarea.style.position = 'fixed';
+        textarea.style.opacity = '0';
+        document.body.appendChild(textarea);
+        textarea.select();
+        const copied = document.execCommand('copy');
+        document.body.removeChild(textarea);
+        return copied;
+    } catch (error) {
+        return false;
+    }
+}
+
+interface CopyButtonProps {
+    value: string;
+    label: string;
+    copiedLabel: string;
+}
+
+function CopyButton({value, label, copiedLabel}: CopyButtonProps) {
+    const [copied, setCopied] = useState(false);
+    const timer = useRef<ReturnType<typeof setTimeout>>();
+
+    useEffect(() => () => clearTimeout(timer.current), []);
+
+    const handleCopy = async () => {
+        if (await copyToClipboard(value)) {
+            setCopied(true);
+            clearTimeout(timer.current);
+            timer.current = setTimeout(() => setCopied(false), COPIED_RESET_MS);
+        }
+    };
+
+    return (
+        <Button
+            variant="text"
+            size="small"
+            icon={copied ? <CheckIcon size={14} style={{color: c.success}}/> : <CopyIcon size={14}/>}
+            onClick={handleCopy}
+            aria-label={copied ? copiedLabel : label}
+            title={copied ? copiedLabel : label}
+            style={{color: c.textSecondary}}
+        />
+    );
+}
+
+interface ReceiptRowProps {
+    label: string;
+    children: React.ReactNode;
+}
+
+function ReceiptRow({label, children}: ReceiptRowProps) {
+    return (
+        <div className="flex justify-between items-center" style={{gap: '12px', minHeight: '28px'}}>
+            <Text secondary style={{fontSize: '13px', flexShrink: 0}}>{label}</Text>
+            <div className="flex items-center" style={{gap: '4px', minWidth: 0}}>{children}</div>
+        </div>
+    );
+}
+
+/**
+ * Receipt of a settled payment
+ *
+ * @example
+ * ```tsx
+ * const {status, settlement, paymentDetails} = useV402Checkout('your-checkout-id');
+ *
+ * {status === 'success' && settlement && (
+ *   <PaymentReceipt settlement={settlement} paymentDetails={paymentDetails}/>
+ * )}
+ * ```
+ */
+export function PaymentReceipt({settlement, paymentDetails, locale}: PaymentReceiptProps) {
+    const {t} = useI18n(locale);
+    const {transaction, payer, network} = settlement;
+    const txUrl = transaction ? getExplorerTxUrl(network, transaction) : undefined;
+    const payerUrl = payer ? getExplorerAddressUrl(network, payer) : undefined;
+    const pricePrefix = paymentDetails && /^USD/i.test(paymentDetails.currency) ? '$' : '';
+
+    const linkStyle: React.CSSProperties = {color: c.text, textDecoration: 'none'};
+    const copyLabels = {label: t('checkout.copy'), copiedLabel: t('checkout.copied')};
+
+    return (
+        <div
+            style={{
+                background: c.surfaceMuted,
+                border: `1px solid ${c.border}`,
+                borderRadius: themeVars.radiusLarge,
+                padding: '12px 16px',
+            }}
+        >
+            <Text secondary block style={{fontSize: '12px', fontWeight: 500, marginBottom: '4px'}}>
+                {t('checkout.receipt')}
+            </Text>
+
+            {transaction && (
+                <ReceiptRow label={t('checkout.transactionHash')}>
+                    {txUrl ? (
+                        <a href={txUrl} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                            <Text mono style={{fontSize: '13px', fontWeight: 500}}>{formatAddress(transaction)}</Text>
+                        </a>
+                    ) : (
+                        <Text mono style={{fontSize: '13px', fontWeight: 500}}>{formatAddress(transaction)}</Text>
+                    )}
+                    <CopyButton value={transaction} {...copyLabels}/>
+                </ReceiptRow>
+            )}
+
+            {payer && (
+                <ReceiptRow label={t('checkout.payer')}>
+                    {payerUrl ? (
+                        <a href={payerUrl} target="_blank" rel="noopener noreferrer" style={linkStyle}>
+                            <Text mono style={{fontSize: '13px', fontWeight: 500}}>{formatAddress(payer)}</Text>
+                        </a>
+                    ) : (
+                        <Text mono style={{fontSize: '13px', fontWeight: 500}}>{formatAddress(payer)}</Text>
+                    )}
+                    <CopyButton value={payer} {...copyLabels}/>
+                </ReceiptRow>
+            )}
+
+            <ReceiptRow label={t('checkout.network')}>
+                <Text style={{fontSize: '13px', fontWeight: 500}}>{getNetworkDisplayName(network)}</Text>
+            </ReceiptRow>
+
+            {paymentDetails && (
+                <>
+                    <ReceiptRow label={t('checkout.currency')}>
+                        <TokenIcon symbol={paymentDetails.currency} logoURI={paymentDetails.logoURI}/>
+                        <Text style={{fontSize: '13px', fontWeight: 500}}>{paymentDetails.currency}</Text>
+                    </ReceiptRow>
+                    <ReceiptRow label={t('checkout.paymentAmount')}>
+                        <Text strong style={{fontSize: '13px'}}>
+                            {pricePrefix}{paymentDetails.amount} {paymentDetails.currency}
+                        </Text>
+                    </ReceiptRow>
+                </>
+            )}
+
+            {txUrl && (
+                <>
+                    <Divider style={{margin: '8px 0'}}/>
+                    <a
+                        href={txUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-center"
+                        style={{...linkStyle, gap: '6px', fontSize: '13px', fontWeight: 500, padding: '4px 0'}}
+                    >
+                        {t('checkout.viewOnExplorer', {explorer: getExplorerName(txUrl)})}
+                        <ExternalLinkIcon size={12}/>
+                    </a>
+                </>
+            )}
+        </div>
+    );
+}
@@ -1,25 +1,37 @@
 'use client';
 
-import React, {useEffect, useState} from 'react';
-import {Button, Card, Divider, message, Spin, Tooltip, Typography} from 'antd';
+import React from 'react';
+import {useV402Checkout} from "../hooks/useV402Checkout";
+import {useV402Client} from "../hooks/useV402Client";
+import {useI18n} from "../hooks/useI18n";
 import {
-    DisconnectOutlined,
-    InfoCircleOutlined,
-    LinkOutlined,
-    LoadingOutlined,
-    LockOutlined,
-    SafetyOutlined
-} from '@ant-design/icons';
-import {usePaymentInfo} from "../hooks/usePaymentInfo";
-import {usePageNetwork} from "../hooks/usePageNetwork";
-import {usePayment} from "../hooks/usePayment";
-import {PROD_BACK_URL} from "../../types/common";
-import {formatAddress, makePayment} from "../../utils";
+    formatAddress,
+    getChainDisplayName,
+    getNetworkDisplayName,
+    getSupportedNetworkTypes,
+    PaymentErrorCode,
+    PaymentOperationError
+} from "../../utils";
 import {WalletConnect} from './WalletConnect';
+import {PaymentOptionList} from './PaymentOptionList';
+import {PaymentReceipt} from './PaymentReceipt';
+import {Button, Card, Divider, Text, ThemeRoot, Title, ToastViewport, Tooltip, useToasts} from './primitives';
 import {NetworkType} from "../../types";
-import {getNetworkIcon} from "../utils/CryptoIcons";
+import type {V402Client} from "../../types";
+import {themeVars} from "../styles/theme";
+import type {V402Theme} from "../styles/theme";
+import {getNetworkIcon, TokenIcon} from "../utils/CryptoIcons";
+import {
+    DisconnectIcon,
+    ExternalLinkIcon,
+    InfoIcon,
+    LockIcon,
+    ShieldIcon,
+    SpinnerIcon,
+    WarningIcon
+} from "../utils/UiIcons";
 
-const {Title, Text} = Typography;
+const c = themeVars.colors;
 
 interface HeaderInfo {
     title?: string;      // 标题
@@ -34,21 +46,12 @@ export interface V402CheckoutProps {
     onPaymentComplete?: (response: any) => void; // 支付完成后的回调函数
     additionalParams?: Record<string, any>; // 额外的入参,会透传给checkout配置的回调
     expectedNetwork?: NetworkType; // 期望的网络类型
+    client?: V402Client; // v402pay 客户端，默认使用 V402Provider 提供的客户端
+    timeoutMs?: number; // 支付超时时间（毫秒），超时后取消支付
+    locale?: string; // 界面语言（如 'en'、'zh'），默认使用客户端 / SDK 的 locale
+    theme?: V402Theme; // 主题（颜色、圆角、字体、明暗模式），默认使用 V402Provider 的 theme
 }
 
-// 使用 antd 的 message 组件
-const notify = {
-    success: (title: string, msg: string) => {
-        message.success(`${title}: ${msg}`);
-    },
-    error: (title: string, msg: string) => {
-        message.error(`${title}: ${msg}`);
-    },
-    info: (title: string, msg: string) => {
-        message.info(`${title}: ${msg}`);
-    }
-};
-
 export default function V402Checkout({
                                          checkoutId,
                                          headerInfo = {},
@@ -56,113 +59,103 @@ export default function V402Checkout({
                                          onPaymentComplete,
                                          additionalParams = {},
                                          expectedNetwork,
+                                         client,
+                                         timeoutMs,
+                                         locale,
+                                         theme,
                                      }: V402CheckoutProps) {
+    // 优先使用 prop，其次 V402Provider，最后默认 prod 配置
+    const v402Client = useV402Client(client);
+    const {locale: resolvedLocale, t} = useI18n(locale, v402Client);
+    const {toasts, show: showToast} = useToasts();
+
+    const notify = {
+        success: (title: string, msg: string) => showToast('success', `${title}: ${msg}`),
+        error: (title: string, msg: string) => showToast('error', `${title}: ${msg}`),
+        info: (title: string, msg: string) => showToast('info', `${title}: ${msg}`),
+    };
+
     // 解构 headerInfo，并设置默认值
     const {
-        title = 'V402Pay - Make x402Pay Easier',
+        title = t('checkout.title'),
         subtitle = 'onvoyage.ai',
-        tooltipText = 'V402Pay - Accept Crypto Payments Easier'
+        tooltipText = t('checkout.tooltip')
     } = headerInfo;
-    // 默认prod
-    const endpoint = PROD_BACK_URL;
 
-    // 获取支付信息以确定期望的网络
+    // 支付流程（加载支付信息、连接钱包、签名、提交）由 useV402Checkout 驱动
     const {
+        status,
+        requirements,
+        selected,
+        select,
         supportedNetworks,
-        isLoading: fetchingPaymentInfo,
-        paymentInfo
-    } = usePaymentInfo(checkoutId, endpoint, additionalParams);
-
-    // 确定实际期望的网络（优先使用 prop，否则使用第一个支持的网络）
-    const targetNetwork = expectedNetwork || supportedNetworks[0];
-
-    // 使用 usePageNetwork 自动管理网络切换
-    const {address, networkType, disconnect, ensureNetwork} = usePageNetwork(
-        targetNetwork,
-        {autoSwitch: !!targetNetwork, switchOnMount: true}
-    );
-
-    const {isProcessing, setIsProcessing, result, setResult, error, setError} = usePayment();
-
-    // Payment details state
-    const [paymentDetails, setPaymentDetails] = useState<{
-        amount: string;
-        currency: string;
-        network: string;
-    } | null>(null);
+        paymentDetails,
+        token,
+        address,
+        chainId,
+        isSwitchingChain,
+        result: checkoutResult,
+        settlement,
+        error: checkoutError,
+        pay,
+        switchChain,
+        disconnect,
+        reset,
+    } = useV402Checkout(checkoutId, {
+        client: v402Client,
+        additionalParams,
+        expectedNetwork,
+        timeoutMs,
+        locale: resolvedLocale,
+        onPaymentComplete,
+    });
+
+    const fetchingPaymentInfo = status === 'idle' || status === 'loadingRequirements';
+    const isProcessing = status === 'signing' || status === 'submitting';
+    const result = status === 'success' ? checkoutResult : null;
+    const error = status === 'failed' && requirements ? checkoutError : null;
+    // EVM 钱包所在链与支付要求不一致时，提示切换网络（支付过程中由支付流程自行切链）
+    const isWrongNetwork = status === 'wrongNetwork';
+    // 多个支付选项时，只连接选中选项所在网络的钱包
+    const walletNetworks = selected ? getSupportedNetworkTypes([selected]) : supportedNetworks;
 
     // Handle disconnect
     const handleDisconnect = () => {
         disconnect();
-        setResult(null);
-        setError(null);
-        notify.info('Wallet Disconnected', 'Your wallet has been disconnected successfully.');
+        notify.info(t('checkout.walletDisconnectedTitle'), t('checkout.walletDisconnected'));
     };
 
 
-    // Extract payment details from paymentInfo
-    useEffect(() => {
-        if (paymentInfo && paymentInfo.length > 0) {
-            const firstPayment = paymentInfo[0];
-
-            // 从后端获取金额
-            const rawAmount = firstPayment.maxAmountRequired?.toString() || '0';
-            // USDC 使用 6 位小数
-            const decimals = 6;
-            const humanReadableAmount = (Number(rawAmount) / Math.pow(10, decimals)).toFixed(2);
-
-            // 从后端获取网络
-            const network = firstPayment.network || 'Unknown';
-
-            // 币种：后端没有提供币种名称字段，asset 是代币合约地址
-            // 使用默认值 USDC，后续可由后端添加 currency 字段
-            const currency = 'USDC';
-
-            setPaymentDetails({
-                amount: humanReadableAmount,
-                currency: currency,
-                network: network,
-            });
-        }
-    }, [paymentInfo]);
-
-    // 当支持的网络改变时，确保切换到正确的网络
-    useEffect(() => {
-        if (targetNetwork && !fetchingPaymentInfo && ensureNetwork) {
-            ensureNetwork(targetNetwork).catch(err => {
-                console.error('Failed to ensure network:', err);
-            });
+    // Switch the wallet to the payment chain
+    const handleSwitchChain = async () => {
+        try {
+            await switchChain();
+        } catch (err: any) {
+            const errorMessage = err instanceof PaymentOperationError
+                ? err.getUserMessage(resolvedLocale)
+                : err?.message || t('wallet.switchFailed');
+            notify.error(t('checkout.wrongNetworkTitle'), errorMessage);
         }
-    }, [targetNetwork, fetchingPaymentInfo]);
+    };
+
+    // 美元稳定币显示 $ 前缀
+    const pricePrefix = paymentDetails && /^USD/i.test(paymentDetails.currency) ? '$' : '';
 
     // Handle payment
     const handlePayment = async () => {
-        if (!networkType) {
-            notify.error('Wallet Not Connected', 'Please connect your wallet first.');
+        if (!address) {
+            notify.error(t('checkout.walletNotConnectedTitle'), t('error.WALLET_NOT_CONNECTED'));
             return;
         }
 
-        // 清除之前的结果，开始新的支付流程
-        setResult(null);
-        setError(null);
-        setIsProcessing(true);
-
-        try {
-            const response = await makePayment(networkType, checkoutId, endpoint, additionalParams);
-            const data = await response.json();
-            setResult(data);
-            notify.success('Payment Successful!', 'Your payment has been processed successfully.');
-
-            // 透传 response 数据给父组件
-            if (onPaymentComplete) {
-                onPaymentComplete(data);
-            }
-        } catch (err: any) {
-            const errorMessage = err.message || 'Payment failed';
-            setError(errorMessage);
-            notify.error('Payment Failed', errorMessage);
-        } finally {
-            setIsProcessing(false);
+        const next = await pay();
+        if (next.status === 'success') {
+            notify.success(t('checkout.paymentSuccessful'), t('checkout.paymentProcessed'));
+        } else if (next.status === 'failed' && next.error) {
+            // 已卸载或被取消时状态会回到支付前，不提示
+            notify.error(t('checkout.paymentFailed'), next.error.code !== PaymentErrorCode.UNKNOWN_ERROR
+                ? next.error.getUserMessage(resolvedLocale)
+                : next.error.message || t('checkout.paymentFailed'));
         }
     };
 
@@ -170,18 +163,21 @@ export default function V402Checkout({
     const getNetworkColor = (network: string) => {
         if (network.toLowerCase().includes('solana')) return '#14F195';
         if (network.toLowerCase().includes('evm') || network.toLowerCase().includes('base')) return '#0052FF';
-        return '#8c8c8c';
+        return c.textSecondary;
     };
 
     const NetworkIcon = paymentDetails ? getNetworkIcon(paymentDetails.network) : null;
-    const networkColor = paymentDetails ? getNetworkColor(paymentDetails.network) : '#8c8c8c';
-    const loadingColor = '#8c8c8c'; // 灰色用于加载状态
+    const networkColor = paymentDetails ? getNetworkColor(paymentDetails.network) : c.textSecondary;
+    const loadingColor = c.textSecondary; // 灰色用于加载状态
     // Check if checkout ID is invalid (no payment info after loading)
-    const hasInvalidCheckoutId = !fetchingPaymentInfo && (!paymentInfo || paymentInfo.length === 0);
+    const hasInvalidCheckoutId = status === 'failed' && !requirements;
 
     return (
-        <div
-            className={isModal ? "bg-white" : "h-screen bg-white flex items-center justify-center p-4 overflow-hidden"}>
+        <ThemeRoot
+            theme={theme}
+            className={isModal ? undefined : "h-screen flex items-center justify-center p-4 overflow-hidden"}
+            style={{background: isModal ? c.surface : c.background}}
+        >
             <div
                 className="flex gap-4 items-center justify-center"
                 style={{
@@ -194,64 +190,69 @@ export default function V402Checkout({
                 <Card
                     className="flex-shrink-0"
                     style={{
-                        border: isModal ? 'none' : '1px solid #e8e8e8',
-                        borderRadius: isModal ? '0' : '16px',
+                        border: isModal ? 'none' : `1px solid ${c.border}`,
+                        borderRadius: isModal ? '0' : themeVars.radiusLarge,
                         boxShadow: isModal ? 'none' : '0 4px 24px rgba(0, 0, 0, 0.06)',
                         maxHeight: isModal ? 'calc(100vh - 100px)' : 'calc(100vh - 32px)',
                         overflow: 'auto',
                         width: isModal ? '100%' : '480px',
                         transition: 'all 0.4s ease-in-out',
-                        transform: (result || error) ? 'translateX(0)' : 'translateX(0)',
                     }}
-                    styles={{body: {padding: isModal ? '0px' : '32px 24px'}}}
+                    bodyStyle={{padding: isModal ? '0px' : '32px 24px'}}
                 >
                     {/* Header */}
                     <div className="flex items-center gap-3 mb-4">
                         <div
-                            className="w-12 h-12 rounded-xl flex items-center justify-center"
+                            className="w-12 h-12 flex items-center justify-center"
                             style={{
-                                background: hasInvalidCheckoutId ? '#ff4d4f' : (paymentDetails ? networkColor : loadingColor),
+                                borderRadius: themeVars.radiusLarge,
+                                background: hasInvalidCheckoutId ? c.danger : (paymentDetails ? networkColor : loadingColor),
+                                color: '#ffffff',
                                 transition: 'background 0.3s ease'
                             }}
                         >
                             {hasInvalidCheckoutId ? (
-                                <span style={{fontSize: '20px', color: 'white', fontWeight: 'bold'}}>✗</span>
+                                <span style={{fontSize: '20px', fontWeight: 'bold'}}>✗</span>
                             ) : paymentDetails && NetworkIcon ? (
                                 <NetworkIcon width={24} height={24}/>
                             ) : (
-                                <LoadingOutlined style={{fontSize: '20px', color: 'white'}} spin/>
+                                <SpinnerIcon size={20}/>
                             )}
                         </div>
                         <div className="flex-1">
                             <div className="flex items-center gap-2">
-                                <Title level={4} style={{margin: 0, fontSize: '18px', fontWeight: 600}}>
+                                <Title level={4}>
                                     {title || 'Echo Payment OnVoyage'}
                                 </Title>
                                 {!hasInvalidCheckoutId && (
-                                    <Tooltip
-                                        title={tooltipText}
-                                        placement="top"
-                                    >
-                                        <InfoCircleOutlined
-                                            style={{fontSize: '14px', color: '#8c8c8c', cursor: 'help'}}/>
+                                    <Tooltip title={tooltipText}>
+                                        <span tabIndex={0} style={{display: 'inline-flex', color: c.textSecondary, cursor: 'help'}}>
+                                            <InfoIcon size={14}/>
+                                        </span>
                                     </Tooltip>
                                 )}
                             </div>
-                            <Text style={{fontSize: '13px', color: '#8c8c8c'}}>{subtitle}</Text>
+                            <Text secondary style={{fontSize: '13px'}}>{subtitle}</Text>
                         </div>
                     </div>
 
                     {/* Payment Info */}
                     <div className="text-center mb-5">
-                        <div className="inline-flex items-center justify-center w-12 h-12 rounded-full bg-gray-50 mb-3">
-                            <LockOutlined style={{fontSize: '20px', color: '#595959'}}/>
+                        <div
+                            className="inline-flex items-center justify-center w-12 h-12 rounded-full mb-3"
+                            style={{background: c.surfaceMuted, color: c.textSecondary}}
+                        >
+                            <LockIcon size={20}/>
                         </div>
-                        <Title level={3} style={{margin: '0 0 6px 0', fontSize: '20px', fontWeight: 600}}>
-                            Payment Required
+                        <Title level={3} style={{margin: '0 0 6px 0'}}>
+                            {t('checkout.paymentRequired')}
                         </Title>
-                        <Text style={{fontSize: '13px', color: '#8c8c8c'}}>
-                            Pay {paymentDetails ? `$${paymentDetails.amount} ${paymentDetails.currency}` : 'the required amount'} to
-                            access
+                        <Text secondary style={{fontSize: '13px'}}>
+                            {t('checkout.payToAccess', {
+                                amount: paymentDetails
+                                    ? `${pricePrefix}${paymentDetails.amount} ${paymentDetails.currency}`
+                                    : t('checkout.requiredAmount'),
+                            })}
                         </Text>
                     </div>
 
@@ -261,51 +262,67 @@ export default function V402Checkout({
                             <div
                                 className="inline-flex items-center justify-center w-16 h-16 rounded-full mb-4"
                                 style={{
-                                    background: 'linear-gradient(135deg, #ef4444 0%, #f87171 100%)',
+                                    background: c.danger,
                                     boxShadow: '0 4px 20px rgba(239, 68, 68, 0.3)'
                                 }}
                             >
                                 <span style={{fontSize: '32px', color: 'white'}}>!</span>
                             </div>
-                            <Title level={4}
-                                   style={{margin: '0 0 12px 0', fontSize: '18px', fontWeight: 600, color: '#262626'}}>
-                                Invalid Checkout ID
+                            <Title level={4} style={{margin: '0 0 12px 0'}}>
+                                {t('checkout.invalidCheckoutId')}
                             </Title>
-                            <Text style={{fontSize: '14px', color: '#8c8c8c', display: 'block', marginBottom: '16px'}}>
-                                The checkout ID you provided is invalid or has expired.
+                            <Text secondary block style={{fontSize: '14px', marginBottom: '16px'}}>
+                                {t('checkout.invalidCheckoutIdHint')}
                             </Text>
                             <div
                                 style={{
-                                    background: '#fef2f2',
+                                    background: c.errorBg,
                                     padding: '16px',
-                                    borderRadius: '12px',
-                                    border: '1px solid #fee2e2',
+                                    borderRadius: themeVars.radiusLarge,
+                                    border: `1px solid ${c.errorBorder}`,
                                     marginTop: '16px'
                                 }}
                             >
                                 <Text style={{
                                     fontSize: '13px',
-                                    color: '#dc2626',
+                                    color: c.errorText,
                                     lineHeight: '1.6',
                                     fontWeight: 500
                                 }}>
-                                    Failed to load payment information. Please check your checkout ID.
+                                    {t('checkout.loadFailed')}
                                 </Text>
                             </div>
                         </div>
                     )}
 
+                    {/* Payment options - 商户接受多种网络 / 代币时让用户选择 */}
+                    {!hasInvalidCheckoutId && requirements && requirements.length > 1 && (
+                        <PaymentOptionList
+                            options={requirements}
+                            selected={selected}
+                            onSelect={select}
+                            label={t('checkout.paymentOptions')}
+                            disabled={isProcessing || status === 'success'}
+                            client={v402Client}
+                        />
+                    )}
+
                     {/* Loading state */}
                     {!hasInvalidCheckoutId && fetchingPaymentInfo && (
                         <div className="text-center py-6">
-                            <Text style={{color: '#8c8c8c'}}>Loading payment information...</Text>
+                            <Text secondary>{t('checkout.loadingPaymentInfo')}</Text>
                         </div>
                     )}
 
                     {/* Wallet connection */}
                     {!hasInvalidCheckoutId && !fetchingPaymentInfo && !address && (
                         <div>
-                            <WalletConnect supportedNetworks={supportedNetworks}/>
+                            <WalletConnect
+                                supportedNetworks={walletNetworks}
+                                token={token}
+                                locale={resolvedLocale}
+                                theme={theme}
+                            />
                         </div>
                     )}
 
@@ -314,75 +331,79 @@ export default function V402Checkout({
                         <>
                             {/* Wallet Card */}
                             <div
-                                className="bg-gray-50 rounded-lg p-3 mb-4"
-                                style={{border: '1px solid #f0f0f0'}}
+                                className="p-3 mb-4"
+                                style={{background: c.surfaceMuted, border: `1px solid ${c.border}`, borderRadius: themeVars.radius}}
                             >
                                 <div className="flex items-center justify-between">
                                     <div className="flex items-center gap-3 flex-1">
                                         <div
-                                            className="w-10 h-10 rounded-full bg-black flex items-center justify-center text-white text-sm font-semibold">
+                                            className="w-10 h-10 rounded-full flex items-center justify-center text-sm font-semibold"
+                                            style={{background: c.primary, color: c.primaryText}}
+                                        >
                                             {address.slice(0, 2).toUpperCase()}
                                         </div>
                                         <div className="flex-1 min-w-0">
-                                            <Text style={{
-                                                display: 'block',
-                                                fontSize: '12px',
-                                                color: '#8c8c8c',
-                                                marginBottom: '2px'
-                                            }}>
-                                                Connected Wallet
+                                            <Text secondary block style={{fontSize: '12px', marginBottom: '2px'}}>
+                                                {t('checkout.connectedWallet')}
                                             </Text>
-                                            <Text
-                                                style={{
-                                                    fontSize: '13px',
-                                                    fontWeight: 600,
-                                                    fontFamily: 'Monaco, monospace',
-                                                }}
-                                            >
+                                            <Text strong mono style={{fontSize: '13px'}}>
                                                 {formatAddress(address)}
                                             </Text>
                                         </div>
                                     </div>
                                     <Button
-                                        type="text"
+                                        variant="text"
                                         size="small"
-                                        icon={<DisconnectOutlined/>}
+                                        icon={<DisconnectIcon size={14}/>}
                                         onClick={handleDisconnect}
-                                        style={{color: '#ff4d4f'}}
+                                        aria-label={t('wallet.disconnect')}
+                                        style={{color: c.danger}}
                                     />
                                 </div>
                             </div>
 
                             {/* Payment Details */}
                             {paymentDetails && (
-                                <div className="bg-gray-50 rounded-lg p-3 mb-4" style={{border: '1px solid #f0f0f0'}}>
+                                <div
+                                    className="p-3 mb-4"
+                                    style={{background: c.surfaceMuted, border: `1px solid ${c.border}`, borderRadius: themeVars.radius}}
+                                >
                                     <div className="flex justify-between items-center mb-2">
-                                        <Text style={{fontSize: '13px', color: '#8c8c8c'}}>Payment Amount</Text>
-                                        <Text style={{fontSize: '18px', fontWeight: 600}}>
-                                            ${paymentDetails.amount}
+                                        <Text secondary style={{fontSize: '13px'}}>{t('checkout.paymentAmount')}</Text>
+                                        <Text strong style={{fontSize: '18px'}}>
+                                            {pricePrefix}{paymentDetails.amount}
                                         </Text>
                                     </div>
                                     <Divider style={{margin: '6px 0'}}/>
                                     <div className="flex justify-between items-center mb-2">
-                                        <Text style={{fontSize: '13px', color: '#8c8c8c'}}>Currency</Text>
-                                        <Text style={{fontSize: '14px', fontWeight: 500}}>
+                                        <Text secondary style={{fontSize: '13px'}}>{t('checkout.currency')}</Text>
+                                        <Text style={{
+                                            fontSize: '14px',
+                                            fontWeight: 500,
+                                            display: 'inline-flex',
+                                            alignItems: 'center',
+                                            gap: '6px'
+                                        }}>
+                                            <TokenIcon
+                                                symbol={paymentDetails.currency}
+                                                logoURI={paymentDetails.logoURI}
+                                            />
                                             {paymentDetails.currency}
                                         </Text>
                                     </div>
                                     <Divider style={{margin: '6px 0'}}/>
                                     <div className="flex justify-between items-center mb-2">
-                                        <Text style={{fontSize: '13px', color: '#8c8c8c'}}>Network</Text>
+                                        <Text secondary style={{fontSize: '13px'}}>{t('checkout.network')}</Text>
                                         <Text style={{fontSize: '14px', fontWeight: 500}}>
                                             {paymentDetails.network}
                                         </Text>
                                     </div>
                                     <Divider style={{margin: '6px 0'}}/>
                                     <div className="flex justify-between items-start">
-                                        <Text style={{fontSize: '13px', color: '#8c8c8c'}}>Wallet Address</Text>
-                                        <Text style={{
+                                        <Text secondary style={{fontSize: '13px'}}>{t('checkout.walletAddress')}</Text>
+                                        <Text mono style={{
                                             fontSize: '11px',
                                             fontWeight: 500,
-                                            fontFamily: 'Monaco, monospace',
                                             wordBreak: 'break-all',
                                             textAlign: 'right',
                                             maxWidth: '60%',
@@ -396,95 +417,151 @@ export default function V402Checkout({
 
                             {/* Security Notice */}
                             <div
-                                className="flex items-center justify-center gap-2 mb-3 p-2 rounded-lg"
-                                style={{background: '#f6ffed', border: '1px solid #d9f7be'}}
+                                className="flex items-center justify-center gap-2 mb-3 p-2"
+                                style={{
+                                    background: c.successBg,
+                                    border: `1px solid ${c.successBorder}`,
+                                    borderRadius: themeVars.radius,
+                                    color: c.success
+                                }}
                             >
-                                <SafetyOutlined style={{color: '#52c41a', fontSize: '13px'}}/>
-                                <Text style={{fontSize: '12px', color: '#52c41a', fontWeight: 500}}>
-                                    Secure payment powered by v402pay
+                                <ShieldIcon size={13}/>
+                                <Text style={{fontSize: '12px', color: c.success, fontWeight: 500}}>
+                                    {t('checkout.securedBy')}
                                 </Text>
                             </div>
 
+                            {/* Wrong network */}
+                            {isWrongNetwork && selected && (
+                                <div
+                                    className="flex items-start gap-2 mb-3 p-3"
+                                    style={{
+                                        background: c.warningBg,
+                                        border: `1px solid ${c.warningBorder}`,
+                                        borderRadius: themeVars.radius
+                                    }}
+                                >
+                                    <WarningIcon size={14} style={{color: c.warning, marginTop: '2px'}}/>
+                                    <div>
+                                        <Text block style={{fontSize: '13px', fontWeight: 600, color: c.warningText}}>
+                                            {t('checkout.wrongNetworkTitle')}
+                                        </Text>
+                                        <Text style={{fontSize: '12px', color: c.warningText}}>
+                                            {t('checkout.wrongNetwork', {
+                                                current: chainId !== null ? getChainDisplayName(chainId) : t('checkout.anotherNetwork'),
+                                                network: getNetworkDisplayName(selected.network),
+                                            })}
+                                        </Text>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Payment Button */}
-                            <Button
-                                type="primary"
-                                size="large"
-                                onClick={handlePayment}
-                                disabled={isProcessing || !paymentDetails}
-                                loading={isProcessing}
-                                block
-                                style={{
-                                    height: '44px',
-                                    fontSize: '14px',
-                                    fontWeight: 600,
-                                    borderRadius: '8px',
-                                    ...(!isProcessing && paymentDetails && {
-                                        background: '#1a1a1a',
-                                        borderColor: '#1a1a1a',
-                                    }),
-                                    marginBottom: '10px',
-                                }}
-                            >
-                                {isProcessing
-                                    ? 'Processing...'
-                                    : !paymentDetails
-                                        ? 'Loading...'
-                                        : `Pay $${paymentDetails.amount} ${paymentDetails.currency}`}
-                            </Button>
+                            {isWrongNetwork && selected ? (
+                                <Button
+                                    variant="primary"
+                                    size="large"
+                                    onClick={handleSwitchChain}
+                                    loading={isSwitchingChain}
+                                    block
+                                    style={{marginBottom: '10px'}}
+                                >
+                                    {isSwitchingChain
+                                        ? t('checkout.switchingNetwork')
+                                        : t('checkout.switchNetwork', {network: getNetworkDisplayName(selected.network)})}
+                                </Button>
+                            ) : (
+                                <Button
+                                    variant="primary"
+                                    size="large"
+                                    onClick={handlePayment}
+                                    disabled={!paymentDetails}
+                                    loading={isProcessing}
+                                    block
+                                    style={{marginBottom: '10px'}}
+                                >
+                                    {isProcessing
+                                        ? t('checkout.processing')
+                                        : !paymentDetails
+                                            ? t('checkout.loading')
+                                            : t('checkout.pay', {amount: `${pricePrefix}${paymentDetails.amount} ${paymentDetails.currency}`})}
+                                </Button>
+                            )}
 
                             {/* Footer Link */}
-                            <div className="text-center">
-                                <Text style={{fontSize: '13px', color: '#8c8c8c'}}>
-                                    Don't have USDC?{' '}
-                                </Text>
-                                <a
-                                    href="https://faucet.circle.com/"
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="text-blue-600 hover:text-blue-700 text-sm font-medium inline-flex items-center gap-1"
-                                >
-                                    Get it here <LinkOutlined style={{fontSize: '12px'}}/>
-                                </a>
-                            </div>
+                            {paymentDetails?.currency === 'USDC' && (
+                                <div className="text-center">
+                                    <Text secondary style={{fontSize: '13px'}}>
+                                        {t('checkout.noToken', {token: 'USDC'})}{' '}
+                                    </Text>
+                                    <a
+                                        href="https://faucet.circle.com/"
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-sm font-medium inline-flex items-center gap-1"
+                                        style={{color: c.text, textDecoration: 'underline'}}
+                                    >
+                                        {t('checkout.getItHere')} <ExternalLinkIcon size={12}/>
+                                    </a>
+                                </div>
+                            )}
 
                             {/* 模态框模式下的成功/失败反馈 */}
                             {isModal && result && (
-                                <div className="mt-4 p-4 rounded-lg"
-                                     style={{background: '#f6ffed', border: '1px solid #b7eb8f'}}>
+                                <div
+                                    className="mt-4 p-4"
+                                    style={{
+                                        background: c.successBg,
+                                        border: `1px solid ${c.successBorder}`,
+                                        borderRadius: themeVars.radius
+                                    }}
+                                >
                                     <div className="text-center">
-                                        <span style={{fontSize: '20px'}}>✓</span>
+                                        <span style={{fontSize: '20px', color: c.success}}>✓</span>
                                         <Text style={{
                                             fontSize: '14px',
-                                            color: '#52c41a',
+                                            color: c.success,
                                             fontWeight: 600,
                                             marginLeft: '8px'
                                         }}>
-                                            Payment Successful!
+                                            {t('checkout.paymentSuccessful')}
                                         </Text>
                                     </div>
+                                    {settlement && (
+                                        <div className="mt-3">
+                                            <PaymentReceipt
+                                                settlement={settlement}
+                                                paymentDetails={paymentDetails}
+                                                locale={resolvedLocale}
+                                            />
+                                        </div>
+                                    )}
                                 </div>
                             )}
 
                             {isModal && error && (
-                                <div className="mt-4 p-4 rounded-lg"
-                                     style={{background: '#fff2f0', border: '1px solid #ffccc7'}}>
+                                <div
+                                    className="mt-4 p-4"
+                                    style={{
+                                        background: c.errorBg,
+                                        border: `1px solid ${c.errorBorder}`,
+                                        borderRadius: themeVars.radius
+                                    }}
+                                >
                                     <div className="text-center mb-3">
-                                        <span style={{fontSize: '20px'}}>✗</span>
-                                        <Text style={{
+                                        <span style={{fontSize: '20px', color: c.errorText}}>✗</span>
+                                        <Text block style={{
                                             fontSize: '14px',
-                                            color: '#ff4d4f',
+                                            color: c.errorText,
                                             fontWeight: 600,
-                                            marginLeft: '8px',
-                                            display: 'block',
                                             marginTop: '4px'
                                         }}>
-                                            Payment Failed
+                                            {t('checkout.paymentFailed')}
                                         </Text>
                                     </div>
-                                    <Text style={{
+                                    <Text block style={{
                                         fontSize: '13px',
-                                        color: '#ff4d4f',
-                                        display: 'block',
+                                        color: c.errorText,
                                         textAlign: 'center'
                                     }}>
                                         {error}
@@ -503,90 +580,81 @@ export default function V402Checkout({
                             <div className="flex items-center gap-2">
                                 {isProcessing && !result && !error ? (
                                     <>
-                                        <LoadingOutlined style={{color: '#14b8a6', fontSize: '16px'}}/>
-                                        <Text strong style={{fontSize: '16px', color: '#262626'}}>Processing
-                                            Payment</Text>
+                                        <SpinnerIcon size={16} style={{color: c.accent}}/>
+                                        <Text strong style={{fontSize: '16px'}}>
+                                            {t('checkout.processingPayment')}
+                                        </Text>
                                     </>
                                 ) : result ? (
                                     <>
-                                        <span style={{color: '#52c41a', fontSize: '18px'}}>✓</span>
-                                        <Text strong style={{fontSize: '16px', color: '#262626'}}>Payment
-                                            Successful</Text>
+                                        <span style={{color: c.success, fontSize: '18px'}}>✓</span>
+                                        <Text strong style={{fontSize: '16px'}}>
+                                            {t('checkout.paymentSuccessful')}
+                                        </Text>
                                     </>
                                 ) : (
                                     <>
-                                        <span style={{color: '#ff4d4f', fontSize: '18px'}}>✗</span>
-                                        <Text strong style={{fontSize: '16px', color: '#262626'}}>Payment Failed</Text>
+                                        <span style={{color: c.danger, fontSize: '18px'}}>✗</span>
+                                        <Text strong style={{fontSize: '16px'}}>
+                                            {t('checkout.paymentFailed')}
+                                        </Text>
                                     </>
                                 )}
                             </div>
                         }
                         extra={
                             !isProcessing && (
-                                <Button
-                                    type="text"
-                                    size="small"
-                                    onClick={() => {
-                                        setResult(null);
-                                        setError(null);
-                                    }}
-                                >
-                                    Close
+                                <Button variant="text" size="small" onClick={reset}>
+                                    {t('checkout.close')}
                                 </Button>
                             )
                         }
                         style={{
-                            border: '1px solid #e8e8e8',
-                            borderRadius: '16px',
                             boxShadow: '0 4px 24px rgba(0, 0, 0, 0.06)',
                             maxHeight: 'calc(100vh - 32px)',
                             width: '480px',
-                            animation: 'slideInRight 0.4s ease-out',
+                            animation: 'v402-slide-in-right 0.4s ease-out',
                         }}
-                        styles={{
-                            body: {
-                                padding: '24px',
-                                maxHeight: 'calc(100vh - 120px)',
-                                overflow: 'auto',
-                            }
+                        bodyStyle={{
+                            maxHeight: 'calc(100vh - 120px)',
+                            overflow: 'auto',
                         }}
                     >
                         {/* Loading State */}
                         {isProcessing && !result && !error && (
                             <div className="text-center py-10">
-                                <div className="relative inline-block">
+                                <div className="relative inline-block" style={{color: c.accent}}>
                                     <div
                                         className="absolute inset-0 rounded-full blur-xl opacity-40"
                                         style={{
-                                            background: 'linear-gradient(135deg, #14b8a6 0%, #06b6d4 100%)',
-                                            animation: 'pulse 2s ease-in-out infinite'
+                                            background: c.accent,
+                                            animation: 'v402-pulse 2s ease-in-out infinite'
                                         }}
                                     />
-                                    <Spin
-                                        indicator={<LoadingOutlined style={{fontSize: 56, color: '#14b8a6'}}/>}
-                                    />
+                                    <SpinnerIcon size={56}/>
                                 </div>
                                 <div className="mt-6">
-                                    <Text strong style={{fontSize: '18px', color: '#262626', letterSpacing: '-0.02em'}}>
-                                        Verifying Payment
+                                    <Text strong style={{fontSize: '18px', letterSpacing: '-0.02em'}}>
+                                        {t('checkout.verifyingPayment')}
                                     </Text>
                                 </div>
                                 <div className="mt-2 mb-6">
-                                    <Text style={{fontSize: '14px', color: '#8c8c8c', lineHeight: '1.6'}}>
-                                        Please wait while we confirm your transaction
+                                    <Text secondary style={{fontSize: '14px', lineHeight: '1.6'}}>
+                                        {t('checkout.verifyingHint')}
                                     </Text>
                                 </div>
                                 <div
-                                    className="mt-4 p-4 rounded-xl"
+                                    className="mt-4 p-4"
                                     style={{
-                                        background: 'linear-gradient(135deg, #f0fdfa 0%, #ecfeff 100%)',
-                                        border: '1px solid #ccfbf1'
+                                        background: c.surfaceMuted,
+                                        border: `1px solid ${c.border}`,
+                                        borderRadius: themeVars.radiusLarge
                                     }}
                                 >
                                     <div className="flex items-center justify-center gap-2">
                                         <span style={{fontSize: '16px'}}>⏱️</span>
-                                        <Text style={{fontSize: '13px', color: '#0f766e', fontWeight: 500}}>
-                                            This may take a few moments
+                                        <Text style={{fontSize: '13px', color: c.accent, fontWeight: 500}}>
+                                            {t('checkout.mayTakeMoments')}
                                         </Text>
                                     </div>
                                 </div>
@@ -600,44 +668,48 @@ export default function V402Checkout({
                                     <div
                                         className="inline-flex items-center justify-center w-16 h-16 rounded-full mb-4"
                                         style={{
-                                            background: 'linear-gradient(135deg, #10b981 0%, #34d399 100%)',
+                                            background: c.success,
                                             boxShadow: '0 4px 20px rgba(16, 185, 129, 0.3)'
                                         }}
                                     >
                                         <span style={{fontSize: '32px', color: 'white'}}>✓</span>
                                     </div>
                                     <div>
-                                        <Text strong style={{
-                                            fontSize: '20px',
-                                            color: '#262626',
-                                            display: 'block',
-                                            marginBottom: '8px'
-                                        }}>
-                                            Payment Successful!
+                                        <Text strong block style={{fontSize: '20px', marginBottom: '8px'}}>
+                                            {t('checkout.paymentSuccessful')}
                                         </Text>
-                                        <Text style={{fontSize: '14px', color: '#8c8c8c'}}>
-                                            Your transaction has been confirmed
+                                        <Text secondary style={{fontSize: '14px'}}>
+                                            {t('checkout.transactionConfirmed')}
                                         </Text>
                                     </div>
                                 </div>
-                                <Divider style={{margin: '20px 0', borderColor: '#f0f0f0'}}>
-                                    <Text style={{fontSize: '12px', color: '#8c8c8c', fontWeight: 500}}>RESPONSE
-                                        DATA</Text>
+                                {/* 链上凭证（来自 X-PAYMENT-RESPONSE） */}
+                                {settlement && (
+                                    <PaymentReceipt
+                                        settlement={settlement}
+                                        paymentDetails={paymentDetails}
+                                        locale={resolvedLocale}
+                                    />
+                                )}
+                                <Divider style={{margin: '20px 0'}}>
+                                    <Text secondary style={{fontSize: '12px', fontWeight: 500}}>
+                                        {t('checkout.responseData')}
+                                    </Text>
                                 </Divider>
                                 <pre
                                     style={{
-                                        background: '#fafafa',
+                                        background: c.surfaceMuted,
                                         padding: '20px',
-                                        borderRadius: '12px',
+                                        borderRadius: themeVars.radiusLarge,
                                         fontSize: '12px',
                                         lineHeight: '1.8',
                                         overflow: 'auto',
                                         margin: 0,
-                                        fontFamily: 'Monaco, Courier New, monospace',
+                                        fontFamily: themeVars.monoFontFamily,
                                         whiteSpace: 'pre-wrap',
                                         wordBreak: 'break-word',
-                                        border: '1px solid #e8e8e8',
-                                        color: '#262626'
+                                        border: `1px solid ${c.border}`,
+                                        color: c.text
                                     }}
                                 >
                                     {JSON.stringify(result, null, 2)}
@@ -652,41 +724,37 @@ export default function V402Checkout({
                                     <div
                                         className="inline-flex items-center justify-center w-16 h-16 rounded-full mb-4"
                                         style={{
-                                            background: 'linear-gradient(135deg, #ef4444 0%, #f87171 100%)',
+                                            background: c.danger,
                                             boxShadow: '0 4px 20px rgba(239, 68, 68, 0.3)'
                                         }}
                                     >
                                         <span style={{fontSize: '32px', color: 'white'}}>✗</span>
                                     </div>
                                     <div>
-                                        <Text strong style={{
-                                            fontSize: '20px',
-                                            color: '#262626',
-                                            display: 'block',
-                                            marginBottom: '8px'
-                                        }}>
-                                            Payment Failed
+                                        <Text strong block style={{fontSize: '20px', marginBottom: '8px'}}>
+                                            {t('checkout.paymentFailed')}
                                         </Text>
-                                        <Text style={{fontSize: '14px', color: '#8c8c8c'}}>
-                                            Something went wrong with your transaction
+                                        <Text secondary style={{fontSize: '14px'}}>
+                                            {t('checkout.somethingWentWrong')}
                                         </Text>
                                     </div>
                                 </div>
-                                <Divider style={{margin: '20px 0', borderColor: '#f0f0f0'}}>
-                                    <Text style={{fontSize: '12px', color: '#8c8c8c', fontWeight: 500}}>ERROR
-                                        DETAILS</Text>
+                                <Divider style={{margin: '20px 0'}}>
+                                    <Text secondary style={{fontSize: '12px', fontWeight: 500}}>
+                                        {t('checkout.errorDetails')}
+                                    </Text>
                                 </Divider>
                                 <div
                                     style={{
-                                        background: '#fef2f2',
+                                        background: c.errorBg,
                                         padding: '20px',
-                                        borderRadius: '12px',
-                                        border: '1px solid #fee2e2',
+                                        borderRadius: themeVars.radiusLarge,
+                                        border: `1px solid ${c.errorBorder}`,
                                     }}
                                 >
                                     <Text style={{
                                         fontSize: '14px',
-                                        color: '#dc2626',
+                                        color: c.errorText,
                                         lineHeight: '1.6',
                                         fontWeight: 500
                                     }}>
@@ -695,21 +763,12 @@ export default function V402Checkout({
                                 </div>
                                 <div className="mt-4 text-center">
                                     <Button
+                                        variant="primary"
                                         size="large"
                                         onClick={handlePayment}
-                                        style={{
-                                            height: '44px',
-                                            fontSize: '14px',
-                                            fontWeight: 600,
-                                            borderRadius: '8px',
-                                            background: '#1a1a1a',
-                                            borderColor: '#1a1a1a',
-                                            color: 'white',
-                                            paddingLeft: '32px',
-                                            paddingRight: '32px',
-                                        }}
+                                        style={{paddingLeft: '32px', paddingRight: '32px'}}
                                     >
-                                        Try Again
+                                        {t('checkout.tryAgain')}
                                     </Button>
                                 </div>
                             </div>
@@ -718,32 +777,7 @@ export default function V402Checkout({
                 )}
             </div>
 
-            <style dangerouslySetInnerHTML={{
-                __html: `
-                    @keyframes slideInRight {
-                        from {
-                            opacity: 0;
-                            transform: translateX(100px);
-                        }
-                        to {
-                            opacity: 1;
-                            transform: translateX(0);
-                        }
-                    }
-                    
-                    @keyframes pulse {
-                        0%, 100% {
-                            transform: scale(1);
-                            opacity: 0.4;
-                        }
-                        50% {
-                            transform: scale(1.1);
-                            opacity: 0.6;
-                        }
-                    }
-                `
-            }}/>
-        </div>
+            <ToastViewport toasts={toasts}/>
+        </ThemeRoot>
     );
 }
-
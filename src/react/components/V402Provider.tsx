@@ -0,0 +1,74 @@
+/**
+ * V402Provider Component
+ *
+ * Optional provider for sharing a v402pay client across components
+ */
+
+'use client';
+
+import React, {useEffect, useMemo} from 'react';
+import {createV402Client} from '../../client';
+import type {V402Client, V402ClientConfig} from '../../types';
+import {V402ClientContext} from '../hooks/useV402Client';
+import {V402ThemeContext} from '../styles/theme';
+import type {V402Theme} from '../styles/theme';
+import {walletStore} from '../store/walletStore';
+import {errorFields} from '../../utils';
+
+export interface V402ProviderProps {
+  client?: V402Client; // Pre-built client (takes precedence over config)
+  config?: V402ClientConfig; // Used to create a client when none is passed (keep fetch / logger / hooks stable)
+  autoReconnect?: boolean; // Silently restore the last connected wallet on load (default false)
+  theme?: V402Theme; // Default theme of V402Checkout / WalletConnect
+  children?: React.ReactNode;
+}
+
+/**
+ * Provide a v402pay client to hooks and components
+ *
+ * Not required - without a provider the production backend is used.
+ * With `autoReconnect`, returning users see their wallet address on load without a popup,
+ * unless they disconnected manually. `theme` styles every SDK component below the provider.
+ *
+ * @example
+ * ```tsx
+ * <V402Provider config={{baseUrl: 'https://staging.example.com/api/pay'}}>
+ *   <V402Checkout checkoutId="your-checkout-id"/>
+ * </V402Provider>
+ * ```
+ */
+export function V402Provider({client, config, autoReconnect = false, theme, children}: V402ProviderProps) {
+  const value = useMemo(
+      () => client || createV402Client(config),
+      // config is usually an inline literal, so compare field by field (functions by identity)
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+      [
+        client,
+        config?.baseUrl,
+        config?.merchantId,
+        config?.fetch,
+        config?.logger,
+        config?.locale,
+        config?.checkBalance,
+        config?.hooks,
+        JSON.stringify(config?.rpcUrls),
+      ]
+  );
+
+  useEffect(() => {
+    if (!autoReconnect) return;
+    walletStore.reconnect().catch(err => {
+      value.logger.warn('Failed to reconnect wallet', errorFields(err));
+    });
+    // Only on mount / when turned on
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoReconnect]);
+
+  return (
+      <V402ClientContext.Provider value={value}>
+        <V402ThemeContext.Provider value={theme}>
+          {children}
+        </V402ThemeContext.Provider>
+      </V402ClientContext.Provider>
+  );
+}
@@ -1,15 +1,21 @@
 /**
  * WalletConnect Component
  *
- * Pre-built wallet connection UI component with inline styles
+ * Pre-built wallet connection UI component with inline styles (themed through CSS variables)
  */
 
 'use client';
 
 import React, {useState} from 'react';
 import {NetworkType} from '../../types';
-import {formatAddress, getNetworkDisplayName, getWalletInstallUrl, isWalletInstalled,} from '../../utils';
+import type {TokenInfo} from '../../types';
+import {formatAddress, getNetworkDisplayName} from '../../utils';
+import {getConnectors, getWalletInstallUrl, isWalletInstalled} from '../../services/connectors';
 import {useWallet} from '../hooks/useWalletStore';
+import {useI18n} from '../hooks/useI18n';
+import {TokenIcon} from '../utils/CryptoIcons';
+import type {V402Theme} from '../styles/theme';
+import {ThemeRoot} from './primitives';
 import {
     buttonsContainerStyle,
     containerStyle,
@@ -22,14 +28,27 @@ import {
     getLabelStyle,
     getSectionStyle,
     getTitleStyle,
+    getTokenHintStyle,
     walletActionsStyle,
     walletAddressStyle,
+    walletIconStyle,
     walletOptionStyle,
 } from '../styles/inline-styles';
 
+interface WalletOption {
+  key: string;
+  network: NetworkType;
+  installed: boolean;
+  installUrl: string;
+  wallet?: { id: string; name: string; icon?: string }; // Specific connector or discovered wallet
+}
+
 export interface WalletConnectProps {
   supportedNetworks?: NetworkType[];
+  token?: TokenInfo | null; // Token the payment will be made in, shown above the wallet buttons
   className?: string;
+  locale?: string; // Label language (defaults to the client / SDK locale)
+  theme?: V402Theme; // Colors, radius, fonts and color scheme (defaults to V402Provider's theme)
   onConnect?: (address: string, networkType: NetworkType) => void;
   onDisconnect?: () => void;
 }
@@ -53,17 +72,43 @@ export interface WalletConnectProps {
  */
 export function WalletConnect({
                                 supportedNetworks = [NetworkType.SOLANA, NetworkType.EVM],
+                                token,
                                 className = '',
+                                locale,
+                                theme,
                                 onConnect,
                                 onDisconnect,
                               }: WalletConnectProps) {
   const {address, networkType, isConnecting, error, connect, disconnect} = useWallet();
+  const {t} = useI18n(locale);
   const [hoveredButton, setHoveredButton] = useState<string | null>(null);
   const [hoveredLink, setHoveredLink] = useState<string | null>(null);
 
-  const handleConnect = async (network: NetworkType) => {
+  // With several connectors or discovered wallets for a network, offer each one instead of a single network button
+  // (useWallet re-renders this when wallets are discovered)
+  const options: WalletOption[] = supportedNetworks.flatMap((network): WalletOption[] => {
+    const installUrl = getWalletInstallUrl(network);
+    const choices = getConnectors(network).flatMap((connector): WalletOption[] => {
+      const wallets = connector.wallets?.() || [];
+      const optionInstallUrl = connector.installUrl || installUrl;
+      return wallets.length > 1
+          ? wallets.map(wallet => ({key: `${network}:${wallet.id}`, network, installed: true, installUrl: optionInstallUrl, wallet}))
+          : [{
+            key: `${network}:${connector.id}`,
+            network,
+            installed: connector.isInstalled(),
+            installUrl: optionInstallUrl,
+            wallet: {id: connector.id, name: connector.name, icon: connector.icon},
+          }];
+    });
+    return choices.length > 1
+        ? choices
+        : [{key: network, network, installed: isWalletInstalled(network), installUrl}];
+  });
+
+  const handleConnect = async (network: NetworkType, walletId?: string) => {
     try {
-      await connect(network);
+      await connect(network, walletId);
       // Note: address state won't be updated yet due to async setState
       // The parent component will re-render when address updates
     } catch (err) {
@@ -77,38 +122,49 @@ export function WalletConnect({
   };
 
   return (
-      <div style={{ ...containerStyle, ...(className ? {} : {}) }} className={className}>
+      <ThemeRoot theme={theme} style={containerStyle} className={className}>
         {!address ? (
             <div style={getSectionStyle()}>
-              <h3 style={getTitleStyle()}>Connect Wallet</h3>
+              <h3 style={getTitleStyle()}>{t('wallet.connectTitle')}</h3>
+
+              {token && (
+                  <p style={getTokenHintStyle()}>
+                    <TokenIcon symbol={token.symbol} logoURI={token.logoURI}/>
+                    {t('wallet.payWith', {token: token.symbol || token.name})}
+                  </p>
+              )}
 
               {supportedNetworks.length === 0 ? (
-                  <p style={getHintStyle()}>Please install a supported wallet extension</p>
+                  <p style={getHintStyle()}>{t('wallet.noSupportedWallet')}</p>
               ) : (
                   <div style={buttonsContainerStyle}>
-                    {supportedNetworks.map((network) => {
-                      const installed = isWalletInstalled(network);
+                    {options.map(({key, network, installed, installUrl, wallet}) => {
                       return (
-                          <div key={network} style={walletOptionStyle}>
+                          <div key={key} style={walletOptionStyle}>
                             <button
-                                style={getConnectButtonStyle(isConnecting || !installed, hoveredButton === network)}
-                                onClick={() => handleConnect(network)}
+                                style={getConnectButtonStyle(isConnecting || !installed, hoveredButton === key)}
+                                onClick={() => handleConnect(network, wallet?.id)}
                                 disabled={isConnecting || !installed}
-                                onMouseEnter={() => setHoveredButton(network)}
+                                onMouseEnter={() => setHoveredButton(key)}
                                 onMouseLeave={() => setHoveredButton(null)}
                             >
-                              {isConnecting ? 'Connecting...' : getNetworkDisplayName(network)}
+                              {isConnecting ? t('wallet.connecting') : wallet ? (
+                                  <>
+                                    {wallet.icon && <img src={wallet.icon} alt="" style={walletIconStyle}/>}
+                                    {wallet.name}
+                                  </>
+                              ) : getNetworkDisplayName(network)}
                             </button>
                             {!installed && (
                                 <a
-                                    href={getWalletInstallUrl(network)}
+                                    href={installUrl}
                                     target="_blank"
                                     rel="noopener noreferrer"
-                                    style={getInstallLinkStyle(hoveredLink === network)}
-                                    onMouseEnter={() => setHoveredLink(network)}
+                                    style={getInstallLinkStyle(hoveredLink === key)}
+                                    onMouseEnter={() => setHoveredLink(key)}
                                     onMouseLeave={() => setHoveredLink(null)}
                                 >
-                                  Install Wallet
+                                  {t('wallet.install')}
                                 </a>
                             )}
                           </div>
@@ -120,14 +176,14 @@ export function WalletConnect({
               {error && <p style={getErrorStyle()}>{error}</p>}
 
               <p style={getHintStyle()}>
-                To switch accounts, please change it in your wallet extension
+                {t('wallet.switchAccountHint')}
               </p>
             </div>
         ) : (
             <div style={getSectionStyle()}>
               <div style={walletAddressStyle}>
             <span style={getLabelStyle()}>
-              Connected {networkType && `(${getNetworkDisplayName(networkType)})`}
+              {networkType ? t('wallet.connectedOn', {network: getNetworkDisplayName(networkType)}) : t('wallet.connected')}
             </span>
                 <span style={getAddressStyle()}>{formatAddress(address)}</span>
               </div>
@@ -138,15 +194,15 @@ export function WalletConnect({
                     onMouseEnter={() => setHoveredButton('disconnect')}
                     onMouseLeave={() => setHoveredButton(null)}
                 >
-                  Disconnect
+                  {t('wallet.disconnect')}
                 </button>
               </div>
               <p style={getHintStyle()}>
-                Switch account in your wallet to change address
+                {t('wallet.changeAddressHint')}
               </p>
             </div>
         )}
-      </div>
+      </ThemeRoot>
   );
 }
 
@@ -0,0 +1,402 @@
+/**
+ * UI primitives
+ *
+ * Small building blocks for the SDK components (card, button, text, tooltip, toast),
+ * styled with the theme's CSS variables so they follow light / dark mode and custom tokens
+ */
+
+'use client';
+
+import React, {useCallback, useEffect, useRef, useState} from 'react';
+import type {CSSProperties, ReactNode} from 'react';
+import {getThemeVariables, themeVars, useResolvedColorScheme, useV402Theme} from '../styles/theme';
+import type {V402Theme} from '../styles/theme';
+import {SpinnerIcon} from '../utils/UiIcons';
+
+const c = themeVars.colors;
+
+// 组件用到的动画，随 ThemeRoot 注入
+const KEYFRAMES = `
+    @keyframes v402-spin {
+        to { transform: rotate(360deg); }
+    }
+    @keyframes v402-slide-in-right {
+        from { opacity: 0; transform: translateX(100px); }
+        to { opacity: 1; transform: translateX(0); }
+    }
+    @keyframes v402-pulse {
+        0%, 100% { transform: scale(1); opacity: 0.4; }
+        50% { transform: scale(1.1); opacity: 0.6; }
+    }
+    @keyframes v402-fade-in {
+        from { opacity: 0; transform: translateY(-8px); }
+        to { opacity: 1; transform: translateY(0); }
+    }
+`;
+
+export interface ThemeRootProps {
+    theme?: V402Theme; // Defaults to V402Provider's theme
+    className?: string;
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+/**
+ * Root element that sets the theme's CSS variables for everything inside it
+ */
+export function ThemeRoot({theme, className, style, children}: ThemeRootProps) {
+    const resolvedTheme = useV402Theme(theme);
+    const scheme = useResolvedColorScheme(resolvedTheme.colorScheme);
+
+    return (
+        <div
+            className={className}
+            style={{
+                ...getThemeVariables(resolvedTheme, scheme),
+                fontFamily: themeVars.fontFamily,
+                color: c.text,
+                ...style,
+            }}
+        >
+            <style dangerouslySetInnerHTML={{__html: KEYFRAMES}}/>
+            {children}
+        </div>
+    );
+}
+
+export interface CardProps {
+    title?: ReactNode;
+    extra?: ReactNode; // Right side of the title bar
+    className?: string;
+    style?: CSSProperties;
+    bodyStyle?: CSSProperties;
+    children?: ReactNode;
+}
+
+export function Card({title, extra, className, style, bodyStyle, children}: CardProps) {
+    return (
+        <div
+            className={className}
+            style={{
+                background: c.surface,
+                border: `1px solid ${c.border}`,
+                borderRadius: themeVars.radiusLarge,
+                boxSizing: 'border-box',
+                ...style,
+            }}
+        >
+            {(title || extra) && (
+                <div
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'space-between',
+                        gap: '12px',
+                        padding: '16px 24px',
+                        borderBottom: `1px solid ${c.border}`,
+                    }}
+                >
+                    <div style={{minWidth: 0}}>{title}</div>
+                    {extra}
+                </div>
+            )}
+            <div style={{padding: '24px', ...bodyStyle}}>{children}</div>
+        </div>
+    );
+}
+
+type ButtonVariant = 'primary' | 'default' | 'text';
+
+export interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
+    variant?: ButtonVariant;
+    size?: 'small' | 'large';
+    block?: boolean; // Full width
+    loading?: boolean; // Shows a spinner and disables the button
+    icon?: ReactNode;
+}
+
+function getButtonColors(variant: ButtonVariant, isDisabled: boolean, isHovered: boolean): CSSProperties {
+    if (isDisabled && variant !== 'text') {
+        return {background: c.disabled, color: c.disabledText, borderColor: c.disabled};
+    }
+    switch (variant) {
+        case 'primary':
+            return {
+                background: isHovered ? c.primaryHover : c.primary,
+                color: c.primaryText,
+                borderColor: 'transparent',
+            };
+        case 'default':
+            return {
+                background: isHovered ? c.surfaceMuted : c.surface,
+                color: c.text,
+                borderColor: c.border,
+            };
+        case 'text':
+            return {
+                background: isHovered && !isDisabled ? c.surfaceMuted : 'transparent',
+                color: isDisabled ? c.disabledText : c.text,
+                borderColor: 'transparent',
+            };
+    }
+}
+
+export function Button({
+                           variant = 'default',
+                           size,
+                           block,
+                           loading,
+                           icon,
+                           disabled,
+                           style,
+                           children,
+                           ...props
+                       }: ButtonProps) {
+    const [isHovered, setIsHovered] = useState(false);
+    const isDisabled = !!(disabled || loading);
+    const height = size === 'large' ? '44px' : size === 'small' ? '28px' : '36px';
+
+    return (
+        <button
+            type="button"
+            {...props}
+            disabled={isDisabled}
+            onMouseEnter={(event) => {
+                setIsHovered(true);
+                props.onMouseEnter?.(event);
+            }}
+            onMouseLeave={(event) => {
+                setIsHovered(false);
+                props.onMouseLeave?.(event);
+            }}
+            style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                gap: '8px',
+                width: block ? '100%' : undefined,
+                height,
+                padding: children ? (size === 'small' ? '0 8px' : '0 16px') : '0',
+                minWidth: children ? undefined : height,
+                fontFamily: 'inherit',
+                fontSize: size === 'small' ? '13px' : '14px',
+                fontWeight: 600,
+                border: '1px solid',
+                borderRadius: themeVars.radius,
+                cursor: isDisabled ? 'not-allowed' : 'pointer',
+                transition: 'background-color 0.15s ease, color 0.15s ease',
+                outline: 'none',
+                ...getButtonColors(variant, isDisabled, isHovered),
+                ...style,
+            }}
+        >
+            {loading ? <SpinnerIcon size={14}/> : icon}
+            {children}
+        </button>
+    );
+}
+
+export interface TextProps {
+    secondary?: boolean; // Muted color
+    strong?: boolean;
+    block?: boolean; // display: block
+    mono?: boolean; // Monospace font, for addresses and hashes
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+export function Text({secondary, strong, block, mono, style, children}: TextProps) {
+    return (
+        <span
+            style={{
+                display: block ? 'block' : undefined,
+                color: secondary ? c.textSecondary : c.text,
+                fontWeight: strong ? 600 : undefined,
+                fontFamily: mono ? themeVars.monoFontFamily : undefined,
+                ...style,
+            }}
+        >
+            {children}
+        </span>
+    );
+}
+
+export interface TitleProps {
+    level?: 3 | 4;
+    style?: CSSProperties;
+    children?: ReactNode;
+}
+
+export function Title({level = 4, style, children}: TitleProps) {
+    const Heading = level === 3 ? 'h3' : 'h4';
+    return (
+        <Heading
+            style={{
+                margin: 0,
+                fontSize: level === 3 ? '20px' : '18px',
+                fontWeight: 600,
+                lineHeight: 1.4,
+                color: c.text,
+                ...style,
+            }}
+        >
+            {children}
+        </Heading>
+    );
+}
+
+export interface DividerProps {
+    style?: CSSProperties;
+    children?: ReactNode; // Centered label
+}
+
+export function Divider({style, children}: DividerProps) {
+    const line = <div style={{flex: 1, height: '1px', background: c.border}}/>;
+    if (!children) {
+        return <div style={{height: '1px', background: c.border, margin: '16px 0', ...style}}/>;
+    }
+    return (
+        <div style={{display: 'flex', alignItems: 'center', gap: '12px', margin: '16px 0', ...style}}>
+            {line}
+            {children}
+            {line}
+        </div>
+    );
+}
+
+export interface TooltipProps {
+    title: ReactNode;
+    children: ReactNode;
+}
+
+/**
+ * Shows `title` above the children on hover / focus
+ */
+export function Tooltip({title, children}: TooltipProps) {
+    const [open, setOpen] = useState(false);
+
+    return (
+        <span
+            style={{position: 'relative', display: 'inline-flex'}}
+            onMouseEnter={() => setOpen(true)}
+            onMouseLeave={() => setOpen(false)}
+            onFocus={() => setOpen(true)}
+            onBlur={() => setOpen(false)}
+        >
+            {children}
+            {open && title && (
+                <span
+                    role="tooltip"
+                    style={{
+                        position: 'absolute',
+                        bottom: 'calc(100% + 8px)',
+                        left: '50%',
+                        transform: 'translateX(-50%)',
+                        zIndex: 10,
+                        width: 'max-content',
+                        maxWidth: '240px',
+                        padding: '6px 10px',
+                        borderRadius: themeVars.radius,
+                        background: c.primary,
+                        color: c.primaryText,
+                        fontSize: '12px',
+                        lineHeight: 1.5,
+                        pointerEvents: 'none',
+                    }}
+                >
+                    {title}
+                </span>
+            )}
+        </span>
+    );
+}
+
+export type ToastType = 'success' | 'error' | 'info';
+
+export interface Toast {
+    id: number;
+    type: ToastType;
+    content: ReactNode;
+}
+
+const TOAST_DURATION_MS = 3000;
+
+/**
+ * Toast queue for a component; render the toasts with <ToastViewport/>
+ */
+export function useToasts() {
+    const [toasts, setToasts] = useState<Toast[]>([]);
+    const nextId = useRef(0);
+    const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+    // 卸载时清理定时器
+    useEffect(() => {
+        const pending = timers.current;
+        return () => pending.forEach(timer => clearTimeout(timer));
+    }, []);
+
+    const show = useCallback((type: ToastType, content: ReactNode) => {
+        const id = nextId.current++;
+        setToasts(current => [...current, {id, type, content}]);
+
+        const timer = setTimeout(() => {
+            timers.current.delete(timer);
+            setToasts(current => current.filter(toast => toast.id !== id));
+        }, TOAST_DURATION_MS);
+        timers.current.add(timer);
+    }, []);
+
+    return {toasts, show};
+}
+
+const TOAST_ACCENTS: Record<ToastType, string> = {
+    success: c.success,
+    error: c.danger,
+    info: c.textSecondary,
+};
+
+export function ToastViewport({toasts}: { toasts: Toast[] }) {
+    if (toasts.length === 0) {
+        return null;
+    }
+    return (
+        <div
+            aria-live="polite"
+            style={{
+                position: 'fixed',
+                top: '16px',
+                left: '50%',
+                transform: 'translateX(-50%)',
+                zIndex: 1000,
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                gap: '8px',
+                pointerEvents: 'none',
+            }}
+        >
+            {toasts.map(toast => (
+                <div
+                    key={toast.id}
+                    role={toast.type === 'error' ? 'alert' : 'status'}
+                    style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        padding: '10px 16px',
+                        borderRadius: themeVars.radius,
+                        background: c.surface,
+                        border: `1px solid ${c.border}`,
+                        boxShadow: '0 6px 16px rgba(0, 0, 0, 0.08)',
+                        fontSize: '14px',
+                        color: c.text,
+                        animation: 'v402-fade-in 0.2s ease-out',
+                    }}
+                >
+                    <span style={{width: '8px', height: '8px', borderRadius: '50%', background: TOAST_ACCENTS[toast.type]}}/>
+                    {toast.content}
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,42 @@
+/**
+ * useI18n Hook
+ *
+ * Resolves the locale (prop, then client, then SDK default) and a bound translate function
+ */
+
+import {useCallback} from 'react';
+import type {V402Client} from '../../types';
+import {getLocale, translate} from '../../utils';
+import type {MessageKey, MessageParams} from '../../utils';
+import {useV402Client} from './useV402Client';
+
+export interface UseI18nReturn {
+    locale: string;
+    t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+/**
+ * Translate component labels
+ *
+ * @param locale - Optional explicit locale (takes precedence over the client's `locale`)
+ * @param client - Optional explicit client
+ *
+ * @example
+ * ```tsx
+ * function PayButton({locale}: {locale?: string}) {
+ *   const {t} = useI18n(locale);
+ *   return <button>{t('checkout.pay', {amount: '$1.00'})}</button>;
+ * }
+ * ```
+ */
+export function useI18n(locale?: string, client?: V402Client): UseI18nReturn {
+    const v402Client = useV402Client(client);
+    const resolvedLocale = locale || v402Client.locale || getLocale();
+
+    const t = useCallback(
+        (key: MessageKey, params?: MessageParams) => translate(key, params, resolvedLocale),
+        [resolvedLocale]
+    );
+
+    return {locale: resolvedLocale, t};
+}
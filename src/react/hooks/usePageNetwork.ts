@@ -7,6 +7,7 @@
 
 import {useEffect} from 'react';
 import {NetworkType} from '../../types';
+import {errorFields, getLogger} from '../../utils';
 import {useWallet} from './useWalletStore';
 
 export interface UsePageNetworkOptions {
@@ -56,7 +57,7 @@ export function usePageNetwork(
     
     // ensureNetwork 内部会检查是否手动断开，如果是则不会重连
     wallet.ensureNetwork(expectedNetwork).catch(err => {
-      console.error('Failed to ensure network:', err);
+      getLogger().error('Failed to ensure network', errorFields(err, {network: expectedNetwork}));
     });
     // 只在 expectedNetwork 改变时执行，避免无限循环
     // eslint-disable-next-line react-hooks/exhaustive-deps
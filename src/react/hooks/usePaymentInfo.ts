@@ -4,11 +4,13 @@
  * React hook for fetching payment information from endpoint
  */
 
-import {useEffect, useState} from 'react';
+import {useEffect, useMemo, useState} from 'react';
 import type {PaymentRequirements} from 'x402/types';
 import {NetworkType} from '../../types';
-import {getSupportedNetworkTypes, parsePaymentRequired} from '../../utils';
-import {PROD_BACK_URL} from "../../types/common";
+import type {V402Client} from '../../types';
+import {getSupportedNetworkTypes, translate} from '../../utils';
+import {createV402Client} from '../../client';
+import {useV402Client} from './useV402Client';
 
 export interface UsePaymentInfoReturn {
     // State
@@ -24,9 +26,10 @@ export interface UsePaymentInfoReturn {
 /**
  * Hook for fetching payment information
  *
- * @param endpoint - API endpoint to fetch payment info from
  * @param merchantId - @see our website to apply
+ * @param endpoint - Optional API base URL (defaults to the client's baseUrl)
  * @param additionalParams - Optional additional parameters to send with the request (default: {})
+ * @param client - Optional v402pay client (defaults to V402Provider's client)
  *
  * @example
  * ```tsx
@@ -58,9 +61,26 @@ export interface UsePaymentInfoReturn {
  */
 export function usePaymentInfo(
     merchantId: string,
-    endpoint: string = PROD_BACK_URL,
-    additionalParams?: Record<string, any>
+    endpoint?: string,
+    additionalParams?: Record<string, any>,
+    client?: V402Client
 ): UsePaymentInfoReturn {
+    const contextClient = useV402Client(client);
+
+    // An explicit endpoint overrides the client's baseUrl but keeps its other settings
+    const activeClient = useMemo(
+        () => endpoint
+            ? createV402Client({
+                baseUrl: endpoint,
+                fetch: contextClient.fetch,
+                logger: contextClient.logger,
+                locale: contextClient.locale,
+                rpcUrls: contextClient.rpcUrls,
+            })
+            : contextClient,
+        [endpoint, contextClient]
+    );
+
     const [paymentInfo, setPaymentInfo] = useState<PaymentRequirements[] | null>(null);
     const [supportedNetworks, setSupportedNetworks] = useState<NetworkType[]>([]);
     const [isLoading, setIsLoading] = useState(true);
@@ -71,41 +91,20 @@ export function usePaymentInfo(
         setError(null);
 
         try {
-            // 使用新变量而不是修改参数
-            const fullEndpoint = `${endpoint}/${merchantId}`;
-
-            // 准备请求配置
-            const requestInit: RequestInit = {
-                method: 'POST',
-                ...(additionalParams && Object.keys(additionalParams).length > 0
-                    ? {
-                        body: JSON.stringify(additionalParams),
-                        headers: {
-                            'Content-Type': 'application/json',
-                        },
-                    }
-                    : {}),
-            };
-
-            const response = await fetch(fullEndpoint, requestInit);
-
-            if (response.status === 402) {
-                const body = await response.json();
-                const payment = parsePaymentRequired(body);
+            const payment = await activeClient.fetchPaymentRequirements({merchantId, additionalParams});
 
-                if (payment) {
-                    setPaymentInfo(payment);
+            if (payment) {
+                setPaymentInfo(payment);
 
-                    const networks = getSupportedNetworkTypes(payment);
-                    setSupportedNetworks(networks);
-                }
+                const networks = getSupportedNetworkTypes(payment);
+                setSupportedNetworks(networks);
             } else {
                 // No payment required
                 setPaymentInfo(null);
                 setSupportedNetworks([]);
             }
         } catch (err: any) {
-            setError(err.message || 'Failed to fetch payment info');
+            setError(err.message || translate('checkout.fetchFailed', undefined, activeClient.locale));
         } finally {
             setIsLoading(false);
         }
@@ -115,7 +114,7 @@ export function usePaymentInfo(
         fetchPaymentInfo();
         // Note: additionalParams is not in dependencies to avoid unnecessary re-fetches
         // If you need dynamic additionalParams, wrap it with useMemo or use refetch() manually
-    }, [endpoint, merchantId]);
+    }, [activeClient, merchantId]);
 
     return {
         paymentInfo,
@@ -0,0 +1,74 @@
+/**
+ * useTokenMetadata Hook
+ *
+ * React hook for resolving the token (symbol, decimals, icon) of a payment requirement
+ */
+
+import {useEffect, useRef, useState} from 'react';
+import type {PaymentRequirements} from 'x402/types';
+import type {TokenMetadata, V402Client} from '../../types';
+import {useV402Client} from './useV402Client';
+
+export interface UseTokenMetadataReturn {
+    token: TokenMetadata | null;
+    isLoading: boolean;
+}
+
+/**
+ * Hook for resolving token metadata
+ *
+ * @param requirements - Payment requirement whose asset to resolve (null while loading)
+ * @param client - Optional v402pay client (defaults to V402Provider's client)
+ *
+ * @example
+ * ```tsx
+ * function Price({requirements}: {requirements: PaymentRequirements}) {
+ *   const {token} = useTokenMetadata(requirements);
+ *   if (!token) return null;
+ *   return <span>{formatAmount(requirements.maxAmountRequired, token.decimals)} {token.symbol}</span>;
+ * }
+ * ```
+ */
+export function useTokenMetadata(
+    requirements: Pick<PaymentRequirements, 'network' | 'asset' | 'extra'> | null | undefined,
+    client?: V402Client
+): UseTokenMetadataReturn {
+    const v402Client = useV402Client(client);
+    // Resolved token, tagged with the requirement it belongs to
+    const [resolved, setResolved] = useState<{ key: string; token: TokenMetadata | null } | null>(null);
+
+    const network = requirements?.network;
+    const asset = requirements?.asset;
+    const key = network && asset ? `${network}:${asset}` : null;
+    // requirements is often a new object per render; only its network + asset pick the token
+    const latestRequirements = useRef(requirements);
+    latestRequirements.current = requirements;
+
+    useEffect(() => {
+        const current = latestRequirements.current;
+        if (!current || !key) {
+            setResolved(null);
+            return;
+        }
+
+        let cancelled = false;
+        v402Client.getTokenMetadata(current)
+            .then(token => {
+                if (!cancelled) setResolved({key, token});
+            })
+            .catch(() => {
+                if (!cancelled) setResolved({key, token: null});
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [v402Client, key]);
+
+    // 切换支付要求后的第一次渲染就视为加载中，避免用上一个代币的精度 / 符号格式化新金额
+    const isCurrent = !!key && resolved?.key === key;
+    const token = isCurrent ? resolved!.token : null;
+    const isLoading = !!key && !isCurrent;
+
+    return {token, isLoading};
+}
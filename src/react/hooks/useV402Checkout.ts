@@ -0,0 +1,256 @@
+/**
+ * useV402Checkout Hook
+ *
+ * Headless checkout: the state and actions behind V402Checkout, for building your own UI
+ */
+
+import {useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore} from 'react';
+import type {PaymentRequirements, SettleResponse} from 'x402/types';
+import {NetworkType} from '../../types';
+import type {CheckoutState, CheckoutStatus, PaymentLifecycleHooks, TokenMetadata, V402Client} from '../../types';
+import {createCheckoutMachine} from '../../client';
+import {
+    errorFields,
+    formatAddress,
+    formatAmount,
+    getChain,
+    getSupportedNetworkTypes,
+    PaymentErrorCode,
+    PaymentOperationError,
+} from '../../utils';
+import {useV402Client} from './useV402Client';
+import {useWallet} from './useWalletStore';
+import {useTokenMetadata} from './useTokenMetadata';
+import {useI18n} from './useI18n';
+
+export interface UseV402CheckoutOptions {
+    client?: V402Client; // Defaults to V402Provider's client
+    additionalParams?: Record<string, any>; // Forwarded to the checkout callback
+    expectedNetwork?: NetworkType; // Network type to connect (defaults to the requirement's)
+    timeoutMs?: number; // Cancels the payment after this many ms
+    locale?: string; // Locale of error messages (defaults to the client / SDK locale)
+    hooks?: PaymentLifecycleHooks; // Lifecycle hooks for the payment
+    onPaymentComplete?: (result: any) => void; // Called with the parsed response body
+}
+
+export interface CheckoutPaymentDetails {
+    amount: string; // Human-readable amount
+    currency: string; // Token symbol, or the shortened asset address when unknown
+    network: string; // x402 network name
+    logoURI?: string;
+}
+
+/**
+ * Display values of a requirement: formatted amount and token symbol
+ *
+ * Without token metadata the raw atomic amount and the shortened asset address are shown.
+ */
+export function getPaymentDetails(
+    requirements: PaymentRequirements,
+    token: TokenMetadata | null
+): CheckoutPaymentDetails {
+    const rawAmount = requirements.maxAmountRequired?.toString() || '0';
+    return {
+        amount: token
+            ? formatAmount(rawAmount, token.decimals, {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: Math.max(2, Math.min(token.decimals, 6)),
+                useGrouping: false,
+            })
+            : rawAmount,
+        currency: token?.symbol || formatAddress(requirements.asset),
+        network: requirements.network || 'Unknown',
+        logoURI: token?.logoURI,
+    };
+}
+
+export interface UseV402CheckoutReturn {
+    // State
+    status: CheckoutStatus;
+    requirements: PaymentRequirements[] | null; // Every accepts entry the user can pick from
+    selected: PaymentRequirements | null; // Entry that is shown and paid
+    supportedNetworks: NetworkType[];
+    paymentDetails: CheckoutPaymentDetails | null; // null until the token is resolved
+    token: TokenMetadata | null;
+    address: string | null;
+    networkType: NetworkType | null;
+    chainId: number | null;
+    requiredChainId: number | null; // EVM chain the requirement is on
+    isSwitchingChain: boolean;
+    result: any;
+    settlement: SettleResponse | null;
+    error: string | null; // Localized message
+    paymentError: PaymentOperationError | null;
+
+    // Actions
+    select: (requirements: PaymentRequirements) => void;
+    pay: () => Promise<CheckoutState>;
+    switchChain: () => Promise<void>;
+    disconnect: () => void;
+    reset: () => void;
+    reload: () => Promise<void>;
+}
+
+/**
+ * Hook for a v402pay checkout
+ *
+ * Loads the checkout, connects the wallet for the selected accepts entry's network
+ * once the accepts list has loaded, and drives the checkout state machine (see createCheckoutMachine).
+ *
+ * @param checkoutId - Checkout (merchant) id
+ * @param options - Client, payment and callback options
+ *
+ * @example
+ * ```tsx
+ * function MyCheckout() {
+ *   const {status, paymentDetails, error, pay, switchChain} = useV402Checkout('your-checkout-id');
+ *
+ *   if (status === 'loadingRequirements') return <p>Loading...</p>;
+ *   if (status === 'awaitingWallet') return <WalletConnect/>;
+ *   if (status === 'wrongNetwork') return <button onClick={switchChain}>Switch network</button>;
+ *   if (status === 'success') return <p>Paid!</p>;
+ *
+ *   return (
+ *     <>
+ *       <button onClick={pay} disabled={status !== 'readyToPay' && status !== 'failed'}>
+ *         Pay {paymentDetails?.amount} {paymentDetails?.currency}
+ *       </button>
+ *       {error && <p>{error}</p>}
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useV402Checkout(checkoutId: string, options: UseV402CheckoutOptions = {}): UseV402CheckoutReturn {
+    const {additionalParams, expectedNetwork, timeoutMs, hooks, onPaymentComplete} = options;
+    const client = useV402Client(options.client);
+    const {locale, t} = useI18n(options.locale, client);
+
+    // additionalParams / hooks are usually inline literals: the machine reads the latest values
+    // through getters, so only the client and id recreate it
+    const latest = useRef({additionalParams, timeoutMs, hooks});
+    latest.current = {additionalParams, timeoutMs, hooks};
+    const initialNetwork = useRef(expectedNetwork);
+
+    const machine = useMemo(
+        () => createCheckoutMachine({
+            client,
+            checkoutId,
+            networkType: initialNetwork.current,
+            get additionalParams() {
+                return latest.current.additionalParams;
+            },
+            get timeoutMs() {
+                return latest.current.timeoutMs;
+            },
+            get hooks() {
+                return latest.current.hooks;
+            },
+        }),
+        [client, checkoutId]
+    );
+    const state = useSyncExternalStore(machine.subscribe, machine.getState, machine.getState);
+
+    // 加载支付信息；卸载（如关闭弹窗）时取消进行中的请求和支付
+    useEffect(() => {
+        machine.load();
+        return () => machine.cancel();
+    }, [machine]);
+
+    const {selected} = state;
+    const supportedNetworks = useMemo(
+        () => state.requirements ? getSupportedNetworkTypes(state.requirements) : [],
+        [state.requirements]
+    );
+    // 钱包网络跟随用户选中的支付选项（初始选项优先匹配 expectedNetwork）
+    const targetNetwork: NetworkType | undefined = (selected ? getSupportedNetworkTypes([selected])[0] : undefined)
+        || expectedNetwork
+        || supportedNetworks[0];
+
+    const {address, networkType, chainId, switchChain: switchWalletChain, disconnect: disconnectWallet, ensureNetwork} =
+        useWallet();
+
+    // 支付信息加载完成后，确保钱包连接到选中选项的网络（唯一的自动连接 / 切换入口）
+    const isLoaded = !!state.requirements;
+    useEffect(() => {
+        if (!targetNetwork || !isLoaded) return;
+
+        ensureNetwork(targetNetwork).catch(err => {
+            client.logger.error('Failed to ensure network', errorFields(err, {network: targetNetwork}));
+        });
+    }, [targetNetwork, isLoaded, ensureNetwork, client]);
+
+    useEffect(() => {
+        machine.setWallet({address, networkType, chainId});
+    }, [machine, address, networkType, chainId]);
+
+    // 解析支付代币（符号、精度、图标）
+    const {token, isLoading: resolvingToken} = useTokenMetadata(selected, client);
+
+    const paymentDetails = useMemo(
+        () => selected && !resolvingToken ? getPaymentDetails(selected, token) : null,
+        [selected, token, resolvingToken]
+    );
+
+    const requiredChainId = networkType === NetworkType.EVM && selected
+        ? getChain(selected.network)?.chainId ?? null
+        : null;
+    const [isSwitchingChain, setIsSwitchingChain] = useState(false);
+
+    const pay = useCallback(async () => {
+        const next = await machine.pay();
+        if (next.status === 'success') {
+            onPaymentComplete?.(next.result);
+        }
+        return next;
+    }, [machine, onPaymentComplete]);
+
+    // Switch the wallet to the requirement's chain (rejects with the wallet error)
+    const switchChain = useCallback(async () => {
+        if (!requiredChainId) return;
+
+        setIsSwitchingChain(true);
+        try {
+            await switchWalletChain(requiredChainId);
+        } finally {
+            setIsSwitchingChain(false);
+        }
+    }, [requiredChainId, switchWalletChain]);
+
+    const disconnect = useCallback(() => {
+        disconnectWallet();
+        machine.reset();
+    }, [machine, disconnectWallet]);
+
+    // 已识别的错误显示本地化文案，未知错误保留原始信息
+    const paymentError = state.error;
+    const error = paymentError
+        ? paymentError.code !== PaymentErrorCode.UNKNOWN_ERROR
+            ? paymentError.getUserMessage(locale)
+            : paymentError.message || t('checkout.paymentFailed')
+        : null;
+
+    return {
+        status: state.status,
+        requirements: state.requirements,
+        selected,
+        supportedNetworks,
+        paymentDetails,
+        token,
+        address,
+        networkType,
+        chainId,
+        requiredChainId,
+        isSwitchingChain,
+        result: state.result,
+        settlement: state.settlement,
+        error,
+        paymentError,
+        select: machine.select,
+        pay,
+        switchChain,
+        disconnect,
+        reset: machine.reset,
+        reload: machine.load,
+    };
+}
@@ -0,0 +1,42 @@
+/**
+ * useV402Client Hook
+ *
+ * Resolves the v402pay client from props, V402Provider, or the default config
+ */
+
+import {createContext, useContext} from 'react';
+import {createV402Client} from '../../client';
+import type {V402Client} from '../../types';
+
+// Shared default client (production backend), created on first use
+let defaultClient: V402Client | null = null;
+
+function getDefaultClient(): V402Client {
+    if (!defaultClient) {
+        defaultClient = createV402Client();
+    }
+    return defaultClient;
+}
+
+/**
+ * Context holding the client provided by V402Provider
+ */
+export const V402ClientContext = createContext<V402Client | null>(null);
+
+/**
+ * Get the active v402pay client
+ *
+ * @param client - Optional explicit client (takes precedence over the provider)
+ *
+ * @example
+ * ```tsx
+ * function Checkout() {
+ *   const client = useV402Client();
+ *   return <p>Backend: {client.baseUrl}</p>;
+ * }
+ * ```
+ */
+export function useV402Client(client?: V402Client): V402Client {
+    const contextClient = useContext(V402ClientContext);
+    return client || contextClient || getDefaultClient();
+}
@@ -8,22 +8,41 @@
 import {useSyncExternalStore} from 'react';
 import {walletStore} from '../store/walletStore';
 import {NetworkType} from '../../types';
+import type {Eip6963ProviderInfo, StandardWalletInfo} from '../../types';
 
 export interface UseWalletReturn {
     // State
     address: string | null;
     networkType: NetworkType | null;
+    chainId: number | null;
     isConnecting: boolean;
     error: string | null;
+    evmWallets: Eip6963ProviderInfo[];
+    evmWallet: string | null;
+    svmWallets: StandardWalletInfo[];
+    svmWallet: string | null;
 
     // Actions
-    connect: (networkType: NetworkType) => Promise<void>;
+    connect: (networkType: NetworkType, walletId?: string) => Promise<void>;
+    reconnect: () => Promise<void>;
     switchNetwork: (networkType: NetworkType) => Promise<void>;
+    switchChain: (chainId: number) => Promise<void>;
     ensureNetwork: (networkType: NetworkType) => Promise<void>;
     disconnect: () => void;
     clearError: () => void;
 }
 
+// Actions are bound to the singleton store, so they keep the same identity across renders
+const walletActions = {
+    connect: (type: NetworkType, walletId?: string) => walletStore.connect(type, walletId),
+    reconnect: () => walletStore.reconnect(),
+    switchNetwork: (type: NetworkType) => walletStore.switchNetwork(type),
+    switchChain: (chainId: number) => walletStore.switchChain(chainId),
+    ensureNetwork: (type: NetworkType) => walletStore.ensureNetwork(type),
+    disconnect: () => walletStore.disconnect(),
+    clearError: () => walletStore.clearError(),
+};
+
 /**
  * Hook for wallet connection
  * No Provider needed - uses external store
@@ -55,11 +74,7 @@ export function useWallet(): UseWalletReturn {
 
     return {
         ...state,
-        connect: (type: NetworkType) => walletStore.connect(type),
-        switchNetwork: (type: NetworkType) => walletStore.switchNetwork(type),
-        ensureNetwork: (type: NetworkType) => walletStore.ensureNetwork(type),
-        disconnect: () => walletStore.disconnect(),
-        clearError: () => walletStore.clearError(),
+        ...walletActions,
     };
 }
 
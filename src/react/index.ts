@@ -39,9 +39,30 @@ export type { UsePaymentReturn } from './hooks/usePayment';
 export { usePaymentInfo } from './hooks/usePaymentInfo';
 export type { UsePaymentInfoReturn } from './hooks/usePaymentInfo';
 
+export { useV402Client } from './hooks/useV402Client';
+
+export { useI18n } from './hooks/useI18n';
+export type { UseI18nReturn } from './hooks/useI18n';
+
+export { useTokenMetadata } from './hooks/useTokenMetadata';
+export type { UseTokenMetadataReturn } from './hooks/useTokenMetadata';
+
+export { useV402Checkout, getPaymentDetails } from './hooks/useV402Checkout';
+export type { UseV402CheckoutOptions, UseV402CheckoutReturn, CheckoutPaymentDetails } from './hooks/useV402Checkout';
+
 // Components
+export { V402Provider } from './components/V402Provider';
+export type { V402ProviderProps } from './components/V402Provider';
+
 export { WalletConnect } from './components/WalletConnect';
 export type { WalletConnectProps } from './components/WalletConnect';
 
 export { default as V402Checkout } from './components/V402Checkout';
 export type { V402CheckoutProps } from './components/V402Checkout';
+
+export { PaymentReceipt } from './components/PaymentReceipt';
+export type { PaymentReceiptProps } from './components/PaymentReceipt';
+
+// Theme
+export { getThemeVariables, themeVars, lightColors, darkColors } from './styles/theme';
+export type { V402Theme, V402ThemeColors, V402ColorScheme } from './styles/theme';
@@ -6,48 +6,190 @@
  */
 
 import {NetworkType} from '../../types';
+import type {
+  Eip6963ProviderDetail,
+  Eip6963ProviderInfo,
+  StandardWallet,
+  StandardWalletInfo,
+  WalletSyncMessage,
+} from '../../types';
 import {
-  connectWallet as connectWalletUtil,
+  broadcastWalletChange,
+  clearConnectedNetworkType,
+  discoverEvmWallets,
+  discoverSvmWallets,
+  errorFields,
+  getConnectedNetworkType,
+  getEvmWallets,
+  getLogger,
+  getSelectedEvmWallet,
+  getSelectedSvmWallet,
+  getSvmWallets,
   isWalletManuallyDisconnected,
   markWalletDisconnected,
+  onEvmWalletsChanged,
+  onSvmWalletsChanged,
+  onWalletSync,
+  PaymentOperationError,
+  removeWalletAddress,
+  saveWalletAddress,
+  translate,
+} from '../../utils';
+import type {MessageKey} from '../../utils';
+import {
+  connectWallet as connectWalletUtil,
+  getActiveConnector,
+  getCurrentChainId,
   onAccountsChanged,
   onChainChanged,
   onWalletDisconnect,
-  removeWalletAddress,
-  saveWalletAddress,
+  reconnectWallet,
+  switchEvmChain,
   switchNetwork as switchNetworkUtil,
-} from '../../utils';
+} from '../../services/connectors';
 
 type Listener = () => void;
 
+// Store errors are shown as-is, so use the localized message when there is one
+function getErrorMessage(err: any, fallbackKey: MessageKey): string {
+  if (err instanceof PaymentOperationError) {
+    return err.userMessage;
+  }
+  return err?.message || translate(fallbackKey);
+}
+
 interface WalletState {
   address: string | null;
   networkType: NetworkType | null;
+  chainId: number | null; // EVM chain the wallet is on
   isConnecting: boolean;
   error: string | null;
+  evmWallets: Eip6963ProviderInfo[]; // EVM wallets discovered via EIP-6963
+  evmWallet: string | null; // rdns of the selected EVM wallet
+  svmWallets: StandardWalletInfo[]; // Solana wallets registered through the Wallet Standard
+  svmWallet: string | null; // name of the selected Solana wallet
+}
+
+const SVM_TYPES = [NetworkType.SOLANA, NetworkType.SVM];
+
+// chainChanged reports a hex string
+function toChainId(value: string | number): number | null {
+  try {
+    return Number(BigInt(value));
+  } catch (error) {
+    return null;
+  }
+}
+
+function toWalletInfos(wallets: Eip6963ProviderDetail[]): Eip6963ProviderInfo[] {
+  return wallets.map(wallet => wallet.info);
+}
+
+function toStandardWalletInfos(wallets: StandardWallet[]): StandardWalletInfo[] {
+  return wallets.map(({name, icon}) => ({name, icon}));
 }
 
 class WalletStore {
   private state: WalletState = {
     address: null,
     networkType: null,
+    chainId: null,
     isConnecting: false,
     error: null,
+    evmWallets: [],
+    evmWallet: null,
+    svmWallets: [],
+    svmWallet: null,
   };
 
   private listeners = new Set<Listener>();
   private initialized = false;
+  private unsubscribeEvm: (() => void) | null = null;
+  private unsubscribeSvm: (() => void) | null = null;
 
   // Initialize store (call once)
   init() {
     if (this.initialized) return;
     this.initialized = true;
 
-    // 不自动重连，让 usePageNetwork 来决定需要哪个网络
+    // 默认不自动重连，让 usePageNetwork 来决定需要哪个网络（可通过 reconnect() 开启，见 V402Provider autoReconnect）
     // 这样可以确保每个页面都使用正确的网络类型
 
+    // Track EVM wallets announced via EIP-6963
+    onEvmWalletsChanged((wallets) => {
+      this.setState({evmWallets: toWalletInfos(wallets)});
+      // 选中的钱包可能晚于 init 才注册，重新绑定事件
+      if (wallets.some(wallet => wallet.info.rdns === this.state.evmWallet)) {
+        this.subscribeEvmEvents();
+      }
+    });
+    discoverEvmWallets();
+
+    // Track Solana wallets registered through the Wallet Standard
+    onSvmWalletsChanged((wallets) => {
+      this.setState({svmWallets: toStandardWalletInfos(wallets)});
+      this.subscribeSvmEvents();
+    });
+    discoverSvmWallets();
+
+    this.setState({
+      evmWallets: toWalletInfos(getEvmWallets()),
+      evmWallet: getSelectedEvmWallet(),
+      svmWallets: toStandardWalletInfos(getSvmWallets()),
+      svmWallet: getSelectedSvmWallet(),
+    });
+
+    this.subscribeEvmEvents();
+    this.subscribeSvmEvents();
+
+    // Follow connects and disconnects made in other tabs
+    onWalletSync((message) => this.applySync(message));
+  }
+
+  // Apply a change from another tab (storage is already updated there)
+  private applySync(message: WalletSyncMessage) {
+    if (message.type === 'disconnect') {
+      if (this.state.networkType === message.networkType) {
+        this.setState({address: null, networkType: null, chainId: null});
+      }
+      return;
+    }
+
+    this.setState({
+      address: message.address,
+      networkType: message.networkType,
+      chainId: message.chainId,
+      error: null,
+      evmWallet: getSelectedEvmWallet(),
+      svmWallet: getSelectedSvmWallet(),
+    });
+    // 另一个标签页可能选了不同的钱包，重新绑定事件
+    if (SVM_TYPES.includes(message.networkType)) {
+      this.subscribeSvmEvents();
+    } else {
+      this.subscribeEvmEvents();
+    }
+  }
+
+  // (Re)subscribe to disconnects of the selected Solana wallet
+  private subscribeSvmEvents() {
+    this.unsubscribeSvm?.();
+
+    // Listen for wallet disconnect (SVM only)
+    this.unsubscribeSvm = onWalletDisconnect(() => {
+      // 只有当前激活的网络是SVM时才处理断开
+      if (this.state.networkType && SVM_TYPES.includes(this.state.networkType)) {
+        this.handleDisconnect(this.state.networkType);
+      }
+    });
+  }
+
+  // (Re)subscribe to events of the selected EVM wallet
+  private subscribeEvmEvents() {
+    this.unsubscribeEvm?.();
+
     // Listen for account changes (EVM only)
-    onAccountsChanged((accounts) => {
+    const offAccounts = onAccountsChanged((accounts) => {
       // 只有当前激活的网络是EVM时才处理账户变化
       if (this.state.networkType === NetworkType.EVM) {
         if (accounts.length === 0) {
@@ -60,22 +202,17 @@ class WalletStore {
     });
 
     // Listen for network/chain changes (EVM only)
-    onChainChanged(() => {
-      // 只有当前激活的网络是EVM时才处理链变化
+    const offChain = onChainChanged((chainId) => {
+      // 只有当前激活的网络是EVM时才处理链变化；切链不影响连接，只更新 chainId
       if (this.state.networkType === NetworkType.EVM) {
-        // 用户在钱包中切换了链，清除当前连接
-        this.handleDisconnect(NetworkType.EVM, 'Chain changed. Please reconnect your wallet.');
+        this.setState({chainId: toChainId(chainId)});
       }
     });
 
-    // Listen for wallet disconnect (SVM only)
-    onWalletDisconnect(() => {
-      // 只有当前激活的网络是SVM时才处理断开
-      const svmTypes = [NetworkType.SOLANA, NetworkType.SVM];
-      if (this.state.networkType && svmTypes.includes(this.state.networkType)) {
-        this.handleDisconnect(this.state.networkType);
-      }
-    });
+    this.unsubscribeEvm = () => {
+      offAccounts();
+      offChain();
+    };
   }
 
 
@@ -109,19 +246,19 @@ class WalletStore {
     markWalletDisconnected(networkType);
 
     // 清除当前网络类型缓存
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('connected_network_type');
-    }
+    clearConnectedNetworkType();
 
     this.setState({
       address: null,
       networkType: null,
+      chainId: null,
       error: error || null,
     });
+    broadcastWalletChange({type: 'disconnect', networkType});
   }
 
-  // Connect wallet
-  async connect(type: NetworkType): Promise<void> {
+  // Connect wallet (walletId picks a specific wallet: EIP-6963 rdns for EVM, Wallet Standard name for Solana)
+  async connect(type: NetworkType, walletId?: string): Promise<void> {
     // 保存当前网络的地址到缓存（如果正在切换网络）
     if (this.state.address && this.state.networkType && this.state.networkType !== type) {
       saveWalletAddress(this.state.networkType, this.state.address);
@@ -130,22 +267,60 @@ class WalletStore {
     this.setState({isConnecting: true, error: null});
 
     try {
-      const walletAddress = await connectWalletUtil(type);
+      const walletAddress = await connectWalletUtil(type, walletId);
+      const chainId = type === NetworkType.EVM ? await getCurrentChainId() : null;
 
       this.setState({
         address: walletAddress,
         networkType: type,
+        chainId,
         isConnecting: false,
+        evmWallet: getSelectedEvmWallet(),
+        svmWallet: getSelectedSvmWallet(),
       });
+      broadcastWalletChange({type: 'connect', networkType: type, address: walletAddress, chainId});
+      // 钱包或 connector 可能已切换，重新绑定事件
+      if (SVM_TYPES.includes(type)) {
+        this.subscribeSvmEvents();
+      } else {
+        this.subscribeEvmEvents();
+      }
     } catch (err: any) {
       this.setState({
-        error: err.message || 'Failed to connect wallet',
+        error: getErrorMessage(err, 'wallet.connectFailed'),
         isConnecting: false,
       });
       throw err;
     }
   }
 
+  // Silently restore the last connected wallet (no popup, skipped after a manual disconnect)
+  async reconnect(): Promise<void> {
+    const type = getConnectedNetworkType();
+    if (!type || this.state.address || this.state.isConnecting) {
+      return;
+    }
+
+    const address = await reconnectWallet(type);
+    // 等待期间用户可能已手动连接
+    if (!address || this.state.address) {
+      return;
+    }
+
+    this.setState({
+      address,
+      networkType: type,
+      chainId: type === NetworkType.EVM ? await getCurrentChainId() : null,
+      evmWallet: getSelectedEvmWallet(),
+      svmWallet: getSelectedSvmWallet(),
+    });
+    if (SVM_TYPES.includes(type)) {
+      this.subscribeSvmEvents();
+    } else {
+      this.subscribeEvmEvents();
+    }
+  }
+
   // Switch network (use cached wallet if available)
   async switchNetwork(type: NetworkType): Promise<void> {
     // 保存当前网络的地址到缓存
@@ -161,34 +336,57 @@ class WalletStore {
 
       if (address) {
         // 成功使用缓存的钱包切换
+        const chainId = type === NetworkType.EVM ? await getCurrentChainId() : null;
         this.setState({
           address,
           networkType: type,
+          chainId,
           isConnecting: false,
         });
+        broadcastWalletChange({type: 'connect', networkType: type, address, chainId});
       } else {
         // 没有缓存的钱包，需要连接
         this.setState({
           address: null,
           networkType: type,
+          chainId: null,
           isConnecting: true,
         });
         await this.connect(type);
       }
     } catch (err: any) {
       this.setState({
-        error: err.message || 'Failed to switch network',
+        error: getErrorMessage(err, 'wallet.switchFailed'),
         isConnecting: false,
       });
       throw err;
     }
   }
 
+  // Switch the EVM wallet to a chain (chainChanged then updates chainId)
+  async switchChain(chainId: number): Promise<void> {
+    this.setState({error: null});
+
+    try {
+      await switchEvmChain(chainId);
+      this.setState({chainId});
+    } catch (err: any) {
+      this.setState({error: getErrorMessage(err, 'wallet.switchFailed')});
+      throw err;
+    }
+  }
+
   // Disconnect wallet
   disconnect(): void {
     const currentNetwork = this.state.networkType;
 
     if (currentNetwork) {
+      // Let connectors with a session (embedded wallets, ...) log out
+      const connector = getActiveConnector(currentNetwork);
+      Promise.resolve(connector?.disconnect?.()).catch(error => {
+        getLogger().warn('Wallet connector disconnect failed', errorFields(error, {connector: connector?.id}));
+      });
+
       // 清除当前网络的缓存并标记为手动断开
       this.handleDisconnect(currentNetwork);
     } else {
@@ -196,6 +394,7 @@ class WalletStore {
       this.setState({
         address: null,
         networkType: null,
+        chainId: null,
         error: null,
       });
     }
@@ -4,57 +4,15 @@
  * Modern, minimal, and flat design without gradients or fancy borders.
  * All styles are defined as JavaScript objects to ensure they're always bundled
  * with the components. This eliminates the need for users to import CSS files.
+ * Colors, radius and fonts come from the theme's CSS variables (see theme.ts).
  */
 
 import {CSSProperties} from 'react';
+import {themeVars} from './theme';
 
-// 检测是否支持暗色模式
-export const isDarkMode = (): boolean => {
-  if (typeof window === 'undefined') return false;
-  return window.matchMedia?.('(prefers-color-scheme: dark)').matches ?? false;
-};
-
-// 现代简约配色 - 扁平化设计
-const colors = {
-  // Light mode
-  light: {
-    background: '#fafafa',
-    cardBg: '#ffffff',
-    text: '#0a0a0a',
-    textSecondary: '#737373',
-    primary: '#000000',
-    primaryHover: '#262626',
-    danger: '#ef4444',
-    dangerHover: '#dc2626',
-    success: '#10b981',
-    successHover: '#059669',
-    disabled: '#e5e5e5',
-    disabledText: '#a3a3a3',
-    errorBg: '#fef2f2',
-    errorText: '#dc2626',
-  },
-  // Dark mode
-  dark: {
-    background: '#0a0a0a',
-    cardBg: '#171717',
-    text: '#fafafa',
-    textSecondary: '#a3a3a3',
-    primary: '#ffffff',
-    primaryHover: '#e5e5e5',
-    danger: '#f87171',
-    dangerHover: '#ef4444',
-    success: '#34d399',
-    successHover: '#10b981',
-    disabled: '#262626',
-    disabledText: '#525252',
-    errorBg: '#1c1917',
-    errorText: '#f87171',
-  },
-};
-
-// 获取当前主题颜色
+// 当前主题颜色（CSS 变量，由组件根节点按 light / dark 设置）
 export const getColors = () => {
-  return isDarkMode() ? colors.dark : colors.light;
+  return themeVars.colors;
 };
 
 // 容器样式
@@ -69,8 +27,8 @@ export const getSectionStyle = (): CSSProperties => {
   const c = getColors();
   return {
     padding: '1.5rem',
-    background: c.cardBg,
-    borderRadius: '12px',
+    background: c.surface,
+    borderRadius: themeVars.radiusLarge,
   };
 };
 
@@ -100,13 +58,23 @@ export const walletOptionStyle: CSSProperties = {
   gap: '0.5rem',
 };
 
+// 钱包图标 (EIP-6963 / Wallet Standard)
+export const walletIconStyle: CSSProperties = {
+  width: '1.25rem',
+  height: '1.25rem',
+  marginRight: '0.5rem',
+  verticalAlign: 'middle',
+  borderRadius: '4px',
+};
+
 // 基础按钮样式 - 扁平化
 const baseButtonStyle: CSSProperties = {
   padding: '0.875rem 1.25rem',
   fontSize: '0.9375rem',
   fontWeight: 500,
   border: 'none',
-  borderRadius: '8px',
+  borderRadius: themeVars.radius,
+  fontFamily: 'inherit',
   cursor: 'pointer',
   transition: 'background-color 0.15s ease, opacity 0.15s ease',
   outline: 'none',
@@ -116,22 +84,21 @@ const baseButtonStyle: CSSProperties = {
 // 连接按钮样式 - 纯黑/纯白
 export const getConnectButtonStyle = (isDisabled: boolean, isHovered: boolean): CSSProperties => {
   const c = getColors();
-  const darkMode = isDarkMode();
-  
+
   if (isDisabled) {
     return {
       ...baseButtonStyle,
       background: c.disabled,
       color: c.disabledText,
       cursor: 'not-allowed',
-      border: darkMode ? '1px solid #404040' : '1px solid #d4d4d4',
+      border: `1px solid ${c.border}`,
     };
   }
-  
+
   return {
     ...baseButtonStyle,
     background: isHovered ? c.primaryHover : c.primary,
-    color: darkMode ? '#000000' : '#ffffff',
+    color: c.primaryText,
     cursor: 'pointer',
   };
 };
@@ -197,7 +164,7 @@ export const getLabelStyle = (): CSSProperties => {
 export const getAddressStyle = (): CSSProperties => {
   const c = getColors();
   return {
-    fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace',
+    fontFamily: themeVars.monoFontFamily,
     fontSize: '0.9375rem',
     fontWeight: 500,
     color: c.text,
@@ -222,6 +189,16 @@ export const getHintStyle = (): CSSProperties => {
   };
 };
 
+export const getTokenHintStyle = (): CSSProperties => {
+  return {
+    ...getHintStyle(),
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: '6px',
+  };
+};
+
 // 错误信息样式 - 扁平化
 export const getErrorStyle = (): CSSProperties => {
   const c = getColors();
@@ -230,7 +207,7 @@ export const getErrorStyle = (): CSSProperties => {
     padding: '0.75rem 1rem',
     background: c.errorBg,
     color: c.errorText,
-    borderRadius: '8px',
+    borderRadius: themeVars.radius,
     fontSize: '0.8125rem',
     fontWeight: 500,
   };
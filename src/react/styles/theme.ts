@@ -0,0 +1,185 @@
+/**
+ * Theme for x402 React Components
+ *
+ * Theme tokens are applied as CSS variables (`--v402-*`) on the component root,
+ * so V402Checkout, WalletConnect and your own markup inside them share one palette.
+ */
+
+import {createContext, useContext, useEffect, useState} from 'react';
+import type {CSSProperties} from 'react';
+
+export type V402ColorScheme = 'light' | 'dark' | 'auto';
+
+export interface V402ThemeColors {
+  background: string; // Page behind the card
+  surface: string; // Cards
+  surfaceMuted: string; // Panels inside cards
+  border: string;
+  text: string;
+  textSecondary: string;
+  primary: string; // Main buttons
+  primaryHover: string;
+  primaryText: string; // Text on primary
+  danger: string;
+  dangerHover: string;
+  success: string;
+  successHover: string;
+  successBg: string;
+  successBorder: string;
+  warning: string;
+  warningBg: string;
+  warningBorder: string;
+  warningText: string;
+  errorBg: string;
+  errorBorder: string;
+  errorText: string;
+  accent: string; // Progress indicators
+  disabled: string;
+  disabledText: string;
+}
+
+export interface V402Theme {
+  colorScheme?: V402ColorScheme; // 'auto' follows prefers-color-scheme (default 'light')
+  light?: Partial<V402ThemeColors>; // Overrides for the light palette
+  dark?: Partial<V402ThemeColors>; // Overrides for the dark palette
+  radius?: string; // Base corner radius, cards use twice this (default 8px)
+  fontFamily?: string;
+  monoFontFamily?: string; // Addresses and hashes
+}
+
+// 现代简约配色 - 扁平化设计
+export const lightColors: V402ThemeColors = {
+  background: '#fafafa',
+  surface: '#ffffff',
+  surfaceMuted: '#fafafa',
+  border: '#f0f0f0',
+  text: '#0a0a0a',
+  textSecondary: '#737373',
+  primary: '#1a1a1a',
+  primaryHover: '#262626',
+  primaryText: '#ffffff',
+  danger: '#ef4444',
+  dangerHover: '#dc2626',
+  success: '#10b981',
+  successHover: '#059669',
+  successBg: '#f6ffed',
+  successBorder: '#b7eb8f',
+  warning: '#faad14',
+  warningBg: '#fffbe6',
+  warningBorder: '#ffe58f',
+  warningText: '#ad6800',
+  errorBg: '#fef2f2',
+  errorBorder: '#fee2e2',
+  errorText: '#dc2626',
+  accent: '#14b8a6',
+  disabled: '#e5e5e5',
+  disabledText: '#a3a3a3',
+};
+
+export const darkColors: V402ThemeColors = {
+  background: '#0a0a0a',
+  surface: '#171717',
+  surfaceMuted: '#1f1f1f',
+  border: '#262626',
+  text: '#fafafa',
+  textSecondary: '#a3a3a3',
+  primary: '#ffffff',
+  primaryHover: '#e5e5e5',
+  primaryText: '#000000',
+  danger: '#f87171',
+  dangerHover: '#ef4444',
+  success: '#34d399',
+  successHover: '#10b981',
+  successBg: '#052e16',
+  successBorder: '#166534',
+  warning: '#fbbf24',
+  warningBg: '#2a2000',
+  warningBorder: '#854d0e',
+  warningText: '#fcd34d',
+  errorBg: '#1c1917',
+  errorBorder: '#7f1d1d',
+  errorText: '#f87171',
+  accent: '#2dd4bf',
+  disabled: '#262626',
+  disabledText: '#525252',
+};
+
+const DEFAULT_FONT = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif';
+const DEFAULT_MONO_FONT = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace';
+
+// camelCase token -> --v402-color-kebab-case
+function colorVariable(name: string): string {
+  return `--v402-color-${name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)}`;
+}
+
+/**
+ * CSS variable references for each color, for use in inline styles
+ *
+ * @example
+ * ```tsx
+ * <span style={{color: themeVars.colors.textSecondary}}>...</span>
+ * ```
+ */
+export const themeVars = {
+  colors: Object.fromEntries(
+      Object.keys(lightColors).map(name => [name, `var(${colorVariable(name)})`])
+  ) as Record<keyof V402ThemeColors, string>,
+  radius: 'var(--v402-radius)',
+  radiusLarge: 'calc(var(--v402-radius) * 2)',
+  fontFamily: 'var(--v402-font-family)',
+  monoFontFamily: 'var(--v402-font-family-mono)',
+};
+
+/**
+ * Resolve a color scheme to light or dark, following the system setting for 'auto'
+ */
+export function useResolvedColorScheme(colorScheme: V402ColorScheme = 'light'): 'light' | 'dark' {
+  const [systemDark, setSystemDark] = useState(false);
+
+  useEffect(() => {
+    if (colorScheme !== 'auto' || typeof window === 'undefined' || !window.matchMedia) return;
+
+    const query = window.matchMedia('(prefers-color-scheme: dark)');
+    setSystemDark(query.matches);
+    const onChange = (event: MediaQueryListEvent) => setSystemDark(event.matches);
+    query.addEventListener?.('change', onChange);
+    return () => query.removeEventListener?.('change', onChange);
+  }, [colorScheme]);
+
+  if (colorScheme === 'auto') {
+    return systemDark ? 'dark' : 'light';
+  }
+  return colorScheme;
+}
+
+/**
+ * CSS variables for a theme, to spread into a root element's style
+ */
+export function getThemeVariables(theme: V402Theme = {}, scheme: 'light' | 'dark' = 'light'): CSSProperties {
+  const colors = scheme === 'dark'
+      ? {...darkColors, ...theme.dark}
+      : {...lightColors, ...theme.light};
+
+  const variables: Record<string, string> = {
+    '--v402-radius': theme.radius || '8px',
+    '--v402-font-family': theme.fontFamily || DEFAULT_FONT,
+    '--v402-font-family-mono': theme.monoFontFamily || DEFAULT_MONO_FONT,
+  };
+  (Object.keys(colors) as (keyof V402ThemeColors)[]).forEach(name => {
+    variables[colorVariable(name)] = colors[name];
+  });
+  return {...variables, colorScheme: scheme} as CSSProperties;
+}
+
+/**
+ * Theme shared by V402Provider and the components (undefined outside a provider)
+ */
+export const V402ThemeContext = createContext<V402Theme | undefined>(undefined);
+
+/**
+ * Use the given theme, falling back to V402Provider's
+ */
+export function useV402Theme(theme?: V402Theme): V402Theme {
+  const contextTheme = useContext(V402ThemeContext);
+  return theme || contextTheme || {};
+}
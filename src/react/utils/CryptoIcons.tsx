@@ -136,3 +136,45 @@ export const getCurrencyIcon = (currency: string): React.FC<IconProps> => {
     }
 };
 
+
+interface TokenIconProps extends IconProps {
+    symbol: string;
+    logoURI?: string;
+}
+
+/**
+ * 代币图标：优先使用 logoURI，其次内置图标，最后显示符号首字母
+ */
+export const TokenIcon: React.FC<TokenIconProps> = ({symbol, logoURI, width = 16, height = 16, className, style}) => {
+    if (logoURI) {
+        return <img src={logoURI} alt={symbol} width={width} height={height} className={className}
+                    style={{borderRadius: '50%', ...style}}/>;
+    }
+
+    const upper = symbol.toUpperCase();
+    if (upper === 'USDC' || upper === 'SOL') {
+        const Icon = getCurrencyIcon(upper);
+        return <Icon width={width} height={height} className={className} style={style}/>;
+    }
+
+    return (
+        <span
+            className={className}
+            style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                width,
+                height,
+                borderRadius: '50%',
+                background: '#8c8c8c',
+                color: 'white',
+                fontSize: Math.round(height * 0.5),
+                fontWeight: 600,
+                ...style,
+            }}
+        >
+            {upper.charAt(0) || '?'}
+        </span>
+    );
+};
@@ -0,0 +1,97 @@
+/**
+ * UI Icons Component
+ * 界面图标集合（线性图标，颜色跟随 currentColor）
+ */
+
+import React from 'react';
+
+interface UiIconProps {
+    size?: number;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+// 24x24 线性图标的公共外壳
+const Outline: React.FC<UiIconProps & { children: React.ReactNode }> = ({size = 16, className, style, children}) => {
+    return (
+        <svg
+            xmlns="http://www.w3.org/2000/svg"
+            viewBox="0 0 24 24"
+            width={size}
+            height={size}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className={className}
+            style={{flexShrink: 0, ...style}}
+            aria-hidden="true"
+        >
+            {children}
+        </svg>
+    );
+};
+
+export const InfoIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <circle cx="12" cy="12" r="10"/>
+        <path d="M12 16v-4M12 8h.01"/>
+    </Outline>
+);
+
+export const LockIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <rect x="4" y="11" width="16" height="10" rx="2"/>
+        <path d="M8 11V7a4 4 0 0 1 8 0v4"/>
+    </Outline>
+);
+
+export const ShieldIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"/>
+        <path d="m9 12 2 2 4-4"/>
+    </Outline>
+);
+
+export const WarningIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <path d="M10.3 3.9 1.8 18a2 2 0 0 0 1.7 3h17a2 2 0 0 0 1.7-3L13.7 3.9a2 2 0 0 0-3.4 0z"/>
+        <path d="M12 9v4M12 17h.01"/>
+    </Outline>
+);
+
+export const DisconnectIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <path d="M9 17H7A5 5 0 0 1 7 7h2M15 7h2a5 5 0 0 1 4 8M8 12h4M2 2l20 20"/>
+    </Outline>
+);
+
+export const ExternalLinkIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"/>
+        <path d="M15 3h6v6M10 14 21 3"/>
+    </Outline>
+);
+
+/**
+ * 加载图标（需配合 v402-spin 动画，见 ThemeRoot）
+ */
+export const SpinnerIcon: React.FC<UiIconProps> = ({style, ...props}) => (
+    <Outline {...props} style={{animation: 'v402-spin 0.8s linear infinite', ...style}}>
+        <path d="M21 12a9 9 0 1 1-6.2-8.6"/>
+    </Outline>
+);
+
+export const CopyIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <rect x="9" y="9" width="12" height="12" rx="2"/>
+        <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+    </Outline>
+);
+
+export const CheckIcon: React.FC<UiIconProps> = (props) => (
+    <Outline {...props}>
+        <path d="M20 6 9 17l-5-5"/>
+    </Outline>
+);
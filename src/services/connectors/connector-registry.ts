@@ -0,0 +1,201 @@
+/**
+ * Connector Registry
+ *
+ * Wallet connectors used by walletStore and makePayment, keyed by connector id.
+ * The injected connectors are built in; embedded or test wallets are added with registerConnector()
+ */
+
+import {NetworkType} from "../../types";
+import type {WalletConnector} from "../../types";
+import {injectedEvmConnector, injectedSvmConnector} from "./injected-connectors";
+import {readJson, writeJson} from "../../utils/storage";
+
+const ACTIVE_CONNECTORS_KEY = 'wallet_active_connectors'; // 每个网络类型最近连接的 connector
+
+// SOLANA and SVM are the same family of wallets
+function toFamily(networkType: NetworkType): NetworkType {
+  return networkType === NetworkType.SVM ? NetworkType.SOLANA : networkType;
+}
+
+function getActiveIds(): Partial<Record<NetworkType, string>> {
+  return readJson(ACTIVE_CONNECTORS_KEY, {});
+}
+
+/**
+ * Registry of wallet connectors
+ */
+export class ConnectorRegistry {
+  private connectors = new Map<string, WalletConnector>();
+
+  constructor(connectors: WalletConnector[] = []) {
+    connectors.forEach(connector => this.register(connector));
+  }
+
+  /**
+   * Add or replace a connector
+   */
+  register(connector: WalletConnector): void {
+    this.connectors.set(connector.id, connector);
+  }
+
+  /**
+   * Remove a connector
+   */
+  unregister(id: string): void {
+    this.connectors.delete(id);
+  }
+
+  /**
+   * Get a connector by id
+   */
+  get(id: string): WalletConnector | undefined {
+    return this.connectors.get(id);
+  }
+
+  /**
+   * List connectors, optionally only those for a network type
+   */
+  list(networkType?: NetworkType): WalletConnector[] {
+    const connectors = Array.from(this.connectors.values());
+    return networkType
+        ? connectors.filter(connector => toFamily(connector.networkType) === toFamily(networkType))
+        : connectors;
+  }
+
+  /**
+   * Get the connector last connected for a network type, else the first registered one
+   */
+  getActive(networkType: NetworkType): WalletConnector | undefined {
+    const id = getActiveIds()[toFamily(networkType)];
+    const active = id ? this.get(id) : undefined;
+    if (active && toFamily(active.networkType) === toFamily(networkType)) {
+      return active;
+    }
+    return this.list(networkType)[0];
+  }
+
+  /**
+   * Remember the connector used for a network type
+   */
+  setActive(networkType: NetworkType, id: string): void {
+    const active = getActiveIds();
+    active[toFamily(networkType)] = id;
+    writeJson(ACTIVE_CONNECTORS_KEY, active);
+  }
+
+  /**
+   * Find the connector for a wallet id
+   *
+   * The id may name a connector or one of a connector's wallets(); without a match the
+   * active connector is used and receives the id as-is.
+   */
+  resolve(networkType: NetworkType, walletId?: string): { connector: WalletConnector; walletId?: string } | undefined {
+    if (walletId) {
+      const connector = this.get(walletId);
+      if (connector && toFamily(connector.networkType) === toFamily(networkType)) {
+        return {connector};
+      }
+      const owner = this.list(networkType).find(item => item.wallets?.().some(wallet => wallet.id === walletId));
+      if (owner) {
+        return {connector: owner, walletId};
+      }
+    }
+
+    const active = this.getActive(networkType);
+    return active ? {connector: active, walletId} : undefined;
+  }
+}
+
+/**
+ * Shared registry used by walletStore, the wallet utilities and makePayment
+ */
+export const connectorRegistry = new ConnectorRegistry([injectedEvmConnector, injectedSvmConnector]);
+
+/**
+ * Register a wallet connector (or replace one with the same id)
+ *
+ * Pass the connector id as the wallet id to `connectWallet` / `useWallet().connect` to use it;
+ * it then stays the active connector for its network type.
+ *
+ * @example
+ * ```typescript
+ * registerConnector({
+ *   id: 'embedded',
+ *   name: 'Embedded Wallet',
+ *   networkType: NetworkType.EVM,
+ *   isInstalled: () => true,
+ *   connect: async () => (await embedded.login()).address,
+ *   getAccount: async () => embedded.address ?? null,
+ *   toAdapter: async () => evmAdapterFromEip1193(embedded.provider),
+ * });
+ *
+ * await connectWallet(NetworkType.EVM, 'embedded');
+ * ```
+ */
+export function registerConnector(connector: WalletConnector): void {
+  connectorRegistry.register(connector);
+}
+
+/**
+ * Remove a wallet connector
+ */
+export function unregisterConnector(id: string): void {
+  connectorRegistry.unregister(id);
+}
+
+/**
+ * Get a wallet connector by id
+ */
+export function getConnector(id: string): WalletConnector | undefined {
+  return connectorRegistry.get(id);
+}
+
+/**
+ * List wallet connectors, optionally only those for a network type
+ */
+export function getConnectors(networkType?: NetworkType): WalletConnector[] {
+  return connectorRegistry.list(networkType);
+}
+
+/**
+ * Get the connector currently used for a network type
+ */
+export function getActiveConnector(networkType: NetworkType): WalletConnector | undefined {
+  return connectorRegistry.getActive(networkType);
+}
+
+/**
+ * Check if a wallet is installed for a specific network type (any registered connector)
+ */
+export function isWalletInstalled(networkType: NetworkType): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+  return getConnectors(networkType).some(connector => connector.isInstalled());
+}
+
+/**
+ * Get wallet provider for a network type (from the active connector)
+ */
+export function getWalletProvider(networkType: NetworkType): any {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return getActiveConnector(networkType)?.getProvider?.() ?? null;
+}
+
+/**
+ * Get wallet install URL
+ */
+export function getWalletInstallUrl(networkType: NetworkType): string {
+  return getActiveConnector(networkType)?.installUrl
+      || getConnectors(networkType).find(connector => connector.installUrl)?.installUrl
+      || '#';
+}
+
+/**
+ * Get wallet display name
+ */
+export function getWalletDisplayName(networkType: NetworkType): string {
+  return getActiveConnector(networkType)?.name || 'Unknown Wallet';
+}
@@ -0,0 +1,44 @@
+/**
+ * Wallet connectors
+ *
+ * Connector registry, the built-in injected connectors and the wallet connection helpers
+ * built on them. Lives in services because connectors hand out the chain wallet adapters
+ */
+
+// Connector registry
+export {
+  ConnectorRegistry,
+  connectorRegistry,
+  registerConnector,
+  unregisterConnector,
+  getConnector,
+  getConnectors,
+  getActiveConnector,
+  isWalletInstalled,
+  getWalletProvider,
+  getWalletInstallUrl,
+  getWalletDisplayName,
+} from "./connector-registry";
+
+// Injected (browser extension) connectors
+export {
+  injectedEvmConnector,
+  injectedSvmConnector,
+} from "./injected-connectors";
+
+// Wallet connection utilities (for demo/UI)
+export {
+  connectWallet,
+  disconnectWallet,
+  getCurrentWallet,
+  reconnectWallet,
+  switchNetwork,
+  getCurrentChainId,
+  switchEvmChain,
+  onAccountsChanged,
+  onChainChanged,
+  onWalletDisconnect,
+  getInjectedEvmWallet,
+  getInjectedSvmWallet,
+  getConnectedWalletAdapter,
+} from "./wallet-connect";
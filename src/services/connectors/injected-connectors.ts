@@ -0,0 +1,281 @@
+/**
+ * Injected wallet connectors
+ *
+ * Built-in connectors for browser extension wallets: EIP-6963 / window.ethereum for EVM,
+ * Wallet Standard / window.solana for Solana
+ */
+
+import {NetworkType} from "../../types";
+import type {EvmWalletConnector, StandardWallet, SvmWalletConnector} from "../../types";
+import {
+  getEvmProvider,
+  getEvmWallet,
+  getEvmWallets,
+  getSvmWallet,
+  getSvmWallets,
+  saveSelectedEvmWallet,
+  saveSelectedSvmWallet,
+} from "../../utils/wallet-discovery";
+import {getLogger} from "../../utils/logger";
+import {PaymentErrorCode, PaymentOperationError} from "../../utils/payment-error-handler";
+import {evmAdapterFromEip1193} from "../evm/wallet-adapter";
+import {svmAdapterFromStandardWallet} from "../svm/wallet-adapter";
+
+function walletNotInstalled(wallet: string): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.WALLET_NOT_INSTALLED,
+    message: `No injected wallet found, install ${wallet}`,
+    details: {wallet},
+  });
+}
+
+function noWalletAddress(): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+    message: 'Wallet returned no accounts',
+    messageKey: 'error.NO_WALLET_ADDRESS',
+  });
+}
+
+function noop(): void {
+}
+
+// Solana account of a Wallet Standard wallet, if it is connected
+function getStandardAccount(wallet: StandardWallet) {
+  return wallet.accounts.find(account => account.chains.some(chain => chain.startsWith('solana:')))
+      || wallet.accounts[0]
+      || null;
+}
+
+async function connectStandardWallet(wallet: StandardWallet): Promise<string> {
+  await wallet.features['standard:connect'].connect();
+  const account = getStandardAccount(wallet);
+  if (!account) {
+    throw noWalletAddress();
+  }
+  return account.address;
+}
+
+function getLegacySolana(): any {
+  return typeof window === 'undefined' ? null : (window as any).solana || (window as any).phantom || null;
+}
+
+/**
+ * Browser extension EVM wallets (MetaMask by default)
+ */
+export const injectedEvmConnector: EvmWalletConnector = {
+  id: 'injected-evm',
+  networkType: NetworkType.EVM,
+  installUrl: 'https://metamask.io/download/',
+
+  get name() {
+    return getEvmWallet()?.info.name || 'MetaMask';
+  },
+
+  isInstalled: () => getEvmWallets().length > 0 || !!getEvmProvider(),
+
+  wallets: () => getEvmWallets().map(({info}) => ({id: info.rdns, name: info.name, icon: info.icon})),
+
+  getProvider: () => getEvmProvider(),
+
+  async connect(walletId?: string) {
+    const ethereum = getEvmProvider(walletId);
+    if (!ethereum) {
+      throw walletNotInstalled(getEvmWallet(walletId)?.info.name || walletId || 'MetaMask');
+    }
+    const accounts = await ethereum.request({
+      method: 'eth_requestAccounts',
+      params: [],
+    });
+    if (!accounts || accounts.length === 0) {
+      throw noWalletAddress();
+    }
+    if (walletId) {
+      saveSelectedEvmWallet(walletId);
+    }
+    return accounts[0];
+  },
+
+  async getAccount() {
+    const ethereum = getEvmProvider();
+    if (!ethereum) {
+      return null;
+    }
+    const accounts = await ethereum.request({
+      method: 'eth_accounts',
+      params: [],
+    });
+    return accounts && accounts.length > 0 ? accounts[0] : null;
+  },
+
+  // eth_accounts only lists accounts the site is already authorized for
+  reconnect() {
+    return injectedEvmConnector.getAccount();
+  },
+
+  async getChainId() {
+    const ethereum = getEvmProvider();
+    if (!ethereum) {
+      return null;
+    }
+    return Number(BigInt(await ethereum.request({method: 'eth_chainId'})));
+  },
+
+  on(event, listener) {
+    const ethereum = getEvmProvider();
+    if (!ethereum?.on || event === 'disconnect') {
+      return noop;
+    }
+
+    const handler = (value: any) => {
+      if (event === 'chainChanged') {
+        getLogger().debug('Chain changed', {chainId: value});
+      }
+      (listener as (value: any) => void)(value);
+    };
+    ethereum.on(event, handler);
+
+    return () => {
+      ethereum.removeListener?.(event, handler);
+    };
+  },
+
+  async toAdapter() {
+    const ethereum = getEvmProvider();
+    if (!ethereum) {
+      throw walletNotInstalled('MetaMask');
+    }
+    return evmAdapterFromEip1193(ethereum);
+  },
+};
+
+/**
+ * Browser extension Solana wallets (Wallet Standard, else the injected Phantom)
+ */
+export const injectedSvmConnector: SvmWalletConnector = {
+  id: 'injected-svm',
+  networkType: NetworkType.SOLANA,
+  installUrl: 'https://phantom.app/download',
+
+  get name() {
+    return getSvmWallet()?.name || 'Phantom';
+  },
+
+  isInstalled: () => getSvmWallets().length > 0 || !!getLegacySolana(),
+
+  wallets: () => getSvmWallets().map(({name, icon}) => ({id: name, name, icon})),
+
+  getProvider: () => getSvmWallet() || getLegacySolana(),
+
+  async connect(walletId?: string) {
+    const wallet = getSvmWallet(walletId);
+    if (wallet) {
+      const address = await connectStandardWallet(wallet);
+      if (walletId) {
+        saveSelectedSvmWallet(walletId);
+      }
+      return address;
+    }
+
+    // Wallets without Wallet Standard support
+    const solana = typeof window === 'undefined' ? null : (window as any).solana;
+    if (!solana || walletId) {
+      throw walletNotInstalled(walletId || 'Phantom');
+    }
+    const response = await solana.connect();
+    return response.publicKey.toString();
+  },
+
+  async getAccount() {
+    const wallet = getSvmWallet();
+    if (wallet) {
+      return getStandardAccount(wallet)?.address || null;
+    }
+    const solana = typeof window === 'undefined' ? null : (window as any).solana;
+    if (!solana || !solana.isConnected) {
+      return null;
+    }
+    return solana.publicKey?.toString() || null;
+  },
+
+  async reconnect() {
+    const wallet = getSvmWallet();
+    if (wallet) {
+      // silent: only succeeds if the wallet already trusts the site
+      try {
+        await wallet.features['standard:connect'].connect({silent: true});
+      } catch (error) {
+        return null;
+      }
+      return getStandardAccount(wallet)?.address || null;
+    }
+
+    const solana = typeof window === 'undefined' ? null : (window as any).solana;
+    if (!solana) {
+      return null;
+    }
+    try {
+      const response = await solana.connect({onlyIfTrusted: true});
+      return response.publicKey.toString();
+    } catch (error) {
+      // Rejected: the site is not trusted yet
+      return null;
+    }
+  },
+
+  on(event, listener) {
+    if (event !== 'disconnect' || typeof window === 'undefined') {
+      return noop;
+    }
+    const onDisconnect = listener as () => void;
+
+    // Wallet Standard wallets report a disconnect as a change to zero accounts
+    const wallet = getSvmWallet();
+    if (wallet) {
+      const events = wallet.features['standard:events'];
+      if (!events) {
+        return noop;
+      }
+      return events.on('change', ({accounts}: { accounts?: readonly unknown[] }) => {
+        if (accounts && accounts.length === 0) {
+          getLogger().debug('Solana wallet disconnected', {wallet: wallet.name});
+          onDisconnect();
+        }
+      });
+    }
+
+    const solana = (window as any).solana;
+    if (!solana) {
+      return noop;
+    }
+
+    const handler = () => {
+      getLogger().debug('Solana wallet disconnected');
+      onDisconnect();
+    };
+    solana.on('disconnect', handler);
+
+    return () => {
+      solana.removeListener?.('disconnect', handler);
+    };
+  },
+
+  async toAdapter() {
+    const wallet = getSvmWallet();
+    if (wallet) {
+      if (!getStandardAccount(wallet)) {
+        await connectStandardWallet(wallet);
+      }
+      return svmAdapterFromStandardWallet(wallet);
+    }
+
+    const solana = typeof window === 'undefined' ? null : (window as any).solana;
+    if (!solana) {
+      throw walletNotInstalled('Phantom');
+    }
+    if (!solana.isConnected) {
+      await solana.connect();
+    }
+    return solana;
+  },
+};
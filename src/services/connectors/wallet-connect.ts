@@ -0,0 +1,306 @@
+/**
+ * Wallet connection utilities for demo/UI
+ * Higher-level helpers built on top of base wallet utilities
+ */
+
+import {NetworkType} from "../../types";
+import type {EvmWalletAdapter, WalletAdapter} from "../../types";
+import {
+  clearAllWalletAddresses,
+  clearWalletDisconnection,
+  getCachedWalletAddress,
+  getConnectedNetworkType as getStoredNetworkType,
+  isWalletManuallyDisconnected as checkManualDisconnect,
+  markWalletDisconnected,
+  removeWalletAddress,
+  saveConnectedNetworkType,
+  saveWalletAddress
+} from "../../utils/wallet";
+import {errorFields, getLogger} from "../../utils/logger";
+import {PaymentErrorCode, PaymentOperationError, wrapChainSwitchError} from "../../utils/payment-error-handler";
+import {getChainDisplayName} from "../../utils/network";
+import {connectorRegistry} from "./connector-registry";
+import {injectedEvmConnector, injectedSvmConnector} from "./injected-connectors";
+
+function noop(): void {
+}
+
+/**
+ * Connect wallet and return address
+ * @param networkType - Network type to connect
+ * @param walletId - Wallet to use, remembered for later sessions:
+ * the EIP-6963 rdns for EVM, the Wallet Standard name for Solana
+ */
+export async function connectWallet(networkType: NetworkType, walletId?: string): Promise<string> {
+  if (typeof window === 'undefined') {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+      message: 'Wallets are only available in a browser',
+      messageKey: 'error.BROWSER_REQUIRED',
+    });
+  }
+
+  const resolved = connectorRegistry.resolve(networkType, walletId);
+  if (!resolved) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      message: `Unsupported network type: ${networkType}`,
+      details: {network: networkType},
+    });
+  }
+
+  const address = await resolved.connector.connect(resolved.walletId);
+  connectorRegistry.setActive(networkType, resolved.connector.id);
+
+  // Save connection state
+  clearWalletDisconnection(networkType); // 清除该网络的断开标记
+  saveConnectedNetworkType(networkType);
+  // 缓存钱包地址，支持多网络切换
+  saveWalletAddress(networkType, address);
+
+  return address;
+}
+
+/**
+ * Disconnect wallet
+ * @param networkType - 可选，指定要断开的网络类型。如果不指定，则断开当前网络
+ * @param clearAll - 是否清除所有网络的缓存，默认为 false
+ */
+export function disconnectWallet(networkType?: NetworkType, clearAll: boolean = false): void {
+  if (clearAll) {
+    // 清除所有网络的钱包缓存
+    clearAllWalletAddresses();
+    markWalletDisconnected();
+  } else if (networkType) {
+    // 只清除指定网络的缓存
+    removeWalletAddress(networkType);
+    // 不调用 markWalletDisconnected()，避免影响其他网络
+  } else {
+    // 清除当前连接的网络缓存
+    const currentNetwork = getStoredNetworkType();
+    if (currentNetwork) {
+      removeWalletAddress(currentNetwork);
+    }
+    // 不调用 markWalletDisconnected()，避免影响其他网络
+  }
+}
+
+/**
+ * Get current wallet address
+ * 优先从缓存读取，如果缓存存在则验证其有效性
+ */
+export async function getCurrentWallet(networkType?: NetworkType): Promise<string | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const type = networkType || getStoredNetworkType();
+  if (!type) {
+    return null;
+  }
+
+  // 先尝试从缓存读取
+  const cachedAddress = getCachedWalletAddress(type);
+  
+  try {
+    const connector = connectorRegistry.getActive(type);
+    if (!connector) return cachedAddress;
+    const currentAddress = await connector.getAccount();
+
+    // 如果钱包返回的地址与缓存不一致，更新缓存
+    if (currentAddress && currentAddress !== cachedAddress) {
+      saveWalletAddress(type, currentAddress);
+    }
+    
+    // 如果钱包没有返回地址但有缓存，返回缓存（钱包可能暂时未连接但用户没有断开）
+    return currentAddress || cachedAddress;
+  } catch (error) {
+    getLogger().error('Failed to get current wallet', errorFields(error, {networkType: type}));
+    // 如果出错，返回缓存的地址
+    return cachedAddress;
+  }
+}
+
+/**
+ * Silently restore the wallet connected in an earlier visit
+ *
+ * Never opens a wallet prompt: only wallets that still authorize the site are restored.
+ * Returns null when nothing was connected, the user disconnected manually, or the wallet
+ * no longer trusts the site.
+ *
+ * @param networkType - Defaults to the last connected network type
+ */
+export async function reconnectWallet(networkType?: NetworkType): Promise<string | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const type = networkType || getStoredNetworkType();
+  if (!type || checkManualDisconnect(type)) {
+    return null;
+  }
+
+  const connector = connectorRegistry.getActive(type);
+  if (!connector) {
+    return null;
+  }
+
+  try {
+    const address = connector.reconnect ? await connector.reconnect() : await connector.getAccount();
+    if (!address) {
+      return null;
+    }
+    saveConnectedNetworkType(type);
+    saveWalletAddress(type, address);
+    return address;
+  } catch (error) {
+    getLogger().warn('Failed to reconnect wallet', errorFields(error, {networkType: type, connector: connector.id}));
+    return null;
+  }
+}
+
+/**
+ * Get the chain id the EVM wallet is on
+ */
+export async function getCurrentChainId(): Promise<number | null> {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const connector = connectorRegistry.getActive(NetworkType.EVM);
+  try {
+    return (await connector?.getChainId?.()) ?? null;
+  } catch (error) {
+    getLogger().warn('Failed to get current chainId', errorFields(error));
+    return null;
+  }
+}
+
+/**
+ * Ask the EVM wallet to switch to a chain
+ */
+export async function switchEvmChain(chainId: number): Promise<void> {
+  const connector = connectorRegistry.getActive(NetworkType.EVM);
+  if (!connector || connector.networkType !== NetworkType.EVM) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      message: 'No EVM wallet connector registered',
+      details: {network: NetworkType.EVM},
+    });
+  }
+
+  const network = getChainDisplayName(chainId);
+  const wallet = await connector.toAdapter();
+  if (!wallet.switchChain) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.NETWORK_SWITCH_FAILED,
+      message: `${connector.name} cannot switch chains`,
+      messageKey: 'error.NETWORK_SWITCH_FAILED_TO',
+      details: {network},
+    });
+  }
+
+  try {
+    await wallet.switchChain(`0x${chainId.toString(16)}`);
+  } catch (error) {
+    getLogger().error('Failed to switch chain', errorFields(error, {chainId}));
+    throw wrapChainSwitchError(error, network);
+  }
+}
+
+/**
+ * Listen for account changes (EVM only)
+ */
+export function onAccountsChanged(
+    callback: (accounts: string[]) => void
+): () => void {
+  const connector = connectorRegistry.getActive(NetworkType.EVM);
+  return connector?.on?.('accountsChanged', callback) ?? noop;
+}
+
+/**
+ * Listen for chain/network changes (EVM only)
+ */
+export function onChainChanged(
+    callback: (chainId: string) => void
+): () => void {
+  const connector = connectorRegistry.getActive(NetworkType.EVM);
+  return connector?.on?.('chainChanged', callback) ?? noop;
+}
+
+/**
+ * Listen for wallet disconnect (Solana only)
+ */
+export function onWalletDisconnect(
+    callback: () => void
+): () => void {
+  const connector = connectorRegistry.getActive(NetworkType.SOLANA);
+  return connector?.on?.('disconnect', callback) ?? noop;
+}
+
+/**
+ * 切换到指定网络
+ * 如果该网络已有缓存的钱包地址，则直接切换
+ * 如果没有缓存，则需要连接钱包
+ */
+export async function switchNetwork(networkType: NetworkType): Promise<string | null> {
+  const cachedAddress = getCachedWalletAddress(networkType);
+  
+  if (cachedAddress) {
+    // 如果有缓存地址，直接切换网络类型
+    saveConnectedNetworkType(networkType);
+    clearWalletDisconnection(networkType); // 清除该网络的断开标记
+    
+    // 验证钱包是否仍然连接
+    const currentAddress = await getCurrentWallet(networkType);
+    if (currentAddress) {
+      return currentAddress;
+    }
+  }
+  
+  // 如果没有缓存或验证失败，返回 null 表示需要重新连接
+  return null;
+}
+
+/**
+ * Get the selected Solana wallet (Wallet Standard, else the injected Phantom), connecting if needed
+ */
+export async function getInjectedSvmWallet(): Promise<WalletAdapter> {
+  return injectedSvmConnector.toAdapter();
+}
+
+/**
+ * Build an EVM wallet adapter from the selected injected wallet (MetaMask by default)
+ */
+export async function getInjectedEvmWallet(): Promise<EvmWalletAdapter> {
+  return injectedEvmConnector.toAdapter();
+}
+
+/**
+ * Build the payment adapter of the active connector for a network type
+ */
+export async function getConnectedWalletAdapter(
+    networkType: NetworkType
+): Promise<{ evmWallet?: EvmWalletAdapter; svmWallet?: WalletAdapter }> {
+  const connector = connectorRegistry.getActive(networkType);
+  if (!connector) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      message: `Unsupported network type: ${networkType}`,
+      details: {network: networkType},
+    });
+  }
+
+  return connector.networkType === NetworkType.EVM
+      ? {evmWallet: await connector.toAdapter()}
+      : {svmWallet: await connector.toAdapter()};
+}
+
+/**
+ * Re-export for convenience
+ */
+export {getStoredNetworkType as getConnectedNetworkType};
+export {checkManualDisconnect as isWalletManuallyDisconnected};
+export {getCachedWalletAddress, saveWalletAddress, removeWalletAddress};
+export {getAllWalletAddresses} from "../../utils/wallet";
+
@@ -0,0 +1,138 @@
+/**
+ * Balance check against a local node
+ *
+ * Deploys a 6-decimal ERC-20 and runs the INSUFFICIENT_BALANCE and sufficient-balance
+ * paths over real JSON-RPC. Skipped unless ANVIL_RPC_URL is set:
+ *
+ *   anvil &
+ *   ANVIL_RPC_URL=http://127.0.0.1:8545 npm run test:anvil
+ *
+ * Works with any dev node that funds the default test mnemonic (anvil, `npx hardhat node`).
+ */
+
+import {ethers} from "ethers";
+import {beforeAll, describe, expect, it} from "vitest";
+import type {PaymentRequirements} from "x402/types";
+import {createRequirements} from "../../test/fixtures";
+import {PaymentErrorCode, silentLogger} from "../../utils";
+import {assertSufficientErc20Balance, getErc20Balance} from "./balance";
+import {createEvmPaymentHeader} from "./payment-header";
+import {evmAdapterFromEthersSigner} from "./wallet-adapter";
+
+const RPC_URL = process.env.ANVIL_RPC_URL;
+
+// First account of the "test test ... junk" mnemonic, funded by anvil and hardhat
+const DEPLOYER_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+const BALANCE = 1_000_000n; // 1 token at 6 decimals
+
+const TOKEN_SOURCE = `
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+contract TestToken {
+    string public name = "Test USD";
+    string public symbol = "TUSD";
+    uint8 public decimals = 6;
+    mapping(address => uint256) public balanceOf;
+
+    constructor(uint256 supply) {
+        balanceOf[msg.sender] = supply;
+    }
+
+    function transfer(address to, uint256 amount) external returns (bool) {
+        require(balanceOf[msg.sender] >= amount, "insufficient balance");
+        balanceOf[msg.sender] -= amount;
+        balanceOf[to] += amount;
+        return true;
+    }
+}
+`;
+
+async function compileTestToken(): Promise<{ abi: ethers.InterfaceAbi; bytecode: string }> {
+  const {default: solc} = await import("solc");
+  const output = JSON.parse(solc.compile(JSON.stringify({
+    language: "Solidity",
+    sources: {"TestToken.sol": {content: TOKEN_SOURCE}},
+    settings: {
+      evmVersion: "paris",
+      outputSelection: {"*": {"*": ["abi", "evm.bytecode.object"]}},
+    },
+  })));
+  const errors = (output.errors || []).filter((error: any) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: any) => error.formattedMessage).join("\n"));
+  }
+  const contract = output.contracts["TestToken.sol"].TestToken;
+  return {abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}`};
+}
+
+describe.skipIf(!RPC_URL)("EVM balance check (local node)", () => {
+  let provider: ethers.JsonRpcProvider;
+  let payer: ethers.Wallet;
+  let chainId: number;
+  let asset: string;
+
+  function requirement(maxAmountRequired: bigint): PaymentRequirements {
+    return createRequirements({
+      network: "base-sepolia", // Only labels the header; the chain id comes from the node
+      maxAmountRequired: maxAmountRequired.toString(),
+      payTo: ethers.Wallet.createRandom().address,
+      asset,
+      extra: {name: "Test USD", version: "1"},
+    });
+  }
+
+  beforeAll(async () => {
+    provider = new ethers.JsonRpcProvider(RPC_URL);
+    payer = new ethers.Wallet(DEPLOYER_KEY, provider);
+    chainId = Number((await provider.getNetwork()).chainId);
+
+    const {abi, bytecode} = await compileTestToken();
+    const token = await new ethers.ContractFactory(abi, bytecode, payer).deploy(BALANCE);
+    await token.waitForDeployment();
+    asset = await token.getAddress();
+
+    return () => provider.destroy();
+  }, 60_000);
+
+  it("reads the deployed balance", async () => {
+    expect(await getErc20Balance(RPC_URL!, asset, payer.address, chainId)).toBe(BALANCE);
+  });
+
+  it("passes when the balance covers the amount", async () => {
+    await expect(assertSufficientErc20Balance({
+      asset,
+      owner: payer.address,
+      required: BALANCE,
+      chainId,
+      rpcUrl: RPC_URL,
+      logger: silentLogger,
+    })).resolves.toBeUndefined();
+  });
+
+  it("throws INSUFFICIENT_BALANCE when the balance is too low", async () => {
+    await expect(assertSufficientErc20Balance({
+      asset,
+      owner: payer.address,
+      required: BALANCE + 1n,
+      chainId,
+      rpcUrl: RPC_URL,
+      logger: silentLogger,
+    })).rejects.toMatchObject({
+      code: PaymentErrorCode.INSUFFICIENT_BALANCE,
+      details: {required: (BALANCE + 1n).toString(), available: BALANCE.toString()},
+    });
+  });
+
+  it("signs the payment header only when the balance covers the amount", async () => {
+    const wallet = await evmAdapterFromEthersSigner(payer);
+    const params = {wallet, x402Version: 1, chainId, checkBalance: true, rpcUrl: RPC_URL, logger: silentLogger};
+
+    const header = await createEvmPaymentHeader({...params, paymentRequirements: requirement(BALANCE)});
+    expect(JSON.parse(atob(header)).payload.authorization.value).toBe(BALANCE.toString());
+
+    await expect(createEvmPaymentHeader({...params, paymentRequirements: requirement(BALANCE * 2n)}))
+        .rejects.toMatchObject({code: PaymentErrorCode.INSUFFICIENT_BALANCE});
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * EVM Balance Check
+ *
+ * Reads ERC-20 balances over JSON-RPC so insufficient funds are caught
+ * before the user is asked to sign
+ */
+
+import {ethers} from "ethers";
+import type {Logger} from "../../types";
+import {
+  errorFields,
+  getChainByChainId,
+  PaymentErrorCode,
+  PaymentOperationError,
+  raceAbort,
+  resolveLogger,
+} from "../../utils";
+
+const ERC20_BALANCE_ABI = ["function balanceOf(address owner) view returns (uint256)"];
+
+/**
+ * Read an ERC-20 token balance
+ *
+ * @param rpcUrl - JSON-RPC endpoint (e.g. "http://127.0.0.1:8545" for a local anvil node)
+ * @param asset - Token contract address
+ * @param owner - Address to query
+ * @param chainId - Chain ID of the RPC (skips network auto-detection)
+ * @param signal - Rejects with CANCELLED / TIMEOUT as soon as it aborts
+ * @returns Balance in atomic units
+ */
+export async function getErc20Balance(
+    rpcUrl: string,
+    asset: string,
+    owner: string,
+    chainId?: number,
+    signal?: AbortSignal
+): Promise<bigint> {
+  const provider = chainId
+      ? new ethers.JsonRpcProvider(rpcUrl, chainId, {staticNetwork: true})
+      : new ethers.JsonRpcProvider(rpcUrl);
+
+  try {
+    const token = new ethers.Contract(asset, ERC20_BALANCE_ABI, provider);
+    const balance: bigint = await raceAbort(token.balanceOf(owner), signal);
+    return balance;
+  } finally {
+    provider.destroy();
+  }
+}
+
+/**
+ * Throw INSUFFICIENT_BALANCE if `owner` holds less than `required` of `asset`
+ *
+ * RPC failures are logged and ignored - the backend still verifies the payment.
+ * An aborted `signal` rejects with CANCELLED / TIMEOUT without waiting for the RPC.
+ *
+ * @param params.rpcUrl - JSON-RPC endpoint (defaults to the chain registry RPC for chainId)
+ * @param params.logger - Defaults to the SDK logger
+ */
+export async function assertSufficientErc20Balance(params: {
+  asset: string;
+  owner: string;
+  required: bigint;
+  chainId: number;
+  rpcUrl?: string;
+  signal?: AbortSignal;
+  logger?: Logger;
+}): Promise<void> {
+  const {asset, owner, required, chainId, signal} = params;
+  const log = resolveLogger(params.logger);
+  const rpcUrl = params.rpcUrl || getChainByChainId(chainId)?.rpcUrls[0];
+
+  if (!rpcUrl) {
+    log.warn('No RPC URL for chain, skipping balance check', {chainId});
+    return;
+  }
+
+  let available: bigint;
+  try {
+    available = await getErc20Balance(rpcUrl, asset, owner, chainId, signal);
+  } catch (error) {
+    // 取消 / 超时不是 RPC 故障，直接向上抛出
+    if (signal?.aborted) {
+      throw error;
+    }
+    log.warn('Could not check token balance, continuing', errorFields(error, {chainId}));
+    return;
+  }
+
+  if (available < required) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.INSUFFICIENT_BALANCE,
+      message: `Insufficient balance: required ${required}, available ${available}`,
+      // Decimal strings, so the error stays JSON-serializable
+      details: {required: required.toString(), available: available.toString(), asset, owner, chainId},
+    });
+  }
+
+  log.debug('Balance verified', {available: available.toString(), required: required.toString()});
+}
@@ -10,9 +10,29 @@ export {
     getChainIdFromNetwork,
 } from "./payment-header";
 
+// Balance check
+export {
+    getErc20Balance,
+    assertSufficientErc20Balance,
+} from "./balance";
+
+// Token metadata
+export {
+    getErc20Metadata,
+} from "./token-metadata";
+
+// Wallet adapters
+export {
+    evmAdapterFromEip1193,
+    evmAdapterFromEthersSigner,
+    evmAdapterFromViemWalletClient,
+    type ViemWalletClientLike,
+} from "./wallet-adapter";
+
 // High-level API: Automatic payment handling
 export {
     handleEvmPayment,
     createEvmPaymentFetch,
+    executeEvmPayment,
 } from "./payment-handler";
 
@@ -0,0 +1,99 @@
+import {describe, expect, it, vi} from "vitest";
+import {NetworkType} from "../../types";
+import type {EvmWalletAdapter} from "../../types";
+import {createPaymentFetch, createRequirements} from "../../test/fixtures";
+import {PaymentErrorCode, registerChain, silentLogger} from "../../utils";
+import {executeEvmPayment, handleEvmPayment} from "./payment-handler";
+
+const ENDPOINT = "https://api.example.com/protected";
+
+// No getChainId/switchChain: skips the chain checks, signs with a fixed signature
+const wallet: EvmWalletAdapter = {
+  address: "0x857b06519E91e3A54538791bDbb0E22373e36b66",
+  signTypedData: async () => `0x${"11".repeat(65)}`,
+};
+
+const requirements = createRequirements({
+  network: "base-sepolia",
+  extra: {name: "USDC", version: "2"},
+});
+
+function pay(retry: () => Response) {
+  const hooks = {settled: vi.fn(), failed: vi.fn()};
+  const result = executeEvmPayment(ENDPOINT, {
+    wallet,
+    paymentRequirements: requirements,
+    x402Version: 1,
+    fetch: createPaymentFetch([requirements], retry),
+    hooks,
+    logger: silentLogger,
+  });
+  return {result, hooks};
+}
+
+describe("executeEvmPayment", () => {
+  it("emits settled for a 2xx retry", async () => {
+    const {result, hooks} = pay(() => new Response("paid", {status: 200}));
+
+    const {response} = await result;
+    expect(response.status).toBe(200);
+    expect(hooks.settled).toHaveBeenCalledOnce();
+    expect(hooks.failed).not.toHaveBeenCalled();
+  });
+
+  it("fails with SETTLEMENT_FAILED when the paid request errors", async () => {
+    const {result, hooks} = pay(() => new Response("boom", {status: 500}));
+
+    await expect(result).rejects.toMatchObject({
+      code: PaymentErrorCode.SETTLEMENT_FAILED,
+      details: {status: 500},
+    });
+    expect(hooks.settled).not.toHaveBeenCalled();
+    expect(hooks.failed).toHaveBeenCalledOnce();
+  });
+
+  it("fails with VERIFICATION_FAILED when the retry is still a 402 without a reason", async () => {
+    const {result, hooks} = pay(() => new Response(JSON.stringify({x402Version: 1, accepts: []}), {status: 402}));
+
+    await expect(result).rejects.toMatchObject({code: PaymentErrorCode.VERIFICATION_FAILED});
+    expect(hooks.settled).not.toHaveBeenCalled();
+    expect(hooks.failed).toHaveBeenCalledOnce();
+  });
+});
+
+describe("handleEvmPayment", () => {
+  it("pays on a network outside the built-in list once it is registered", async () => {
+    registerChain({
+      network: "handler-test-chain",
+      type: NetworkType.EVM,
+      chainId: 999_002,
+      displayName: "Handler Test Chain",
+      rpcUrls: ["http://127.0.0.1:8545"],
+      nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
+    });
+    const custom = createRequirements({network: "handler-test-chain", extra: {name: "USDC", version: "2"}});
+
+    const {response} = await handleEvmPayment(ENDPOINT, {
+      wallet,
+      network: "handler-test-chain",
+      fetch: createPaymentFetch([custom]),
+      logger: silentLogger,
+    });
+    expect(response.status).toBe(200);
+  });
+
+  it("fails with UNSUPPORTED_NETWORK before any request for an unknown network", async () => {
+    const fetchFn = createPaymentFetch([requirements]);
+    const failed = vi.fn();
+
+    await expect(handleEvmPayment(ENDPOINT, {
+      wallet,
+      network: "not-a-chain",
+      fetch: fetchFn,
+      hooks: {failed},
+      logger: silentLogger,
+    })).rejects.toMatchObject({code: PaymentErrorCode.UNSUPPORTED_NETWORK});
+    expect(fetchFn.calls).toHaveLength(0);
+    expect(failed).toHaveBeenCalledOnce();
+  });
+});
@@ -5,11 +5,27 @@
  * Use this for the simplest integration - just provide wallet and endpoint
  */
 
-import type {EvmClientConfig} from "../../types";
-import {EvmNetworkSchema} from "../../types";
+import type {ExecuteEvmPaymentParams, EvmClientConfig, PaymentResult} from "../../types";
 import type {PaymentRequirements, x402Response} from "x402/types";
 import {createEvmPaymentHeader, getChainIdFromNetwork} from "./payment-header";
-import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "../../utils";
+import {
+  confirmBeforeSign,
+  emitPaymentEvent,
+  errorFields,
+  getChainDisplayName,
+  getNetworkDisplayName,
+  getPaymentSettlement,
+  getRetryResponseError,
+  isEvmNetwork,
+  mapPaymentErrorReason,
+  PaymentOperationError,
+  resolveLogger,
+  throwIfAborted,
+  trackPaymentFailure,
+  withPaymentAbort,
+  wrapChainSwitchError,
+  wrapPaymentError,
+} from "../../utils";
 
 /**
  * Handle EVM payment with automatic x402 flow
@@ -17,7 +33,7 @@ import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "../../u
  * @param endpoint - API endpoint that requires x402 payment
  * @param config - EVM client configuration
  * @param requestInit - Optional fetch RequestInit options
- * @returns Response from the endpoint after successful payment
+ * @returns Endpoint response plus the decoded settlement from X-PAYMENT-RESPONSE
  *
  * @example
  * ```typescript
@@ -25,7 +41,7 @@ import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "../../u
  * const provider = new ethers.BrowserProvider(window.ethereum);
  * const signer = await provider.getSigner();
  *
- * const response = await handleEvmPayment(
+ * const {response, settlement} = await handleEvmPayment(
  *   "https://api.example.com/protected",
  *   {
  *     wallet: {
@@ -33,7 +49,10 @@ import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "../../u
  *       signTypedData: (domain, types, message) =>
  *         signer.signTypedData(domain, types, message)
  *     },
- *     network: "base-sepolia"
+ *     network: "base-sepolia",
+ *     signal: abortController.signal, // cancel when the user closes the modal
+ *     timeoutMs: 120_000,
+ *     hooks: {signed: () => setStep("Submitting payment...")}
  *   }
  * );
  * ```
@@ -42,18 +61,40 @@ export async function handleEvmPayment(
     endpoint: string,
     config: EvmClientConfig,
     requestInit?: RequestInit
-): Promise<Response> {
-  const {wallet, network, maxPaymentAmount} = config;
+): Promise<PaymentResult> {
+  const {signal, timeoutMs, hooks} = config;
+
+  return trackPaymentFailure(hooks, endpoint, () => withPaymentAbort(
+      {signal: signal || requestInit?.signal || undefined, timeoutMs},
+      (abortSignal) => payEvmEndpoint(endpoint, config, requestInit, abortSignal)
+  ));
+}
+
+/**
+ * Full EVM flow for handleEvmPayment, running under an already combined signal
+ */
+async function payEvmEndpoint(
+    endpoint: string,
+    config: EvmClientConfig,
+    requestInit: RequestInit | undefined,
+    signal: AbortSignal | undefined
+): Promise<PaymentResult> {
+  const {wallet, network, maxPaymentAmount, fetch: fetchFn = fetch, checkBalance, rpcUrl, hooks, logger} = config;
+  const log = resolveLogger(logger);
+
+  // Fails with UNSUPPORTED_NETWORK before any request if the network is not a registered EVM chain
+  getChainIdFromNetwork(network);
 
   // 1. Make initial request
-  const initialResponse = await fetch(endpoint, {
+  const initialResponse = await fetchFn(endpoint, {
     ...requestInit,
     method: requestInit?.method || "POST",
+    signal,
   });
 
   // If not 402, return as-is
   if (initialResponse.status !== 402) {
-    return initialResponse;
+    return {response: initialResponse, settlement: null};
   }
 
   // 2. Parse payment requirements from 402 response
@@ -61,53 +102,102 @@ export async function handleEvmPayment(
 
   // 3. Check if backend returned an error (e.g., insufficient_funds after signature)
   // Skip errors that are part of normal 402 flow (initial request without X-PAYMENT)
-  const IGNORED_ERRORS = [
-    'X-PAYMENT header is required',
-    'missing X-PAYMENT header',
-    'payment_required',
-  ];
-  
-  if (rawResponse.error && !IGNORED_ERRORS.includes(rawResponse.error)) {
-    console.error(`❌ Payment verification failed: ${rawResponse.error}`);
-    
-    // Map backend error codes to user-friendly messages
-    const ERROR_MESSAGES: Record<string, string> = {
-      'insufficient_funds': 'Insufficient balance to complete this payment',
-      'invalid_signature': 'Invalid payment signature',
-      'expired': 'Payment authorization has expired',
-      'already_used': 'This payment has already been used',
-      'network_mismatch': 'Payment network does not match',
-      'invalid_payment': 'Invalid payment data',
-      'verification_failed': 'Payment verification failed',
-    };
-    
-    const errorMessage = ERROR_MESSAGES[rawResponse.error] || 
-                        `Payment failed: ${rawResponse.error}`;
-    
-    const error = new Error(errorMessage);
-    throw wrapPaymentError(error);
+  const rejection = mapPaymentErrorReason(rawResponse.error);
+  if (rejection) {
+    log.error('Payment verification failed', {reason: rawResponse.error, code: rejection.code});
+    throw rejection;
   }
 
   const x402Version: number = rawResponse.x402Version;
   const parsedPaymentRequirements: PaymentRequirements[] = rawResponse.accepts || [];
+  await emitPaymentEvent(hooks, 'requirementsReceived', {endpoint, x402Version, accepts: parsedPaymentRequirements});
 
   // 4. Select suitable payment requirement for EVM
   const selectedRequirements = parsedPaymentRequirements.find(
       (req: PaymentRequirements) =>
-          req.scheme === "exact" &&
-          EvmNetworkSchema.safeParse(req.network.toLowerCase()).success
+          req.scheme === "exact" && isEvmNetwork(req.network)
   );
 
 
   if (!selectedRequirements) {
-    console.error(
-        "❌ No suitable EVM payment requirements found. Available networks:",
-        parsedPaymentRequirements.map((req) => req.network)
-    );
+    log.error('No suitable EVM payment requirements found', {
+      networks: parsedPaymentRequirements.map((req) => req.network),
+    });
     throw new Error("No suitable EVM payment requirements found");
   }
+  await emitPaymentEvent(hooks, 'requirementSelected', {
+    endpoint,
+    requirements: selectedRequirements,
+    candidates: parsedPaymentRequirements.filter((req) => req.scheme === "exact" && isEvmNetwork(req.network)),
+  });
+
+  // 5. Pay the selected requirement
+  return payEvmRequirement(
+    endpoint,
+    {
+        wallet,
+        paymentRequirements: selectedRequirements,
+        x402Version,
+        maxPaymentAmount,
+        fetch: fetchFn,
+        checkBalance,
+        rpcUrl,
+        hooks,
+        logger,
+      },
+    requestInit,
+    signal
+  );
+}
+
+/**
+ * Pay a specific EVM payment requirement and retry the request
+ *
+ * Use this when the 402 response has already been fetched and a requirement
+ * selected (e.g. by handleX402Payment). Handles amount limits, chain switching,
+ * header creation and the paid retry.
+ *
+ * @param endpoint - API endpoint that requires x402 payment
+ * @param params - Wallet, selected requirement and x402 version
+ * @param requestInit - Optional fetch RequestInit options
+ * @returns Endpoint response plus the decoded settlement from X-PAYMENT-RESPONSE
+ */
+export async function executeEvmPayment(
+    endpoint: string,
+    params: ExecuteEvmPaymentParams,
+    requestInit?: RequestInit
+): Promise<PaymentResult> {
+  const {signal, timeoutMs, hooks} = params;
 
-  // 5. Check amount against max value if specified
+  return trackPaymentFailure(hooks, endpoint, () => withPaymentAbort(
+      {signal: signal || requestInit?.signal || undefined, timeoutMs},
+      (abortSignal) => payEvmRequirement(endpoint, params, requestInit, abortSignal)
+  ));
+}
+
+/**
+ * Pay flow for executeEvmPayment, running under an already combined signal
+ */
+async function payEvmRequirement(
+    endpoint: string,
+    params: ExecuteEvmPaymentParams,
+    requestInit: RequestInit | undefined,
+    signal: AbortSignal | undefined
+): Promise<PaymentResult> {
+  const {
+    wallet,
+    paymentRequirements: selectedRequirements,
+    x402Version,
+    maxPaymentAmount,
+    fetch: fetchFn = fetch,
+    checkBalance,
+    rpcUrl,
+    hooks,
+    logger,
+  } = params;
+  const log = resolveLogger(logger);
+
+  // 1. Check amount against max value if specified
   if (maxPaymentAmount && maxPaymentAmount > BigInt(0)) {
     if (BigInt(selectedRequirements.maxAmountRequired) > maxPaymentAmount) {
       throw new Error(
@@ -116,37 +206,27 @@ export async function handleEvmPayment(
     }
   }
 
-  // 6. Get target chain ID
+  // 2. Get target chain ID
   const targetChainId = getChainIdFromNetwork(selectedRequirements.network);
 
-  // 7. Get current wallet chainId (if wallet provides it)
+  // 3. Get current wallet chainId (if wallet provides it)
   let currentChainId: number | undefined;
   if (wallet.getChainId) {
     try {
       const chainIdHex = await wallet.getChainId();
       currentChainId = parseInt(chainIdHex, 16);
-      console.log(`📍 Current wallet chain: ${currentChainId}`);
+      log.debug('Current wallet chain', {chainId: currentChainId});
     } catch (error) {
-      console.warn("⚠️ Failed to get current chainId:", error);
+      log.warn('Failed to get current chainId', errorFields(error));
     }
   }
 
-  // 8. Switch chain if needed
-  const networkNames: Record<number, string> = {
-    1: 'Ethereum Mainnet',
-    11155111: 'Sepolia Testnet',
-    8453: 'Base Mainnet',
-    84532: 'Base Sepolia Testnet',
-    137: 'Polygon Mainnet',
-    42161: 'Arbitrum One',
-    10: 'Optimism Mainnet',
-  };
-
+  // 4. Switch chain if needed
   // If we know current chainId and it doesn't match, we MUST switch
   if (currentChainId && currentChainId !== targetChainId) {
     if (!wallet.switchChain) {
-      const currentNetworkName = networkNames[currentChainId] || `Chain ${currentChainId}`;
-      const targetNetworkName = networkNames[targetChainId] || selectedRequirements.network;
+      const currentNetworkName = getChainDisplayName(currentChainId);
+      const targetNetworkName = getNetworkDisplayName(selectedRequirements.network);
 
       const error = new Error(
         `Network mismatch: Your wallet is connected to ${currentNetworkName}, ` +
@@ -155,49 +235,39 @@ export async function handleEvmPayment(
       throw wrapPaymentError(error);
     }
 
+    await emitPaymentEvent(hooks, 'chainSwitchRequested', {
+      network: selectedRequirements.network,
+      fromChainId: currentChainId,
+      toChainId: targetChainId,
+    });
     try {
-      console.log(`🔄 Switching to chain ${targetChainId}...`);
+      log.debug('Switching chain', {chainId: targetChainId});
       await wallet.switchChain(`0x${targetChainId.toString(16)}`);
-      console.log(`✅ Successfully switched to chain ${targetChainId}`);
+      log.debug('Switched chain', {chainId: targetChainId});
     } catch (error: any) {
-      console.error('❌ Failed to switch chain:', error);
-
-      const targetNetworkName = networkNames[targetChainId] || selectedRequirements.network;
-      const wrappedError = wrapPaymentError(error);
-
-      // Create new error with better message for network switch failure
-      let finalError: PaymentOperationError;
-      if (wrappedError.code === PaymentErrorCode.USER_REJECTED) {
-        finalError = new PaymentOperationError({
-          code: wrappedError.code,
-          message: wrappedError.message,
-          userMessage: `You rejected the network switch request. Please switch to ${targetNetworkName} manually.`,
-          originalError: wrappedError.originalError,
-        });
-      } else {
-        finalError = new PaymentOperationError({
-          code: PaymentErrorCode.NETWORK_SWITCH_FAILED,
-          message: wrappedError.message,
-          userMessage: `Failed to switch to ${targetNetworkName}. Please switch manually in your wallet.`,
-          originalError: wrappedError.originalError,
-        });
-      }
+      log.error('Failed to switch chain', errorFields(error, {chainId: targetChainId}));
 
-      throw finalError;
+      throw wrapChainSwitchError(error, getNetworkDisplayName(selectedRequirements.network));
     }
   } else if (wallet.switchChain && !currentChainId) {
     // Try to switch even if we don't know current chain (best effort)
+    await emitPaymentEvent(hooks, 'chainSwitchRequested', {
+      network: selectedRequirements.network,
+      toChainId: targetChainId,
+    });
     try {
-      console.log(`🔄 Attempting to switch to chain ${targetChainId}...`);
+      log.debug('Attempting chain switch', {chainId: targetChainId});
       await wallet.switchChain(`0x${targetChainId.toString(16)}`);
-      console.log(`✅ Switch attempted successfully`);
+      log.debug('Chain switch attempted', {chainId: targetChainId});
     } catch (error) {
-      console.warn("⚠️ Failed to switch chain (best effort):", error);
+      log.warn('Failed to switch chain (best effort)', errorFields(error, {chainId: targetChainId}));
       // Continue anyway - wallet might already be on correct chain
     }
   }
 
-  // 9. Create payment header with error handling
+  // 5. Create payment header with error handling
+  await confirmBeforeSign(hooks, {endpoint, requirements: selectedRequirements, payer: wallet.address});
+  throwIfAborted(signal);
   let paymentHeader: string;
   try {
     paymentHeader = await createEvmPaymentHeader({
@@ -205,16 +275,24 @@ export async function handleEvmPayment(
       paymentRequirements: selectedRequirements,
       x402Version,
       chainId: targetChainId,
+      checkBalance,
+      rpcUrl,
+      signal,
+      logger,
     });
   } catch (error: any) {
-    console.error('❌ Failed to create payment header:', error);
+    log.error('Failed to create payment header', errorFields(error));
     throw wrapPaymentError(error);
   }
 
-  // 10. Retry with payment header
+  await emitPaymentEvent(hooks, 'signed', {endpoint, requirements: selectedRequirements, paymentHeader});
+
+  // 6. Retry with payment header (unless cancelled while the wallet was signing)
+  throwIfAborted(signal);
   const newInit = {
     ...requestInit,
     method: requestInit?.method || "POST",
+    signal,
     headers: {
       ...(requestInit?.headers || {}),
       "X-PAYMENT": paymentHeader,
@@ -222,51 +300,48 @@ export async function handleEvmPayment(
     },
   };
 
-  const retryResponse = await fetch(endpoint, newInit);
+  await emitPaymentEvent(hooks, 'retrySent', {endpoint, requirements: selectedRequirements});
+  const retryResponse = await fetchFn(endpoint, newInit);
   
-  // 11. Check if retry still returned 402 with error (e.g., verification failed)
+  // 7. Check if retry still returned 402 with error (e.g., verification failed)
   if (retryResponse.status === 402) {
     try {
       const retryData = await retryResponse.json();
       
       // Skip normal 402 errors (shouldn't happen at this point, but be safe)
-      const IGNORED_ERRORS = [
-        'X-PAYMENT header is required',
-        'missing X-PAYMENT header',
-        'payment_required',
-      ];
-      
-      if (retryData.error && !IGNORED_ERRORS.includes(retryData.error)) {
-        console.error(`❌ Payment verification failed: ${retryData.error}`);
-        
-        // Map backend error codes to user-friendly messages
-        const ERROR_MESSAGES: Record<string, string> = {
-          'insufficient_funds': 'Insufficient balance to complete this payment',
-          'invalid_signature': 'Invalid payment signature',
-          'expired': 'Payment authorization has expired',
-          'already_used': 'This payment has already been used',
-          'network_mismatch': 'Payment network does not match',
-          'invalid_payment': 'Invalid payment data',
-          'verification_failed': 'Payment verification failed',
-        };
-        
-        const errorMessage = ERROR_MESSAGES[retryData.error] || 
-                            `Payment failed: ${retryData.error}`;
-        
-        const error = new Error(errorMessage);
-        throw wrapPaymentError(error);
+      const rejection = mapPaymentErrorReason(retryData.error);
+      if (rejection) {
+        log.error('Payment verification failed', {reason: retryData.error, code: rejection.code});
+        throw rejection;
       }
     } catch (error: any) {
       // If error is already wrapped, re-throw it
       if (error instanceof PaymentOperationError) {
         throw error;
       }
-      // Otherwise it's a JSON parse error, just return the response
-      console.warn('⚠️ Could not parse retry 402 response:', error);
+      // Otherwise it's a JSON parse error, handled by the status check below
+      log.warn('Could not parse retry 402 response', errorFields(error));
     }
   }
   
-  return retryResponse;
+  // 8. Only a 2xx response settles the payment; anything else is reported through `failed`
+  if (!retryResponse.ok) {
+    log.error('Paid request failed', {status: retryResponse.status});
+    throw getRetryResponseError(retryResponse);
+  }
+
+  const settlement = getPaymentSettlement(retryResponse);
+  await emitPaymentEvent(hooks, 'settled', {
+    endpoint,
+    requirements: selectedRequirements,
+    response: retryResponse,
+    settlement,
+  });
+
+  return {
+    response: retryResponse,
+    settlement,
+  };
 }
 
 /**
@@ -289,7 +364,8 @@ export function createEvmPaymentFetch(
 ): typeof fetch {
   return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const endpoint = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-    return handleEvmPayment(endpoint, config, init);
+    const {response} = await handleEvmPayment(endpoint, config, init);
+    return response;
   };
 }
 
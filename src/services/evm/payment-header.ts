@@ -7,7 +7,15 @@
 
 import {ethers} from "ethers";
 import type {CreateEvmPaymentHeaderParams} from "../../types";
-import {wrapPaymentError} from "../../utils";
+import {getChainId} from "../../types";
+import {
+  errorFields,
+  getChainDisplayName,
+  resolveLogger,
+  throwIfAborted,
+  wrapPaymentError,
+} from "../../utils";
+import {assertSufficientErc20Balance} from "./balance";
 
 /**
  * Create X-PAYMENT header for EVM payment (EIP-3009 format)
@@ -35,7 +43,8 @@ import {wrapPaymentError} from "../../utils";
 export async function createEvmPaymentHeader(
     params: CreateEvmPaymentHeaderParams
 ): Promise<string> {
-  const {wallet, paymentRequirements, x402Version, chainId} = params;
+  const {wallet, paymentRequirements, x402Version, chainId, checkBalance, rpcUrl, signal, logger} = params;
+  const log = resolveLogger(logger);
 
   if (!paymentRequirements?.payTo) {
     throw new Error("Missing payTo in payment requirements");
@@ -52,18 +61,8 @@ export async function createEvmPaymentHeader(
       const currentChainId = parseInt(currentChainIdHex, 16);
 
       if (currentChainId !== chainId) {
-        const networkNames: Record<number, string> = {
-          1: 'Ethereum Mainnet',
-          11155111: 'Sepolia Testnet',
-          8453: 'Base Mainnet',
-          84532: 'Base Sepolia Testnet',
-          137: 'Polygon Mainnet',
-          42161: 'Arbitrum One',
-          10: 'Optimism Mainnet',
-        };
-
-        const currentNetworkName = networkNames[currentChainId] || `Chain ${currentChainId}`;
-        const targetNetworkName = networkNames[chainId] || `Chain ${chainId}`;
+        const currentNetworkName = getChainDisplayName(currentChainId);
+        const targetNetworkName = getChainDisplayName(chainId);
 
         throw new Error(
           `Network mismatch: Your wallet is connected to ${currentNetworkName}, ` +
@@ -71,17 +70,30 @@ export async function createEvmPaymentHeader(
         );
       }
 
-      console.log(`✅ Chain ID verified: ${chainId}`);
+      log.debug('Chain ID verified', {chainId});
     } catch (error: any) {
       // If it's our own error, re-throw with better handling
       if (error.message.includes('Network mismatch')) {
         throw wrapPaymentError(error);
       }
       // Otherwise just log and continue
-      console.warn("Could not verify chainId:", error);
+      log.warn('Could not verify chainId', errorFields(error));
     }
   }
 
+  // Check token balance before asking for a signature (optional)
+  if (checkBalance) {
+    await assertSufficientErc20Balance({
+      asset: paymentRequirements.asset,
+      owner: wallet.address,
+      required: BigInt(paymentRequirements.maxAmountRequired),
+      chainId,
+      rpcUrl,
+      signal,
+      logger,
+    });
+  }
+
   // Get current timestamp (seconds)
   const now = Math.floor(Date.now() / 1000);
 
@@ -119,13 +131,14 @@ export async function createEvmPaymentHeader(
     nonce: nonceBytes32,
   };
 
-  // Sign typed data with error handling
+  // Sign typed data with error handling (never prompt for a cancelled payment)
+  throwIfAborted(signal);
   let signature: string;
   try {
     signature = await wallet.signTypedData(domain, types, authorization);
-    console.log('✅ Signature created successfully');
+    log.debug('Signature created');
   } catch (error: any) {
-    console.error('❌ Failed to create signature:', error);
+    log.error('Failed to create signature', errorFields(error));
     throw wrapPaymentError(error);
   }
 
@@ -158,23 +171,9 @@ export async function createEvmPaymentHeader(
 
 /**
  * Get chain ID from network name
+ *
+ * @throws PaymentOperationError (UNSUPPORTED_NETWORK) if the network is not a registered EVM chain
  */
 export function getChainIdFromNetwork(network: string): number {
-  const chainIdMap: Record<string, number> = {
-    'ethereum': 1,
-    'sepolia': 11155111,
-    'base': 8453,
-    'base-sepolia': 84532,
-    'polygon': 137,
-    'arbitrum': 42161,
-    'optimism': 10,
-  };
-
-  const chainId = chainIdMap[network.toLowerCase()];
-  if (!chainId) {
-    throw new Error(`Unknown network: ${network}`);
-  }
-
-  return chainId;
+  return getChainId(network);
 }
-
@@ -0,0 +1,50 @@
+/**
+ * EVM Token Metadata
+ *
+ * Reads ERC-20 decimals(), symbol() and name() over JSON-RPC
+ */
+
+import {ethers} from "ethers";
+import type {TokenInfo} from "../../types";
+
+const ERC20_METADATA_ABI = [
+  "function decimals() view returns (uint8)",
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+];
+
+/**
+ * Read ERC-20 token metadata
+ *
+ * @param rpcUrl - JSON-RPC endpoint
+ * @param asset - Token contract address
+ * @param chainId - Chain ID of the RPC (skips network auto-detection)
+ * @returns Token info (symbol / name are optional on-chain, so they may be missing)
+ */
+export async function getErc20Metadata(
+    rpcUrl: string,
+    asset: string,
+    chainId?: number
+): Promise<TokenInfo> {
+  const provider = chainId
+      ? new ethers.JsonRpcProvider(rpcUrl, chainId, {staticNetwork: true})
+      : new ethers.JsonRpcProvider(rpcUrl);
+
+  try {
+    const token = new ethers.Contract(asset, ERC20_METADATA_ABI, provider);
+    const [decimals, symbol, name] = await Promise.all([
+      token.decimals(),
+      token.symbol().catch(() => undefined),
+      token.name().catch(() => undefined),
+    ]);
+
+    return {
+      address: asset,
+      decimals: Number(decimals),
+      symbol: symbol || '',
+      name: name || undefined,
+    };
+  } finally {
+    provider.destroy();
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * EVM Wallet Adapters
+ *
+ * Build an EvmWalletAdapter from an EIP-1193 provider, an ethers signer or a viem wallet client
+ */
+
+import {ethers} from "ethers";
+import {getEvmNetworkConfig} from "../../types";
+import type {Eip1193Provider, EvmWalletAdapter} from "../../types";
+import {PaymentErrorCode, PaymentOperationError} from "../../utils/payment-error-handler";
+import {getChainByChainId} from "../../utils/chain-registry";
+import {getChainDisplayName} from "../../utils/network";
+
+// EIP-1193 / MetaMask: the requested chain has not been added to the wallet
+const UNRECOGNIZED_CHAIN_ERROR = 4902;
+
+/**
+ * The parts of a viem WalletClient used by the adapter
+ *
+ * Typed structurally so viem stays an optional dependency.
+ */
+export interface ViemWalletClientLike {
+  account?: { address: string };
+  getAddresses: () => Promise<readonly string[]>;
+  getChainId: () => Promise<number>;
+  signTypedData: (args: {
+    account: any;
+    domain: any;
+    types: any;
+    primaryType: string;
+    message: any;
+  }) => Promise<string>;
+  switchChain?: (args: { id: number }) => Promise<void>;
+}
+
+function toHexChainId(chainId: bigint | number | string): string {
+  return `0x${BigInt(chainId).toString(16)}`;
+}
+
+function missingAddress(): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+    message: 'Wallet returned no accounts',
+    messageKey: 'error.NO_WALLET_ADDRESS',
+  });
+}
+
+function isUnrecognizedChain(error: any): boolean {
+  const codes = [
+    error?.code,
+    error?.data?.originalError?.code, // MetaMask mobile
+    error?.info?.error?.code, // ethers BrowserProvider.send
+  ];
+  return codes.includes(UNRECOGNIZED_CHAIN_ERROR);
+}
+
+/**
+ * Switch chain, adding it to the wallet first when the wallet does not know it (4902)
+ *
+ * The wallet_addEthereumChain parameters come from the chain registry (see registerChain).
+ */
+async function switchOrAddChain(provider: Eip1193Provider, chainId: string): Promise<void> {
+  try {
+    await provider.request({method: 'wallet_switchEthereumChain', params: [{chainId}]});
+    return;
+  } catch (error) {
+    if (!isUnrecognizedChain(error)) {
+      throw error;
+    }
+  }
+
+  const numericChainId = Number(BigInt(chainId));
+  const chain = getChainByChainId(numericChainId);
+  const config = chain ? getEvmNetworkConfig(chain.network) : undefined;
+  if (!config) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      message: `Chain ${numericChainId} is not added to the wallet and has no known configuration, register it with registerChain()`,
+      messageKey: 'error.CHAIN_NOT_CONFIGURED',
+      details: {network: getChainDisplayName(numericChainId)},
+    });
+  }
+
+  await provider.request({method: 'wallet_addEthereumChain', params: [config]});
+  // Some wallets switch on add, others need asking again
+  await provider.request({method: 'wallet_switchEthereumChain', params: [{chainId}]});
+}
+
+// viem needs primaryType; the payment header passes a single struct besides EIP712Domain
+function getPrimaryType(types: Record<string, unknown>): string {
+  const primaryType = Object.keys(types).find(name => name !== 'EIP712Domain');
+  if (!primaryType) {
+    throw new Error("EIP-712 types have no primary type");
+  }
+  return primaryType;
+}
+
+/**
+ * Create an EVM wallet adapter from an EIP-1193 provider
+ *
+ * Requests account access, signs with eth_signTypedData_v4 and reads / switches
+ * the chain through the provider itself. Chains the wallet does not know are added
+ * from the chain registry before switching.
+ *
+ * @param provider - EIP-1193 provider such as window.ethereum
+ *
+ * @example
+ * ```typescript
+ * const evmWallet = await evmAdapterFromEip1193(window.ethereum);
+ * await handleEvmPayment(endpoint, {wallet: evmWallet, network: 'base'});
+ * ```
+ */
+export async function evmAdapterFromEip1193(provider: Eip1193Provider): Promise<EvmWalletAdapter> {
+  const browserProvider = new ethers.BrowserProvider(provider);
+  const signer = await browserProvider.getSigner();
+  const address = await signer.getAddress();
+
+  return {
+    address,
+    signTypedData: (domain, types, message) => signer.signTypedData(domain, types, message),
+    // Ask the provider directly: BrowserProvider caches the network it first saw
+    getChainId: async () => toHexChainId(await provider.request({method: 'eth_chainId'})),
+    switchChain: (chainId: string) => switchOrAddChain(provider, chainId),
+  };
+}
+
+/**
+ * Create an EVM wallet adapter from an ethers v6 signer
+ *
+ * Signers backed by a browser wallet (BrowserProvider) can switch chains;
+ * other signers (e.g. `new Wallet(key, provider)`) are fixed to their provider's chain.
+ *
+ * @param signer - ethers Signer connected to a provider
+ *
+ * @example
+ * ```typescript
+ * const signer = new ethers.Wallet(privateKey, new ethers.JsonRpcProvider(rpcUrl));
+ * const evmWallet = await evmAdapterFromEthersSigner(signer);
+ * ```
+ */
+export async function evmAdapterFromEthersSigner(signer: ethers.Signer): Promise<EvmWalletAdapter> {
+  const address = await signer.getAddress();
+  const provider = signer.provider;
+
+  const adapter: EvmWalletAdapter = {
+    address,
+    signTypedData: (domain, types, message) => signer.signTypedData(domain, types, message),
+  };
+
+  if (provider instanceof ethers.BrowserProvider) {
+    adapter.getChainId = async () => toHexChainId(await provider.send('eth_chainId', []));
+    const request: Eip1193Provider = {
+      request: ({method, params}) => provider.send(method, (params as unknown[]) || []),
+    };
+    adapter.switchChain = (chainId: string) => switchOrAddChain(request, chainId);
+  } else if (provider) {
+    adapter.getChainId = async () => toHexChainId((await provider.getNetwork()).chainId);
+  }
+
+  return adapter;
+}
+
+/**
+ * Create an EVM wallet adapter from a viem WalletClient
+ *
+ * Uses the client's account, or its first address when no account is hoisted.
+ *
+ * @param client - viem WalletClient (e.g. `createWalletClient({transport: custom(window.ethereum)})`)
+ *
+ * @example
+ * ```typescript
+ * const client = createWalletClient({account, chain: base, transport: custom(window.ethereum)});
+ * const evmWallet = await evmAdapterFromViemWalletClient(client);
+ * ```
+ */
+export async function evmAdapterFromViemWalletClient(client: ViemWalletClientLike): Promise<EvmWalletAdapter> {
+  const account = client.account || (await client.getAddresses())[0];
+  const address = typeof account === 'string' ? account : account?.address;
+  if (!address) {
+    throw missingAddress();
+  }
+
+  const adapter: EvmWalletAdapter = {
+    address,
+    signTypedData: (domain, types, message) => client.signTypedData({
+      account,
+      domain,
+      types,
+      primaryType: getPrimaryType(types),
+      message,
+    }),
+    getChainId: async () => toHexChainId(await client.getChainId()),
+  };
+
+  if (client.switchChain) {
+    const switchChain = client.switchChain.bind(client);
+    adapter.switchChain = async (chainId: string) => {
+      await switchChain({id: Number(BigInt(chainId))});
+    };
+  }
+
+  return adapter;
+}
@@ -6,7 +6,8 @@
  * ## Usage Patterns
  *
  * ### Pattern 1: High-level API (Recommended for most users)
- * Use `handleSvmPayment` or `handleEvmPayment` for automatic payment flow
+ * Use `handleX402Payment` to pay on whichever chain your wallets support,
+ * or `handleSvmPayment` / `handleEvmPayment` for a single chain
  *
  * ### Pattern 2: Low-level API (Advanced users)
  * Use `createSvmPaymentHeader` or `createEvmPaymentHeader` to build headers
@@ -20,10 +21,16 @@ export {
   // High-level API
   handleSvmPayment,
   createSvmPaymentFetch,
+  executeSvmPayment,
 
   // Low-level API
   createSvmPaymentHeader,
   getDefaultSolanaRpcUrl,
+  getSplTokenMetadata,
+
+  // Wallet adapters
+  svmAdapterFromKeypair,
+  svmAdapterFromStandardWallet,
 } from "./svm";
 
 // ============================================
@@ -33,12 +40,53 @@ export {
   // High-level API
   handleEvmPayment,
   createEvmPaymentFetch,
+  executeEvmPayment,
 
   // Low-level API
   createEvmPaymentHeader,
   getChainIdFromNetwork,
+  getErc20Balance,
+  assertSufficientErc20Balance,
+  getErc20Metadata,
+
+  // Wallet adapters
+  evmAdapterFromEip1193,
+  evmAdapterFromEthersSigner,
+  evmAdapterFromViemWalletClient,
 } from "./evm";
 
+// ============================================
+// Chain-agnostic exports
+// ============================================
+export {
+  // High-level API
+  handleX402Payment,
+  createX402PaymentFetch,
+
+  // Requirement selection
+  getPayableRequirements,
+  selectPaymentRequirements,
+
+  // Token metadata
+  resolveTokenMetadata,
+  clearTokenMetadataCache,
+} from "./unified";
+
+// ============================================
+// Wallet connectors
+// ============================================
+export {
+  ConnectorRegistry,
+  connectorRegistry,
+  registerConnector,
+  unregisterConnector,
+  getConnector,
+  getConnectors,
+  getActiveConnector,
+  injectedEvmConnector,
+  injectedSvmConnector,
+} from "./connectors";
+
 // ============================================
 // Legacy exports (for backward compatibility)
 // ============================================
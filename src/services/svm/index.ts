@@ -10,9 +10,21 @@ export {
   getDefaultSolanaRpcUrl,
 } from "./payment-header";
 
+// Token metadata
+export {
+  getSplTokenMetadata,
+} from "./token-metadata";
+
+// Wallet adapters
+export {
+  svmAdapterFromKeypair,
+  svmAdapterFromStandardWallet,
+} from "./wallet-adapter";
+
 // High-level API: Automatic payment handling
 export {
   handleSvmPayment,
   createSvmPaymentFetch,
+  executeSvmPayment,
 } from "./payment-handler";
 
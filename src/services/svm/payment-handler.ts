@@ -5,11 +5,24 @@
  * Use this for the simplest integration - just provide wallet and endpoint
  */
 
-import type {SvmClientConfig} from "../../types";
-import {SolanaNetworkSchema} from "../../types";
+import type {ExecuteSvmPaymentParams, PaymentResult, SvmClientConfig} from "../../types";
 import type {PaymentRequirements, x402Response} from "x402/types";
 import {createSvmPaymentHeader, getDefaultSolanaRpcUrl} from "./payment-header";
-import {PaymentOperationError, wrapPaymentError} from "../../utils";
+import {
+    confirmBeforeSign,
+    emitPaymentEvent,
+    errorFields,
+    getPaymentSettlement,
+    getRetryResponseError,
+    isSolanaNetwork,
+    mapPaymentErrorReason,
+    PaymentOperationError,
+    resolveLogger,
+    throwIfAborted,
+    trackPaymentFailure,
+    withPaymentAbort,
+    wrapPaymentError,
+} from "../../utils";
 
 /**
  * Handle SVM payment with automatic x402 flow
@@ -17,37 +30,59 @@ import {PaymentOperationError, wrapPaymentError} from "../../utils";
  * @param endpoint - API endpoint that requires x402 payment
  * @param config - SVM client configuration
  * @param requestInit - Optional fetch RequestInit options
- * @returns Response from the endpoint after successful payment
+ * @returns Endpoint response plus the decoded settlement from X-PAYMENT-RESPONSE
  *
  * @example
  * ```typescript
  * // Simple usage with Phantom wallet
- * const response = await handleSvmPayment(
+ * const {response, settlement} = await handleSvmPayment(
  *   "https://api.example.com/protected",
  *   {
  *     wallet: window.solana,
- *     network: "solana-devnet"
+ *     network: "solana-devnet",
+ *     signal: abortController.signal, // cancel when the user closes the modal
+ *     timeoutMs: 120_000
  *   }
  * );
  * const data = await response.json();
+ * console.log("Settled in tx:", settlement?.transaction);
  * ```
  */
 export async function handleSvmPayment(
     endpoint: string,
     config: SvmClientConfig,
     requestInit?: RequestInit
-): Promise<Response> {
-    const {wallet, network, rpcUrl, maxPaymentAmount} = config;
+): Promise<PaymentResult> {
+    const {signal, timeoutMs, hooks} = config;
+
+    return trackPaymentFailure(hooks, endpoint, () => withPaymentAbort(
+        {signal: signal || requestInit?.signal || undefined, timeoutMs},
+        (abortSignal) => paySvmEndpoint(endpoint, config, requestInit, abortSignal)
+    ));
+}
+
+/**
+ * Full SVM flow for handleSvmPayment, running under an already combined signal
+ */
+async function paySvmEndpoint(
+    endpoint: string,
+    config: SvmClientConfig,
+    requestInit: RequestInit | undefined,
+    signal: AbortSignal | undefined
+): Promise<PaymentResult> {
+    const {wallet, network, rpcUrl, maxPaymentAmount, fetch: fetchFn = fetch, hooks, logger} = config;
+    const log = resolveLogger(logger);
 
     // 1. Make initial request
-    const initialResponse = await fetch(endpoint, {
+    const initialResponse = await fetchFn(endpoint, {
         ...requestInit,
         method: requestInit?.method || "POST",
+        signal,
     });
 
     // If not 402, return as-is
     if (initialResponse.status !== 402) {
-        return initialResponse;
+        return {response: initialResponse, settlement: null};
     }
 
     // 2. Parse payment requirements from 402 response
@@ -55,53 +90,90 @@ export async function handleSvmPayment(
 
     // 3. Check if backend returned an error (e.g., insufficient_funds, verification_failed)
     // Skip errors that are part of normal 402 flow (initial request without X-PAYMENT)
-    const IGNORED_ERRORS = [
-        'X-PAYMENT header is required',
-        'missing X-PAYMENT header',
-        'payment_required',
-    ];
-    
-    if (rawResponse.error && !IGNORED_ERRORS.includes(rawResponse.error)) {
-        console.error(`❌ Payment verification failed: ${rawResponse.error}`);
-        
-        // Map backend error codes to user-friendly messages
-        const ERROR_MESSAGES: Record<string, string> = {
-            'insufficient_funds': 'Insufficient balance to complete this payment',
-            'invalid_signature': 'Invalid payment signature',
-            'expired': 'Payment authorization has expired',
-            'already_used': 'This payment has already been used',
-            'network_mismatch': 'Payment network does not match',
-            'invalid_payment': 'Invalid payment data',
-            'verification_failed': 'Payment verification failed',
-            'invalid_exact_svm_payload_transaction_simulation_failed': 'Transaction simulation failed due to insufficient balance. Please check your wallet balance carefully and ensure you have enough funds to cover the payment and transaction fees.',
-        };
-        
-        const errorMessage = ERROR_MESSAGES[rawResponse.error] || 
-                            `Payment failed: ${rawResponse.error}`;
-        
-        const error = new Error(errorMessage);
-        throw wrapPaymentError(error);
+    const rejection = mapPaymentErrorReason(rawResponse.error);
+    if (rejection) {
+        log.error('Payment verification failed', {reason: rawResponse.error, code: rejection.code});
+        throw rejection;
     }
 
     const x402Version: number = rawResponse.x402Version;
     const parsedPaymentRequirements: PaymentRequirements[] = rawResponse.accepts || [];
+    await emitPaymentEvent(hooks, 'requirementsReceived', {endpoint, x402Version, accepts: parsedPaymentRequirements});
 
     // 4. Select suitable payment requirement for Solana
     const selectedRequirements = parsedPaymentRequirements.find(
         (req: PaymentRequirements) =>
-            req.scheme === "exact" &&
-            SolanaNetworkSchema.safeParse(req.network.toLowerCase()).success
+            req.scheme === "exact" && isSolanaNetwork(req.network)
     );
 
     if (!selectedRequirements) {
-        console.error(
-            "❌ No suitable Solana payment requirements found. Available networks:",
-            parsedPaymentRequirements.map((req) => req.network)
-        );
+        log.error('No suitable Solana payment requirements found', {
+            networks: parsedPaymentRequirements.map((req) => req.network),
+        });
         throw new Error("No suitable Solana payment requirements found");
     }
+    await emitPaymentEvent(hooks, 'requirementSelected', {
+        endpoint,
+        requirements: selectedRequirements,
+        candidates: parsedPaymentRequirements.filter((req) => req.scheme === "exact" && isSolanaNetwork(req.network)),
+    });
+
+    // 5. Pay the selected requirement
+    return paySvmRequirement(
+        endpoint,
+        {wallet, paymentRequirements: selectedRequirements, x402Version, maxPaymentAmount, rpcUrl, fetch: fetchFn, hooks, logger},
+        requestInit,
+        signal
+    );
+}
+
+/**
+ * Pay a specific SVM payment requirement and retry the request
+ *
+ * Use this when the 402 response has already been fetched and a requirement
+ * selected (e.g. by handleX402Payment). Handles amount limits, RPC selection,
+ * header creation and the paid retry.
+ *
+ * @param endpoint - API endpoint that requires x402 payment
+ * @param params - Wallet, selected requirement and x402 version
+ * @param requestInit - Optional fetch RequestInit options
+ * @returns Endpoint response plus the decoded settlement from X-PAYMENT-RESPONSE
+ */
+export async function executeSvmPayment(
+    endpoint: string,
+    params: ExecuteSvmPaymentParams,
+    requestInit?: RequestInit
+): Promise<PaymentResult> {
+    const {signal, timeoutMs, hooks} = params;
+
+    return trackPaymentFailure(hooks, endpoint, () => withPaymentAbort(
+        {signal: signal || requestInit?.signal || undefined, timeoutMs},
+        (abortSignal) => paySvmRequirement(endpoint, params, requestInit, abortSignal)
+    ));
+}
+
+/**
+ * Pay flow for executeSvmPayment, running under an already combined signal
+ */
+async function paySvmRequirement(
+    endpoint: string,
+    params: ExecuteSvmPaymentParams,
+    requestInit: RequestInit | undefined,
+    signal: AbortSignal | undefined
+): Promise<PaymentResult> {
+    const {
+        wallet,
+        paymentRequirements: selectedRequirements,
+        x402Version,
+        maxPaymentAmount,
+        rpcUrl,
+        fetch: fetchFn = fetch,
+        hooks,
+        logger,
+    } = params;
+    const log = resolveLogger(logger);
 
-    // 5. Check amount against max value if specified
+    // 1. Check amount against max value if specified
     if (maxPaymentAmount && maxPaymentAmount > BigInt(0)) {
         if (BigInt(selectedRequirements.maxAmountRequired) > maxPaymentAmount) {
             throw new Error(
@@ -110,12 +182,14 @@ export async function handleSvmPayment(
         }
     }
 
-    // 6. Get RPC URL (use provided or default from backend requirements)
+    // 2. Get RPC URL (use provided or default from backend requirements)
     const effectiveRpcUrl = rpcUrl || getDefaultSolanaRpcUrl(selectedRequirements.network);
-    console.log(`📍 Using Solana RPC: ${effectiveRpcUrl.substring(0, 40)}...`);
-    console.log(`📍 Network from backend: ${selectedRequirements.network}`);
+    log.debug('Paying on Solana', {network: selectedRequirements.network, customRpc: !!rpcUrl});
 
-    // 7. Create payment header with error handling
+    // 3. Create payment header with error handling
+    const payer = wallet?.publicKey?.toString() || wallet?.address || '';
+    await confirmBeforeSign(hooks, {endpoint, requirements: selectedRequirements, payer});
+    throwIfAborted(signal);
     let paymentHeader: string;
     try {
         paymentHeader = await createSvmPaymentHeader({
@@ -123,17 +197,23 @@ export async function handleSvmPayment(
             paymentRequirements: selectedRequirements,
             x402Version,
             rpcUrl: effectiveRpcUrl,
+            signal,
+            logger,
         });
-        console.log('✅ Payment header created successfully');
+        log.debug('Payment header created');
     } catch (error: any) {
-        console.error('❌ Failed to create payment header:', error);
+        log.error('Failed to create payment header', errorFields(error));
         throw wrapPaymentError(error);
     }
 
-    // 8. Retry with payment header
+    await emitPaymentEvent(hooks, 'signed', {endpoint, requirements: selectedRequirements, paymentHeader});
+
+    // 4. Retry with payment header (unless cancelled while the wallet was signing)
+    throwIfAborted(signal);
     const newInit = {
         ...requestInit,
         method: requestInit?.method || "POST",
+        signal,
         headers: {
             ...(requestInit?.headers || {}),
             "X-PAYMENT": paymentHeader,
@@ -141,52 +221,48 @@ export async function handleSvmPayment(
         },
     };
 
-    const retryResponse = await fetch(endpoint, newInit);
+    await emitPaymentEvent(hooks, 'retrySent', {endpoint, requirements: selectedRequirements});
+    const retryResponse = await fetchFn(endpoint, newInit);
     
-    // 9. Check if retry still returned 402 with error (e.g., verification failed)
+    // 5. Check if retry still returned 402 with error (e.g., verification failed)
     if (retryResponse.status === 402) {
         try {
             const retryData = await retryResponse.json();
             
             // Skip normal 402 errors (shouldn't happen at this point, but be safe)
-            const IGNORED_ERRORS = [
-                'X-PAYMENT header is required',
-                'missing X-PAYMENT header',
-                'payment_required',
-            ];
-            
-            if (retryData.error && !IGNORED_ERRORS.includes(retryData.error)) {
-                console.error(`❌ Payment verification failed: ${retryData.error}`);
-                
-                // Map backend error codes to user-friendly messages
-                const ERROR_MESSAGES: Record<string, string> = {
-                    'insufficient_funds': 'Insufficient balance to complete this payment',
-                    'invalid_signature': 'Invalid payment signature',
-                    'expired': 'Payment authorization has expired',
-                    'already_used': 'This payment has already been used',
-                    'network_mismatch': 'Payment network does not match',
-                    'invalid_payment': 'Invalid payment data',
-                    'verification_failed': 'Payment verification failed',
-                    'invalid_exact_svm_payload_transaction_simulation_failed': 'Transaction simulation failed due to insufficient balance. Please check your wallet balance carefully and ensure you have enough funds to cover the payment and transaction fees.',
-                };
-                
-                const errorMessage = ERROR_MESSAGES[retryData.error] || 
-                                    `Payment failed: ${retryData.error}`;
-                
-                const error = new Error(errorMessage);
-                throw wrapPaymentError(error);
+            const rejection = mapPaymentErrorReason(retryData.error);
+            if (rejection) {
+                log.error('Payment verification failed', {reason: retryData.error, code: rejection.code});
+                throw rejection;
             }
         } catch (error: any) {
             // If error is already wrapped, re-throw it
             if (error instanceof PaymentOperationError) {
                 throw error;
             }
-            // Otherwise it's a JSON parse error, just return the response
-            console.warn('⚠️ Could not parse retry 402 response:', error);
+            // Otherwise it's a JSON parse error, handled by the status check below
+            log.warn('Could not parse retry 402 response', errorFields(error));
         }
     }
     
-    return retryResponse;
+    // 6. Only a 2xx response settles the payment; anything else is reported through `failed`
+    if (!retryResponse.ok) {
+        log.error('Paid request failed', {status: retryResponse.status});
+        throw getRetryResponseError(retryResponse);
+    }
+
+    const settlement = getPaymentSettlement(retryResponse);
+    await emitPaymentEvent(hooks, 'settled', {
+        endpoint,
+        requirements: selectedRequirements,
+        response: retryResponse,
+        settlement,
+    });
+
+    return {
+        response: retryResponse,
+        settlement,
+    };
 }
 
 /**
@@ -209,7 +285,8 @@ export function createSvmPaymentFetch(
 ): typeof fetch {
     return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
         const endpoint = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-        return handleSvmPayment(endpoint, config, init);
+        const {response} = await handleSvmPayment(endpoint, config, init);
+        return response;
     };
 }
 
@@ -21,7 +21,8 @@ import {
   TOKEN_PROGRAM_ID,
 } from "@solana/spl-token";
 import type {CreateSvmPaymentHeaderParams} from "../../types";
-import {wrapPaymentError} from "../../utils";
+import {NetworkType} from "../../types";
+import {errorFields, getChain, resolveLogger, throwIfAborted, wrapPaymentError} from "../../utils";
 
 /**
  * Create X-PAYMENT header for Solana payment
@@ -49,7 +50,8 @@ import {wrapPaymentError} from "../../utils";
 export async function createSvmPaymentHeader(
     params: CreateSvmPaymentHeaderParams
 ): Promise<string> {
-  const {wallet, paymentRequirements, x402Version, rpcUrl} = params;
+  const {wallet, paymentRequirements, x402Version, rpcUrl, signal, logger} = params;
+  const log = resolveLogger(logger);
 
   const connection = new Connection(rpcUrl, "confirmed");
 
@@ -166,12 +168,15 @@ export async function createSvmPaymentHeader(
     throw new Error("Connected wallet does not support signTransaction");
   }
 
+  // Never prompt for a cancelled payment
+  throwIfAborted(signal);
+
   let userSignedTx: VersionedTransaction;
   try {
     userSignedTx = await wallet.signTransaction(transaction);
-    console.log('✅ Transaction signed successfully');
+    log.debug('Transaction signed');
   } catch (error: any) {
-    console.error('❌ Failed to sign transaction:', error);
+    log.error('Failed to sign transaction', errorFields(error));
     throw wrapPaymentError(error);
   }
 
@@ -198,14 +203,11 @@ export async function createSvmPaymentHeader(
  * Helper: Get default RPC URL for Solana network
  */
 export function getDefaultSolanaRpcUrl(network: string): string {
-  const normalized = network.toLowerCase();
+  const chain = getChain(network);
 
-  if (normalized === "solana" || normalized === "solana-mainnet") {
-    return "https://cathee-fu8ezd-fast-mainnet.helius-rpc.com";
-  } else if (normalized === "solana-devnet") {
-    return "https://api.devnet.solana.com";
+  if (chain?.type === NetworkType.SOLANA && chain.rpcUrls.length > 0) {
+    return chain.rpcUrls[0];
   }
 
   throw new Error(`Unsupported Solana network: ${network}`);
 }
-
@@ -0,0 +1,75 @@
+/**
+ * SVM (Solana) Token Metadata
+ *
+ * Reads mint decimals plus name / symbol from either the Token-2022
+ * metadata extension or the Metaplex metadata account
+ */
+
+import {Connection, PublicKey} from "@solana/web3.js";
+import type {TokenInfo} from "../../types";
+
+const METAPLEX_METADATA_PROGRAM_ID = new PublicKey("metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s");
+
+/**
+ * Decode name / symbol from a Metaplex metadata account
+ *
+ * Layout: key (1) | update authority (32) | mint (32) | name | symbol | uri | ...,
+ * each string is a u32 length prefix followed by null-padded bytes
+ */
+function decodeMetaplexMetadata(data: Uint8Array): { name: string; symbol: string } {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 1 + 32 + 32;
+
+  const readString = (): string => {
+    const length = view.getUint32(offset, true);
+    offset += 4;
+    const value = decoder.decode(data.subarray(offset, offset + length));
+    offset += length;
+    return value.replace(/\0/g, '').trim();
+  };
+
+  const name = readString();
+  const symbol = readString();
+  return {name, symbol};
+}
+
+/**
+ * Read SPL / Token-2022 mint metadata
+ *
+ * @param rpcUrl - Solana RPC endpoint
+ * @param mint - Mint address
+ * @returns Token info (symbol / name are empty if the mint has no metadata)
+ */
+export async function getSplTokenMetadata(rpcUrl: string, mint: string): Promise<TokenInfo> {
+  const connection = new Connection(rpcUrl, "confirmed");
+  const mintPubkey = new PublicKey(mint);
+
+  const mintAccount = await connection.getParsedAccountInfo(mintPubkey, "confirmed");
+  const parsed = (mintAccount.value?.data as { parsed?: { type?: string; info?: any } } | undefined)?.parsed;
+  if (parsed?.type !== "mint" || typeof parsed.info?.decimals !== "number") {
+    throw new Error(`Account ${mint} is not a token mint`);
+  }
+
+  const token: TokenInfo = {address: mint, decimals: parsed.info.decimals, symbol: ''};
+
+  // Token-2022 mints may carry metadata inline
+  const inlineMetadata = (parsed.info.extensions as any[] | undefined)
+      ?.find(extension => extension?.extension === "tokenMetadata")?.state;
+  if (inlineMetadata?.symbol) {
+    return {...token, symbol: inlineMetadata.symbol, name: inlineMetadata.name || undefined};
+  }
+
+  // Otherwise look for a Metaplex metadata account
+  const [metadataAddress] = PublicKey.findProgramAddressSync(
+      [new TextEncoder().encode("metadata"), METAPLEX_METADATA_PROGRAM_ID.toBytes(), mintPubkey.toBytes()],
+      METAPLEX_METADATA_PROGRAM_ID
+  );
+  const metadataAccount = await connection.getAccountInfo(metadataAddress, "confirmed");
+  if (!metadataAccount) {
+    return token;
+  }
+
+  const {name, symbol} = decodeMetaplexMetadata(metadataAccount.data);
+  return {...token, symbol, name: name || undefined};
+}
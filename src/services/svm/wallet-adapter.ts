@@ -0,0 +1,83 @@
+/**
+ * Solana Wallet Adapters
+ *
+ * Build a WalletAdapter from a local keypair (scripts, servers, tests) or a Wallet Standard wallet
+ */
+
+import {VersionedTransaction} from "@solana/web3.js";
+import type {Keypair} from "@solana/web3.js";
+import type {StandardWallet, StandardWalletAccount, WalletAdapter} from "../../types";
+import {PaymentErrorCode, PaymentOperationError} from "../../utils/payment-error-handler";
+
+/**
+ * Create a Solana wallet adapter that signs with a keypair
+ *
+ * @param keypair - Payer keypair
+ *
+ * @example
+ * ```typescript
+ * const keypair = Keypair.fromSecretKey(secretKey);
+ * await handleSvmPayment(endpoint, {wallet: svmAdapterFromKeypair(keypair), network: 'solana-devnet'});
+ * ```
+ */
+export function svmAdapterFromKeypair(keypair: Keypair): WalletAdapter {
+  return {
+    publicKey: keypair.publicKey,
+    address: keypair.publicKey.toBase58(),
+    signTransaction: async (tx: VersionedTransaction) => {
+      tx.sign([keypair]);
+      return tx;
+    },
+  };
+}
+
+/**
+ * Create a Solana wallet adapter from a Wallet Standard wallet
+ *
+ * Signs through the wallet's `solana:signTransaction` feature. The wallet must already be
+ * connected (`standard:connect`), or an account passed in.
+ *
+ * @param wallet - Wallet from the Wallet Standard registry
+ * @param account - Account to pay with; defaults to the wallet's first Solana account
+ * @param chain - Optional chain hint for the wallet, e.g. "solana:devnet"
+ *
+ * @example
+ * ```typescript
+ * const wallet = getSvmWallet('Backpack');
+ * await wallet.features['standard:connect'].connect();
+ * await handleSvmPayment(endpoint, {wallet: svmAdapterFromStandardWallet(wallet), network: 'solana'});
+ * ```
+ */
+export function svmAdapterFromStandardWallet(
+    wallet: StandardWallet,
+    account?: StandardWalletAccount,
+    chain?: string
+): WalletAdapter {
+  const signer = wallet.features['solana:signTransaction'];
+  if (!signer) {
+    throw new Error(`${wallet.name} does not support solana:signTransaction`);
+  }
+
+  const payer = account
+      || wallet.accounts.find(item => item.chains.some(id => id.startsWith('solana:')))
+      || wallet.accounts[0];
+  if (!payer) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+      message: `${wallet.name} has no connected account`,
+      messageKey: 'error.NO_WALLET_ADDRESS',
+    });
+  }
+
+  return {
+    address: payer.address,
+    signTransaction: async (tx: VersionedTransaction) => {
+      const [output] = await signer.signTransaction({
+        account: payer,
+        transaction: tx.serialize(),
+        ...(chain ? {chain} : {}),
+      });
+      return VersionedTransaction.deserialize(output.signedTransaction);
+    },
+  };
+}
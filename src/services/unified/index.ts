@@ -0,0 +1,23 @@
+/**
+ * Chain-agnostic Payment Service
+ *
+ * Selects among all accepts entries and delegates to the EVM or SVM flow
+ */
+
+// High-level API: Automatic payment handling
+export {
+    handleX402Payment,
+    createX402PaymentFetch,
+} from "./payment-handler";
+
+// Requirement selection
+export {
+    getPayableRequirements,
+    selectPaymentRequirements,
+} from "./requirement-selector";
+
+// Token metadata
+export {
+    resolveTokenMetadata,
+    clearTokenMetadataCache,
+} from "./token-resolver";
@@ -0,0 +1,141 @@
+import {beforeEach, describe, expect, it, vi} from "vitest";
+import type {EvmWalletAdapter, PaymentResult, WalletAdapter} from "../../types";
+import {PaymentErrorCode, silentLogger} from "../../utils";
+import {createPaymentFetch, createRequirements} from "../../test/fixtures";
+import {executeEvmPayment} from "../evm/payment-handler";
+import {executeSvmPayment} from "../svm/payment-handler";
+import {handleX402Payment} from "./payment-handler";
+
+vi.mock("../evm/payment-handler", () => ({executeEvmPayment: vi.fn()}));
+vi.mock("../svm/payment-handler", () => ({executeSvmPayment: vi.fn()}));
+
+const ENDPOINT = "https://api.example.com/protected";
+
+const evmWallet = {address: "0x857b06519E91e3A54538791bDbb0E22373e36b66"} as EvmWalletAdapter;
+const svmWallet = {} as WalletAdapter;
+
+const base = createRequirements({network: "base", maxAmountRequired: "2000000"});
+const baseSepolia = createRequirements({network: "base-sepolia", maxAmountRequired: "1000000"});
+const solana = createRequirements({network: "solana", maxAmountRequired: "500000"});
+
+const paid: PaymentResult = {response: new Response("paid"), settlement: null};
+
+describe("handleX402Payment", () => {
+  beforeEach(() => {
+    vi.mocked(executeEvmPayment).mockReset().mockResolvedValue(paid);
+    vi.mocked(executeSvmPayment).mockReset().mockResolvedValue(paid);
+  });
+
+  it("pays EVM requirements with the EVM wallet", async () => {
+    const result = await handleX402Payment(ENDPOINT, {
+      evmWallet,
+      fetch: createPaymentFetch([solana, base]),
+      rpcUrls: {base: "http://127.0.0.1:8545"},
+      logger: silentLogger,
+    });
+
+    expect(result).toBe(paid);
+    expect(executeSvmPayment).not.toHaveBeenCalled();
+    expect(executeEvmPayment).toHaveBeenCalledWith(
+        ENDPOINT,
+        expect.objectContaining({
+          wallet: evmWallet,
+          paymentRequirements: base,
+          x402Version: 1,
+          rpcUrl: "http://127.0.0.1:8545",
+        }),
+        undefined
+    );
+  });
+
+  it("pays Solana requirements with the Solana wallet", async () => {
+    await handleX402Payment(ENDPOINT, {
+      svmWallet,
+      svmRpcUrl: "http://127.0.0.1:8899",
+      fetch: createPaymentFetch([base, solana]),
+      logger: silentLogger,
+    });
+
+    expect(executeEvmPayment).not.toHaveBeenCalled();
+    expect(executeSvmPayment).toHaveBeenCalledWith(
+        ENDPOINT,
+        expect.objectContaining({wallet: svmWallet, paymentRequirements: solana, rpcUrl: "http://127.0.0.1:8899"}),
+        undefined
+    );
+  });
+
+  it("pays the first payable entry without a preference", async () => {
+    await handleX402Payment(ENDPOINT, {
+      evmWallet,
+      svmWallet,
+      fetch: createPaymentFetch([base, solana]),
+      logger: silentLogger,
+    });
+
+    expect(executeEvmPayment).toHaveBeenCalledWith(
+        ENDPOINT,
+        expect.objectContaining({paymentRequirements: base}),
+        undefined
+    );
+  });
+
+  it("applies the preference to the payable entries", async () => {
+    const accepts = [base, baseSepolia, solana];
+    const config = {evmWallet, svmWallet, logger: silentLogger};
+
+    await handleX402Payment(ENDPOINT, {
+      ...config,
+      fetch: createPaymentFetch(accepts),
+      preference: {strategy: "network", networks: ["solana", "base"]},
+    });
+    expect(executeSvmPayment).toHaveBeenLastCalledWith(
+        ENDPOINT,
+        expect.objectContaining({paymentRequirements: solana}),
+        undefined
+    );
+
+    // Only the EVM entries are payable without a Solana wallet
+    const requirementSelected = vi.fn();
+    await handleX402Payment(ENDPOINT, {
+      ...config,
+      svmWallet: undefined,
+      fetch: createPaymentFetch(accepts),
+      preference: {strategy: "cheapest"},
+      hooks: {requirementSelected},
+    });
+    expect(executeEvmPayment).toHaveBeenLastCalledWith(
+        ENDPOINT,
+        expect.objectContaining({paymentRequirements: baseSepolia}),
+        undefined
+    );
+    expect(requirementSelected).toHaveBeenCalledWith(expect.objectContaining({
+      requirements: baseSepolia,
+      candidates: [base, baseSepolia],
+    }));
+  });
+
+  it("fails with WALLET_NOT_CONNECTED when the selected network has no wallet", async () => {
+    await expect(handleX402Payment(ENDPOINT, {
+      svmWallet,
+      fetch: createPaymentFetch([solana, base]),
+      // A custom selector may return an entry the connected wallets cannot pay
+      preference: {strategy: "custom", select: () => base},
+      logger: silentLogger,
+    })).rejects.toMatchObject({
+      code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+      details: {network: "base"},
+    });
+    expect(executeEvmPayment).not.toHaveBeenCalled();
+    expect(executeSvmPayment).not.toHaveBeenCalled();
+  });
+
+  it("returns non-402 responses untouched", async () => {
+    const response = new Response("ok", {status: 200});
+    const result = await handleX402Payment(ENDPOINT, {
+      evmWallet,
+      fetch: async () => response,
+    });
+    expect(result).toEqual({response, settlement: null});
+    expect(executeEvmPayment).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Chain-agnostic Payment Handler
+ *
+ * High-level API: Reads every `accepts` entry from the 402 response, matches
+ * them against the wallets you provide and pays on the selected chain
+ */
+
+import type {PaymentResult, X402ClientConfig} from "../../types";
+import type {PaymentRequirements, x402Response} from "x402/types";
+import {executeEvmPayment} from "../evm/payment-handler";
+import {executeSvmPayment} from "../svm/payment-handler";
+import {
+  getPayableRequirements,
+  isEvmRequirement,
+  isSvmRequirement,
+  selectPaymentRequirements,
+} from "./requirement-selector";
+import {
+  emitPaymentEvent,
+  mapPaymentErrorReason,
+  PaymentErrorCode,
+  PaymentOperationError,
+  resolveLogger,
+  trackPaymentFailure,
+  withPaymentAbort,
+} from "../../utils";
+
+function walletNotConnected(network: string): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.WALLET_NOT_CONNECTED,
+    message: `No wallet provided for network: ${network}`,
+    details: {network},
+  });
+}
+
+/**
+ * Handle x402 payment on whichever chain the connected wallets can pay
+ *
+ * @param endpoint - API endpoint that requires x402 payment
+ * @param config - Wallets and selection preference
+ * @param requestInit - Optional fetch RequestInit options
+ * @returns Endpoint response plus the decoded settlement from X-PAYMENT-RESPONSE
+ *
+ * @example
+ * ```typescript
+ * const {response, settlement} = await handleX402Payment(
+ *   "https://api.example.com/protected",
+ *   {
+ *     evmWallet: {address, signTypedData},
+ *     svmWallet: window.solana,
+ *     preference: {strategy: "cheapest"},
+ *     signal: abortController.signal,
+ *     timeoutMs: 120_000
+ *   }
+ * );
+ * ```
+ */
+export async function handleX402Payment(
+    endpoint: string,
+    config: X402ClientConfig,
+    requestInit?: RequestInit
+): Promise<PaymentResult> {
+  const {signal, timeoutMs, hooks} = config;
+
+  return trackPaymentFailure(hooks, endpoint, () => withPaymentAbort(
+      {signal: signal || requestInit?.signal || undefined, timeoutMs},
+      (abortSignal) => payX402Endpoint(endpoint, config, requestInit, abortSignal)
+  ));
+}
+
+/**
+ * Chain-agnostic flow for handleX402Payment, running under an already combined signal
+ */
+async function payX402Endpoint(
+    endpoint: string,
+    config: X402ClientConfig,
+    requestInit: RequestInit | undefined,
+    signal: AbortSignal | undefined
+): Promise<PaymentResult> {
+  const {
+    evmWallet,
+    svmWallet,
+    preference,
+    svmRpcUrl,
+    rpcUrls,
+    maxPaymentAmount,
+    fetch: fetchFn = fetch,
+    checkBalance,
+    hooks,
+    logger,
+  } = config;
+  const log = resolveLogger(logger);
+
+  if (!evmWallet && !svmWallet) {
+    throw new Error("No wallet provided. Pass evmWallet and/or svmWallet.");
+  }
+
+  // 1. Make initial request
+  const initialResponse = await fetchFn(endpoint, {
+    ...requestInit,
+    method: requestInit?.method || "POST",
+    signal,
+  });
+
+  // If not 402, return as-is
+  if (initialResponse.status !== 402) {
+    return {response: initialResponse, settlement: null};
+  }
+
+  // 2. Parse payment requirements from 402 response
+  const rawResponse = await initialResponse.json() as x402Response;
+
+  // 3. Check if backend returned an error
+  // Skip errors that are part of normal 402 flow (initial request without X-PAYMENT)
+  const rejection = mapPaymentErrorReason(rawResponse.error);
+  if (rejection) {
+    log.error('Payment verification failed', {reason: rawResponse.error, code: rejection.code});
+    throw rejection;
+  }
+
+  const x402Version: number = rawResponse.x402Version;
+  const parsedPaymentRequirements: PaymentRequirements[] = rawResponse.accepts || [];
+  await emitPaymentEvent(hooks, 'requirementsReceived', {endpoint, x402Version, accepts: parsedPaymentRequirements});
+
+  // 4. Match requirements against connected wallets
+  const candidates = getPayableRequirements(parsedPaymentRequirements, {
+    evm: !!evmWallet,
+    svm: !!svmWallet,
+  });
+
+  if (candidates.length === 0) {
+    log.error('No suitable payment requirements found for the connected wallets', {
+      networks: parsedPaymentRequirements.map((req) => req.network),
+    });
+    throw new Error("No suitable payment requirements found for the connected wallets");
+  }
+
+  // 5. Pick one according to preference
+  const selectedRequirements = selectPaymentRequirements(candidates, preference);
+  if (!selectedRequirements) {
+    throw new Error("No suitable payment requirements selected by preference");
+  }
+  log.debug('Selected payment requirement', {network: selectedRequirements.network, candidates: candidates.length});
+  await emitPaymentEvent(hooks, 'requirementSelected', {endpoint, requirements: selectedRequirements, candidates});
+
+  // 6. Pay on the selected chain; its network decides which wallet signs
+  const {network} = selectedRequirements;
+  if (isEvmRequirement(selectedRequirements)) {
+    if (!evmWallet) {
+      throw walletNotConnected(network);
+    }
+    return executeEvmPayment(
+        endpoint,
+        {
+          wallet: evmWallet,
+          paymentRequirements: selectedRequirements,
+          x402Version,
+          maxPaymentAmount,
+          fetch: fetchFn,
+          checkBalance,
+          rpcUrl: rpcUrls?.[network],
+          signal,
+          hooks,
+          logger,
+        },
+        requestInit
+    );
+  }
+
+  if (isSvmRequirement(selectedRequirements)) {
+    if (!svmWallet) {
+      throw walletNotConnected(network);
+    }
+    return executeSvmPayment(
+        endpoint,
+        {
+          wallet: svmWallet,
+          paymentRequirements: selectedRequirements,
+          x402Version,
+          maxPaymentAmount,
+          rpcUrl: svmRpcUrl || rpcUrls?.[network],
+          fetch: fetchFn,
+          signal,
+          hooks,
+          logger,
+        },
+        requestInit
+    );
+  }
+
+  throw new PaymentOperationError({
+    code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+    message: `Unsupported network: ${network}`,
+    details: {network},
+  });
+}
+
+/**
+ * Create a custom fetch function that automatically handles x402 payments on any supported chain
+ *
+ * @example
+ * ```typescript
+ * const paymentFetch = createX402PaymentFetch({
+ *   evmWallet: myEvmWallet,
+ *   svmWallet: window.solana,
+ *   preference: {strategy: "network", networks: ["base", "solana"]}
+ * });
+ *
+ * const response = await paymentFetch("https://api.example.com/protected");
+ * ```
+ */
+export function createX402PaymentFetch(
+    config: X402ClientConfig
+): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const endpoint = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const {response} = await handleX402Payment(endpoint, config, init);
+    return response;
+  };
+}
@@ -0,0 +1,112 @@
+import {describe, expect, it} from "vitest";
+import type {PaymentRequirements} from "x402/types";
+import {
+  getPayableRequirements,
+  isEvmRequirement,
+  isSvmRequirement,
+  selectPaymentRequirements,
+} from "./requirement-selector";
+import {createRequirements} from "../../test/fixtures";
+
+const base = createRequirements({network: "base", maxAmountRequired: "1000000"});
+const baseSepolia = createRequirements({network: "base-sepolia", maxAmountRequired: "500000"});
+const solana = createRequirements({network: "solana", maxAmountRequired: "750000"});
+const solanaDevnet = createRequirements({network: "solana-devnet", maxAmountRequired: "2000000"});
+const upto = createRequirements({network: "base", maxAmountRequired: "100", scheme: "upto"});
+
+// Tokens outside the built-in table, without decimals in `extra`
+const UNKNOWN_TOKEN = "0x2222222222222222222222222222222222222222";
+const OTHER_UNKNOWN_TOKEN = "0x3333333333333333333333333333333333333333";
+const accepts = [base, solana, baseSepolia, solanaDevnet, upto];
+
+describe("isEvmRequirement / isSvmRequirement", () => {
+  it("classifies exact requirements by network", () => {
+    expect(isEvmRequirement(base)).toBe(true);
+    expect(isEvmRequirement(solana)).toBe(false);
+    expect(isSvmRequirement(solanaDevnet)).toBe(true);
+    expect(isSvmRequirement(baseSepolia)).toBe(false);
+  });
+
+  it("rejects other schemes", () => {
+    expect(isEvmRequirement(upto)).toBe(false);
+    expect(isSvmRequirement(upto)).toBe(false);
+  });
+});
+
+describe("getPayableRequirements", () => {
+  it("keeps requirements the connected wallets can pay, in server order", () => {
+    expect(getPayableRequirements(accepts, {evm: true, svm: false})).toEqual([base, baseSepolia]);
+    expect(getPayableRequirements(accepts, {evm: false, svm: true})).toEqual([solana, solanaDevnet]);
+    expect(getPayableRequirements(accepts, {evm: true, svm: true})).toEqual([base, solana, baseSepolia, solanaDevnet]);
+  });
+
+  it("returns nothing without wallets", () => {
+    expect(getPayableRequirements(accepts, {evm: false, svm: false})).toEqual([]);
+  });
+});
+
+describe("selectPaymentRequirements", () => {
+  const candidates = [base, solana, baseSepolia];
+
+  it("returns undefined without candidates", () => {
+    expect(selectPaymentRequirements([])).toBeUndefined();
+  });
+
+  it("picks the first candidate by default", () => {
+    expect(selectPaymentRequirements(candidates)).toBe(base);
+    expect(selectPaymentRequirements(candidates, {strategy: "first"})).toBe(base);
+  });
+
+  it("picks the earliest preferred network", () => {
+    expect(selectPaymentRequirements(candidates, {strategy: "network", networks: ["solana", "base"]})).toBe(solana);
+    expect(selectPaymentRequirements(candidates, {strategy: "network", networks: ["Base-Sepolia"]})).toBe(baseSepolia);
+  });
+
+  it("falls back to the first candidate when no preferred network matches", () => {
+    expect(selectPaymentRequirements(candidates, {strategy: "network", networks: ["polygon"]})).toBe(base);
+  });
+
+  it("picks the smallest amount", () => {
+    expect(selectPaymentRequirements(candidates, {strategy: "cheapest"})).toBe(baseSepolia);
+  });
+
+  it("compares amounts as integers, not strings", () => {
+    const small = createRequirements({network: "base-sepolia", maxAmountRequired: "9"});
+    const large = createRequirements({network: "base-sepolia", maxAmountRequired: "10"});
+    expect(selectPaymentRequirements([large, small], {strategy: "cheapest"})).toBe(small);
+  });
+
+  it("scales amounts by token decimals", () => {
+    // 1 USDC on BSC (18 decimals) vs 2 USDC on Base (6 decimals), both from the built-in token table
+    const bsc = createRequirements({network: "bsc", maxAmountRequired: "1000000000000000000"});
+    const baseUsdc = createRequirements({network: "base", maxAmountRequired: "2000000"});
+    expect(selectPaymentRequirements([baseUsdc, bsc], {strategy: "cheapest"})).toBe(bsc);
+
+    // Decimals from extra when the token is not in the table
+    const custom = createRequirements({
+      network: "polygon",
+      maxAmountRequired: "1500000000000000000",
+      asset: "0x1111111111111111111111111111111111111111",
+      extra: {decimals: 18},
+    });
+    expect(selectPaymentRequirements([bsc, baseUsdc, custom], {strategy: "cheapest"})).toBe(bsc);
+    expect(selectPaymentRequirements([custom, baseUsdc], {strategy: "cheapest"})).toBe(custom);
+  });
+
+  it("skips entries whose decimals are unknown", () => {
+    const unknown = createRequirements({network: "polygon", maxAmountRequired: "1", asset: UNKNOWN_TOKEN});
+    expect(selectPaymentRequirements([unknown, baseSepolia], {strategy: "cheapest"})).toBe(baseSepolia);
+  });
+
+  it("compares only the first entry's asset when no decimals are known", () => {
+    const first = createRequirements({network: "polygon", maxAmountRequired: "500", asset: UNKNOWN_TOKEN});
+    const sameAsset = {...first, maxAmountRequired: "400"};
+    const otherAsset = createRequirements({network: "polygon", maxAmountRequired: "1", asset: OTHER_UNKNOWN_TOKEN});
+    expect(selectPaymentRequirements([first, otherAsset, sameAsset], {strategy: "cheapest"})).toBe(sameAsset);
+  });
+
+  it("delegates to a custom selector", () => {
+    const select = (list: PaymentRequirements[]) => list[list.length - 1];
+    expect(selectPaymentRequirements(candidates, {strategy: "custom", select})).toBe(baseSepolia);
+  });
+});
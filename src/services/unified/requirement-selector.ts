@@ -0,0 +1,128 @@
+/**
+ * Payment Requirement Selection
+ *
+ * Matches x402 `accepts` entries against the connected wallets and picks one
+ * according to a PaymentPreference strategy
+ */
+
+import type {PaymentRequirements} from "x402/types";
+import type {PaymentPreference} from "../../types";
+import {getKnownToken, isEvmNetwork, isSolanaNetwork} from "../../utils";
+
+/**
+ * Check if a requirement can be paid with an EVM wallet
+ */
+export function isEvmRequirement(req: PaymentRequirements): boolean {
+  return req.scheme === "exact" && isEvmNetwork(req.network);
+}
+
+/**
+ * Check if a requirement can be paid with a Solana wallet
+ */
+export function isSvmRequirement(req: PaymentRequirements): boolean {
+  return req.scheme === "exact" && isSolanaNetwork(req.network);
+}
+
+// Token decimals from the built-in table, else from `extra.decimals`
+function getRequirementDecimals(req: PaymentRequirements): number | undefined {
+  const known = getKnownToken(req.network, req.asset);
+  if (known) {
+    return known.decimals;
+  }
+  const decimals = Number(req.extra?.decimals);
+  return req.extra?.decimals !== undefined && Number.isInteger(decimals) && decimals >= 0 ? decimals : undefined;
+}
+
+function isSameAsset(a: PaymentRequirements, b: PaymentRequirements): boolean {
+  return a.network.toLowerCase() === b.network.toLowerCase() && a.asset.toLowerCase() === b.asset.toLowerCase();
+}
+
+/**
+ * Lowest amount in token units
+ *
+ * Atomic amounts of tokens with different decimals (USDC has 6 on Base, 18 on BSC) are
+ * scaled to the same precision first. Entries with unknown decimals are skipped; if no
+ * entry has known decimals, only entries of the first entry's asset are compared.
+ */
+function selectCheapest(candidates: PaymentRequirements[]): PaymentRequirements {
+  const priced = candidates
+      .map(req => ({req, decimals: getRequirementDecimals(req)}))
+      .filter((item): item is { req: PaymentRequirements; decimals: number } => item.decimals !== undefined);
+
+  if (priced.length === 0) {
+    return candidates
+        .filter(req => isSameAsset(req, candidates[0]))
+        .reduce((cheapest, req) => BigInt(req.maxAmountRequired) < BigInt(cheapest.maxAmountRequired) ? req : cheapest);
+  }
+
+  const scale = Math.max(...priced.map(item => item.decimals));
+  const normalize = (item: { req: PaymentRequirements; decimals: number }) =>
+      BigInt(item.req.maxAmountRequired) * 10n ** BigInt(scale - item.decimals);
+  return priced.reduce((cheapest, item) => normalize(item) < normalize(cheapest) ? item : cheapest).req;
+}
+
+/**
+ * Filter accepts entries down to those payable with the available wallets
+ *
+ * @param accepts - `accepts` list from the 402 response
+ * @param wallets - Which wallet kinds are connected
+ * @returns Payable requirements, in server order
+ */
+export function getPayableRequirements(
+    accepts: PaymentRequirements[],
+    wallets: { evm: boolean; svm: boolean }
+): PaymentRequirements[] {
+  return accepts.filter(
+      (req) => (wallets.evm && isEvmRequirement(req)) || (wallets.svm && isSvmRequirement(req))
+  );
+}
+
+/**
+ * Choose one requirement from the payable candidates
+ *
+ * @param candidates - Payable requirements (see getPayableRequirements)
+ * @param preference - Selection strategy (defaults to the first candidate)
+ * @returns Selected requirement, or undefined if none matches
+ *
+ * @example
+ * ```typescript
+ * const selected = selectPaymentRequirements(candidates, {
+ *   strategy: "network",
+ *   networks: ["base", "solana"],
+ * });
+ * ```
+ */
+export function selectPaymentRequirements(
+    candidates: PaymentRequirements[],
+    preference: PaymentPreference = {strategy: 'first'}
+): PaymentRequirements | undefined {
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  switch (preference.strategy) {
+    case 'network': {
+      const order = preference.networks.map((network) => network.toLowerCase());
+      let best: PaymentRequirements | undefined;
+      let bestRank = order.length;
+      for (const req of candidates) {
+        const rank = order.indexOf(req.network.toLowerCase());
+        if (rank !== -1 && rank < bestRank) {
+          best = req;
+          bestRank = rank;
+        }
+      }
+      return best || candidates[0];
+    }
+
+    case 'cheapest':
+      return selectCheapest(candidates);
+
+    case 'custom':
+      return preference.select(candidates);
+
+    case 'first':
+    default:
+      return candidates[0];
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Token Metadata Resolution
+ *
+ * Resolves symbol, decimals and icon for a payment requirement's asset:
+ * built-in token table first, then `requirements.extra`, then an on-chain lookup.
+ * Results are cached per network + asset.
+ */
+
+import type {PaymentRequirements} from "x402/types";
+import type {Logger, TokenInfo, TokenMetadata} from "../../types";
+import {errorFields, getChain, getKnownToken, isEvmNetwork, isSolanaNetwork, resolveLogger} from "../../utils";
+import {getErc20Metadata} from "../evm/token-metadata";
+import {getSplTokenMetadata} from "../svm/token-metadata";
+
+type TokenRequirements = Pick<PaymentRequirements, 'network' | 'asset' | 'extra'>;
+
+const tokenCache = new Map<string, Promise<TokenMetadata | null>>();
+
+function getCacheKey(network: string, asset: string): string {
+  const normalizedNetwork = network.toLowerCase();
+  // EVM addresses are case-insensitive, Solana mints are not
+  return `${normalizedNetwork}:${isEvmNetwork(normalizedNetwork) ? asset.toLowerCase() : asset}`;
+}
+
+/**
+ * Read token fields the server put into `requirements.extra`
+ *
+ * EVM requirements carry the EIP-712 domain `name` (e.g. "USD Coin"), which is
+ * only used as a display name; `symbol` / `decimals` / `logoURI` are optional.
+ */
+function getExtraTokenInfo(extra: Record<string, any> | undefined): Partial<TokenInfo> {
+  if (!extra) {
+    return {};
+  }
+
+  const decimals = extra.decimals !== undefined ? Number(extra.decimals) : undefined;
+  return {
+    symbol: typeof extra.symbol === 'string' ? extra.symbol : undefined,
+    name: typeof extra.name === 'string' ? extra.name : undefined,
+    decimals: decimals !== undefined && Number.isInteger(decimals) && decimals >= 0 ? decimals : undefined,
+    logoURI: typeof extra.logoURI === 'string' ? extra.logoURI : undefined,
+  };
+}
+
+/**
+ * Read token metadata from the chain
+ */
+async function fetchOnChainToken(network: string, asset: string, rpcUrl?: string): Promise<TokenInfo> {
+  const chain = getChain(network);
+  const url = rpcUrl || chain?.rpcUrls[0];
+  if (!url) {
+    throw new Error(`No RPC URL for network ${network}`);
+  }
+
+  if (isEvmNetwork(network)) {
+    return getErc20Metadata(url, asset, chain?.chainId);
+  }
+  if (isSolanaNetwork(network)) {
+    return getSplTokenMetadata(url, asset);
+  }
+  throw new Error(`Unsupported network for token lookup: ${network}`);
+}
+
+async function lookupToken(
+    requirements: TokenRequirements,
+    rpcUrl?: string,
+    logger?: Logger
+): Promise<TokenMetadata | null> {
+  const {network, asset} = requirements;
+  const extra = getExtraTokenInfo(requirements.extra);
+
+  // 1. Built-in table (chain registry stablecoins)
+  const known = getKnownToken(network, asset);
+  if (known) {
+    return {...known, logoURI: known.logoURI || extra.logoURI, address: asset, network, source: 'registry'};
+  }
+
+  // 2. Server-provided extra
+  if (extra.symbol && extra.decimals !== undefined) {
+    return {
+      symbol: extra.symbol,
+      name: extra.name,
+      decimals: extra.decimals,
+      logoURI: extra.logoURI,
+      address: asset,
+      network,
+      source: 'extra',
+    };
+  }
+
+  // 3. On-chain lookup, keeping any extra fields as fallbacks
+  try {
+    const onChain = await fetchOnChainToken(network, asset, rpcUrl);
+    return {
+      symbol: onChain.symbol || extra.symbol || '',
+      name: onChain.name || extra.name,
+      decimals: onChain.decimals,
+      logoURI: extra.logoURI,
+      address: asset,
+      network,
+      source: 'chain',
+    };
+  } catch (error) {
+    resolveLogger(logger).warn('Could not resolve token', errorFields(error, {asset, network}));
+    return null;
+  }
+}
+
+/**
+ * Resolve token metadata for a payment requirement
+ *
+ * @param requirements - Requirement (or any object with network / asset / extra)
+ * @param options.rpcUrl - RPC used for the on-chain lookup (defaults to the chain registry RPC)
+ * @param options.logger - Defaults to the SDK logger
+ * @returns Token metadata, or null if the token could not be resolved
+ *
+ * @example
+ * ```typescript
+ * const token = await resolveTokenMetadata(paymentRequirements);
+ * if (token) {
+ *   console.log(formatAmount(paymentRequirements.maxAmountRequired, token.decimals), token.symbol);
+ * }
+ * ```
+ */
+export function resolveTokenMetadata(
+    requirements: TokenRequirements,
+    options: { rpcUrl?: string; logger?: Logger } = {}
+): Promise<TokenMetadata | null> {
+  const key = getCacheKey(requirements.network, requirements.asset);
+  const cached = tokenCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const pending = lookupToken(requirements, options.rpcUrl, options.logger).then(token => {
+    // Don't cache failures so a later call can retry
+    if (!token) {
+      tokenCache.delete(key);
+    }
+    return token;
+  });
+  tokenCache.set(key, pending);
+  return pending;
+}
+
+/**
+ * Clear cached token metadata (e.g. after registering a chain or changing RPCs)
+ */
+export function clearTokenMetadataCache(): void {
+  tokenCache.clear();
+}
@@ -0,0 +1,56 @@
+/**
+ * Shared test fixtures
+ *
+ * Only imported by *.test.ts files; not part of the SDK bundles.
+ */
+
+import type {PaymentRequirements} from "x402/types";
+import {getChain} from "../utils/chain-registry";
+import {isSolanaNetwork} from "../utils/network";
+
+export const EVM_PAY_TO = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+export const SVM_PAY_TO = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+type RequirementsOverrides = Omit<Partial<PaymentRequirements>, 'network' | 'scheme'> & {
+  network?: string;
+  scheme?: string;
+};
+
+/**
+ * Build an `accepts` entry: "exact" USDC on base-sepolia unless overridden
+ *
+ * The asset defaults to the network's registered stablecoin, payTo to an address of the network's family.
+ */
+export function createRequirements(overrides: RequirementsOverrides = {}): PaymentRequirements {
+  const network = overrides.network || "base-sepolia";
+  return {
+    scheme: "exact",
+    maxAmountRequired: "1000000",
+    resource: "https://api.example.com/protected",
+    description: "",
+    mimeType: "application/json",
+    payTo: isSolanaNetwork(network) ? SVM_PAY_TO : EVM_PAY_TO,
+    maxTimeoutSeconds: 60,
+    asset: getChain(network)?.stablecoins?.[0]?.address || "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    ...overrides,
+    network,
+  } as PaymentRequirements;
+}
+
+/**
+ * fetch that answers the first request with a 402 listing `accepts`, then each retry with `retry()`
+ */
+export function createPaymentFetch(
+    accepts: PaymentRequirements[],
+    retry: (init?: RequestInit) => Response = () => new Response(JSON.stringify({ok: true}), {status: 200})
+) {
+  const calls: { url: string; init?: RequestInit }[] = [];
+  const fetchFn = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    calls.push({url: String(input), init});
+    const headers = new Headers(init?.headers);
+    return headers.has("X-PAYMENT")
+        ? retry(init)
+        : new Response(JSON.stringify({x402Version: 1, accepts}), {status: 402});
+  };
+  return Object.assign(fetchFn, {calls});
+}
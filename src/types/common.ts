@@ -4,6 +4,8 @@
  */
 
 import {VersionedTransaction} from "@solana/web3.js";
+import type {PaymentRequirements, SettleResponse} from "x402/types";
+import type {PaymentOperationError} from "../utils/payment-error-handler";
 
 /**
  * Generic wallet adapter interface - works with any wallet provider
@@ -34,6 +36,160 @@ export interface EvmWalletAdapter {
     getChainId?: () => Promise<string>; // Returns hex format like "0x14a34"
 }
 
+/**
+ * Result of a completed x402 payment flow
+ */
+export interface PaymentResult {
+    // Raw response from the endpoint
+    response: Response;
+
+    // Decoded X-PAYMENT-RESPONSE header (null if absent, invalid, or no payment was needed)
+    settlement: SettleResponse | null;
+}
+
+/**
+ * Payload of each payment lifecycle event
+ */
+export interface PaymentLifecycleEvents {
+    // 402 response parsed
+    requirementsReceived: { endpoint: string; x402Version: number; accepts: PaymentRequirements[] };
+    // Requirement chosen for payment
+    requirementSelected: { endpoint: string; requirements: PaymentRequirements; candidates: PaymentRequirements[] };
+    // EVM wallet asked to switch chain
+    chainSwitchRequested: { network: string; fromChainId?: number; toChainId: number };
+    // About to build and sign the payment - return false to veto
+    beforeSign: { endpoint: string; requirements: PaymentRequirements; payer: string };
+    // X-PAYMENT header created
+    signed: { endpoint: string; requirements: PaymentRequirements; paymentHeader: string };
+    // Paid request about to be sent
+    retrySent: { endpoint: string; requirements: PaymentRequirements };
+    // Paid request completed
+    settled: { endpoint: string; requirements: PaymentRequirements; response: Response; settlement: SettleResponse | null };
+    // Flow threw (including cancellation and vetoes)
+    failed: { endpoint: string; error: PaymentOperationError };
+}
+
+export type PaymentLifecycleEvent = keyof PaymentLifecycleEvents;
+
+/**
+ * Callbacks for payment lifecycle events
+ *
+ * Hooks are awaited. Errors thrown by hooks are logged and ignored, except in
+ * `beforeSign`, where throwing or returning false cancels the payment.
+ */
+export type PaymentLifecycleHooks = {
+    [K in PaymentLifecycleEvent]?: (
+        payload: PaymentLifecycleEvents[K]
+    ) => K extends 'beforeSign' ? boolean | void | Promise<boolean | void> : void | Promise<void>;
+};
+
+/**
+ * Subscribable source of payment lifecycle events
+ */
+export interface PaymentEventSource {
+    on<K extends PaymentLifecycleEvent>(
+        event: K,
+        listener: NonNullable<PaymentLifecycleHooks[K]>
+    ): () => void;
+    off<K extends PaymentLifecycleEvent>(event: K, listener: NonNullable<PaymentLifecycleHooks[K]>): void;
+}
+
+/**
+ * Custom requirement selector - receives the accepts entries payable with the
+ * connected wallets (in server order) and returns the one to pay
+ */
+export type PaymentRequirementsSelector = (
+    candidates: PaymentRequirements[]
+) => PaymentRequirements | undefined;
+
+/**
+ * Strategy for choosing among multiple payable accepts entries
+ */
+export type PaymentPreference =
+    // First payable entry, in the order the server listed them (default)
+    | { strategy: 'first' }
+    // First entry whose network appears earliest in `networks`, falling back to 'first'
+    | { strategy: 'network'; networks: string[] }
+    // Lowest amount in token units (atomic amounts scaled by the token's decimals)
+    | { strategy: 'cheapest' }
+    // Caller-supplied selector
+    | { strategy: 'custom'; select: PaymentRequirementsSelector };
+
+/**
+ * Cancellation options accepted by every payment entry point
+ */
+export interface PaymentAbortOptions {
+    signal?: AbortSignal; // Cancels the flow (throws PaymentErrorCode.CANCELLED)
+    timeoutMs?: number; // Cancels the flow after this many ms (throws PaymentErrorCode.TIMEOUT)
+}
+
+/**
+ * Options shared by every payment entry point
+ */
+export interface PaymentFlowOptions extends PaymentAbortOptions {
+    hooks?: PaymentLifecycleHooks; // Progress / veto / metrics callbacks
+    logger?: Logger; // Defaults to the SDK logger (see setLogger)
+}
+
+/**
+ * Configuration for the chain-agnostic payment client
+ */
+export interface X402ClientConfig extends PaymentFlowOptions {
+    evmWallet?: EvmWalletAdapter;
+    svmWallet?: WalletAdapter;
+    preference?: PaymentPreference;
+    svmRpcUrl?: string;
+    rpcUrls?: Record<string, string>; // Per-network RPC overrides, keyed by x402 network name
+    maxPaymentAmount?: bigint; // Maximum amount willing to pay (in atomic units)
+    fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
+    checkBalance?: boolean; // Check EVM token balance via JSON-RPC before signing
+}
+
+/**
+ * Token metadata (e.g. a chain's known stablecoins)
+ */
+export interface TokenInfo {
+    symbol: string;
+    name?: string;
+    address: string; // ERC-20 contract or SPL mint
+    decimals: number;
+    logoURI?: string; // Token icon URL
+}
+
+/**
+ * Where resolved token metadata came from
+ */
+export type TokenMetadataSource = 'registry' | 'extra' | 'chain';
+
+/**
+ * Token metadata resolved for a payment requirement's asset
+ */
+export interface TokenMetadata extends TokenInfo {
+    network: string;
+    source: TokenMetadataSource;
+}
+
+/**
+ * Chain definition held by the ChainRegistry
+ */
+export interface ChainConfig {
+    network: string; // x402 network name, e.g. "base-sepolia"
+    type: NetworkType;
+    chainId?: number; // EVM chain id
+    displayName: string;
+    rpcUrls: string[];
+    explorerUrl?: string;
+    explorerParams?: Record<string, string>; // Query params added to explorer links (e.g. Solscan's cluster)
+    nativeCurrency: {
+        name: string;
+        symbol: string;
+        decimals: number;
+    };
+    stablecoins?: TokenInfo[];
+    aliases?: string[]; // Alternative names resolving to this chain (e.g. "eth")
+    testnet?: boolean;
+}
+
 /**
  * Network type enum - for wallet detection
  */
@@ -44,5 +200,229 @@ export enum NetworkType {
     UNKNOWN = 'unknown'
 }
 
+/**
+ * Events a wallet connector can emit
+ */
+export interface WalletConnectorEvents {
+    accountsChanged: (accounts: string[]) => void;
+    chainChanged: (chainId: string) => void;
+    disconnect: () => void;
+}
+
+/**
+ * A wallet the user can pick within a connector (e.g. each EIP-6963 wallet)
+ */
+export interface ConnectorWallet {
+    id: string;
+    name: string;
+    icon: string;
+}
+
+interface BaseWalletConnector {
+    readonly id: string; // Unique connector id, e.g. "injected-evm"
+    readonly name: string; // Display name
+    readonly icon?: string;
+    readonly installUrl?: string; // Where to get the wallet when it is not installed
+
+    isInstalled: () => boolean;
+    // Prompt the user to connect; walletId picks one of wallets()
+    connect: (walletId?: string) => Promise<string>;
+    disconnect?: () => Promise<void> | void;
+    // Currently authorized address, without prompting
+    getAccount: () => Promise<string | null>;
+    // Restore a previously authorized session without a prompt; null when the user has to connect again
+    reconnect?: () => Promise<string | null>;
+    // EVM chain the wallet is on (omit when unknown or not applicable)
+    getChainId?: () => Promise<number | null>;
+    // Subscribe to a wallet event, returns an unsubscribe function
+    on?: <E extends keyof WalletConnectorEvents>(event: E, listener: WalletConnectorEvents[E]) => () => void;
+    // Wallets the user can choose between (omit for single-wallet connectors)
+    wallets?: () => ConnectorWallet[];
+    // Underlying provider object (window.ethereum, a Wallet Standard wallet, ...)
+    getProvider?: () => any;
+}
+
+/**
+ * Connects an EVM wallet and builds its payment adapter
+ */
+export interface EvmWalletConnector extends BaseWalletConnector {
+    readonly networkType: NetworkType.EVM;
+    toAdapter: () => Promise<EvmWalletAdapter>;
+}
+
+/**
+ * Connects a Solana wallet and builds its payment adapter
+ */
+export interface SvmWalletConnector extends BaseWalletConnector {
+    readonly networkType: NetworkType.SOLANA | NetworkType.SVM;
+    toAdapter: () => Promise<WalletAdapter>;
+}
+
+/**
+ * Wallet connector used by walletStore and makePayment (see registerConnector)
+ */
+export type WalletConnector = EvmWalletConnector | SvmWalletConnector;
+
+/**
+ * Wallet state change shared with other tabs of the same origin
+ */
+export type WalletSyncMessage =
+    | { type: 'connect'; networkType: NetworkType; address: string; chainId: number | null }
+    | { type: 'disconnect'; networkType: NetworkType };
+
+/**
+ * Structured log fields
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger used for all SDK diagnostics (console is compatible)
+ */
+export interface Logger {
+    debug: (message: string, fields?: LogFields) => void;
+    info: (message: string, fields?: LogFields) => void;
+    warn: (message: string, fields?: LogFields) => void;
+    error: (message: string, fields?: LogFields) => void;
+}
+
+/**
+ * Key-value storage for wallet state (localStorage is compatible)
+ */
+export interface WalletStorage {
+    getItem: (key: string) => string | null;
+    setItem: (key: string, value: string) => void;
+    removeItem: (key: string) => void;
+}
+
+/**
+ * Where wallet state is persisted
+ */
+export interface WalletStorageOptions {
+    storage?: WalletStorage; // Defaults to localStorage in the browser, in-memory elsewhere
+    namespace?: string; // Prefix for every key, so several apps on one origin don't collide
+}
+
+/**
+ * Runtime configuration for a v402pay client
+ */
+export interface V402ClientConfig {
+    baseUrl?: string; // v402pay API base URL (defaults to PROD_BACK_URL)
+    merchantId?: string; // Default merchant / checkout id
+    fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
+    logger?: Logger; // Defaults to the SDK logger (console in development, silent in production)
+    rpcUrls?: Record<string, string>; // Per-network RPC overrides, keyed by x402 network name
+    checkBalance?: boolean; // Check EVM token balance via JSON-RPC before signing
+    hooks?: PaymentLifecycleHooks; // Lifecycle hooks applied to every makePayment() call
+    locale?: string; // Locale for components using this client (defaults to the SDK locale, see setLocale)
+}
+
+/**
+ * Per-request options for V402Client calls
+ */
+export interface V402RequestOptions extends PaymentFlowOptions {
+    merchantId?: string; // Overrides the client's default merchantId
+    additionalParams?: Record<string, any>; // Sent as JSON body, forwarded to the checkout callback
+    preference?: PaymentPreference; // Which accepts entry makePayment() pays (defaults to the first payable one)
+}
+
+/**
+ * v402pay client created by createV402Client()
+ */
+export interface V402Client {
+    readonly baseUrl: string;
+    readonly merchantId?: string;
+    readonly fetch: typeof fetch;
+    readonly logger: Logger;
+    readonly locale?: string;
+    readonly rpcUrls: Record<string, string>;
+    readonly events: PaymentEventSource; // Subscribe to lifecycle events of makePayment() calls
+
+    // Full checkout endpoint for a merchant
+    getCheckoutUrl: (merchantId?: string) => string;
+
+    // RPC URL for a network (override first, then chain registry default)
+    getRpcUrl: (network: string) => string | undefined;
+
+    // Fetch the accepts list from the checkout endpoint (null if no payment is required)
+    fetchPaymentRequirements: (options?: V402RequestOptions) => Promise<PaymentRequirements[] | null>;
+
+    // Resolve symbol, decimals and icon of the requirement's asset
+    getTokenMetadata: (requirements: Pick<PaymentRequirements, 'network' | 'asset' | 'extra'>) => Promise<TokenMetadata | null>;
+
+    // Pay the checkout with the injected wallet for the given network type
+    makePayment: (networkType: NetworkType, options?: V402RequestOptions) => Promise<PaymentResult>;
+}
+
+/**
+ * Steps of a checkout
+ *
+ * idle → loadingRequirements → awaitingWallet → wrongNetwork → readyToPay → signing → submitting → success / failed
+ */
+export type CheckoutStatus =
+    | 'idle'
+    | 'loadingRequirements'
+    | 'awaitingWallet' // No wallet, or a wallet of another network type
+    | 'wrongNetwork' // EVM wallet on another chain than the requirement
+    | 'readyToPay'
+    | 'signing' // Preparing and signing the payment
+    | 'submitting' // Paid request sent, waiting for settlement
+    | 'success'
+    | 'failed'; // Loading or payment failed (no requirements means the checkout could not be loaded)
+
+/**
+ * Wallet as seen by the checkout
+ */
+export interface CheckoutWallet {
+    address: string | null;
+    networkType: NetworkType | null;
+    chainId: number | null; // EVM chain the wallet is on
+}
+
+/**
+ * Snapshot of a checkout
+ */
+export interface CheckoutState {
+    status: CheckoutStatus;
+    requirements: PaymentRequirements[] | null; // Accepts list of the checkout
+    selected: PaymentRequirements | null; // Requirement the checkout pays
+    wallet: CheckoutWallet;
+    result: any; // Parsed response body of the paid request
+    settlement: SettleResponse | null; // Decoded X-PAYMENT-RESPONSE header
+    error: PaymentOperationError | null;
+}
+
+/**
+ * Options for createCheckoutMachine()
+ */
+export interface CheckoutMachineOptions extends PaymentFlowOptions {
+    client: V402Client;
+    checkoutId: string;
+    additionalParams?: Record<string, any>; // Forwarded to the checkout callback
+    networkType?: NetworkType; // Select the first accepts entry of this network type initially
+}
+
+/**
+ * Framework-agnostic checkout flow created by createCheckoutMachine()
+ */
+export interface CheckoutMachine {
+    getState: () => CheckoutState;
+    // Called on every state change, returns an unsubscribe function
+    subscribe: (listener: () => void) => () => void;
+
+    // Fetch the accepts list (again)
+    load: () => Promise<void>;
+    // Report the connected wallet; moves between awaitingWallet, wrongNetwork and readyToPay
+    setWallet: (wallet: CheckoutWallet) => void;
+    // Choose the accepts entry to pay (ignored while paying and after success until reset())
+    select: (requirements: PaymentRequirements) => void;
+    // Sign and submit the payment, resolves with the final state (never rejects);
+    // only starts from readyToPay or failed, otherwise resolves with the current state
+    pay: () => Promise<CheckoutState>;
+    // Leave success / failed and go back to the wallet-derived status
+    reset: () => void;
+    // Abort loading or paying in progress
+    cancel: () => void;
+}
+
 export const PROD_BACK_URL = "https://v402pay.onvoyage.ai/api/pay";
 
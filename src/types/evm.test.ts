@@ -0,0 +1,56 @@
+import {describe, expect, it} from "vitest";
+import {registerChain} from "../utils/chain-registry";
+import {PaymentErrorCode} from "../utils/payment-error-handler";
+import {NetworkType} from "./common";
+import {EVM_NETWORK_CONFIGS, getChainId, getEvmNetworkConfig, getEvmNetworkConfigs} from "./evm";
+
+describe("getChainId", () => {
+  it("reads the chain id from the registry", () => {
+    expect(getChainId("ethereum")).toBe(1);
+    expect(getChainId("base-sepolia")).toBe(84532);
+    expect(getChainId("eth")).toBe(1);
+  });
+
+  it.each(["unknown", "solana"])("throws UNSUPPORTED_NETWORK for %s", (network) => {
+    expect(() => getChainId(network)).toThrow(expect.objectContaining({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      details: {network},
+    }));
+  });
+});
+
+describe("getEvmNetworkConfig", () => {
+  it("builds the wallet_addEthereumChain config", () => {
+    expect(getEvmNetworkConfig("base")).toMatchObject({
+      chainId: "0x2105",
+      chainName: "Base",
+      blockExplorerUrls: ["https://basescan.org"],
+    });
+  });
+
+  it("returns undefined for non-EVM networks", () => {
+    expect(getEvmNetworkConfig("solana")).toBeUndefined();
+    expect(getEvmNetworkConfig("unknown")).toBeUndefined();
+  });
+});
+
+describe("getEvmNetworkConfigs", () => {
+  it("includes chains registered after load, unlike EVM_NETWORK_CONFIGS", () => {
+    registerChain({
+      network: "evm-configs-test",
+      type: NetworkType.EVM,
+      chainId: 999_001,
+      displayName: "Configs Test",
+      rpcUrls: ["http://127.0.0.1:8545"],
+      nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
+    });
+
+    const configs = getEvmNetworkConfigs();
+    expect(configs["evm-configs-test"]).toMatchObject({chainId: "0xf3e59", chainName: "Configs Test"});
+    expect(configs.base).toEqual(getEvmNetworkConfig("base"));
+    expect(configs.solana).toBeUndefined();
+
+    expect(EVM_NETWORK_CONFIGS.base).toEqual(getEvmNetworkConfig("base"));
+    expect(EVM_NETWORK_CONFIGS["evm-configs-test"]).toBeUndefined();
+  });
+});
@@ -5,7 +5,10 @@
 
 import {z} from "zod";
 import {ExactEvmPayloadSchema, type PaymentRequirements} from "x402/types";
-import type {EvmWalletAdapter} from "./common";
+import type {EvmWalletAdapter, Logger, PaymentFlowOptions} from "./common";
+import {NetworkType} from "./common";
+import {chainRegistry, getChain} from "../utils/chain-registry";
+import {PaymentErrorCode, PaymentOperationError} from "../utils/payment-error-handler";
 
 // Re-export x402 EVM types
 export type {PaymentRequirements};
@@ -37,13 +40,43 @@ export const EvmPaymentPayloadSchema = z.object({
 
 export type EvmPaymentPayload = z.infer<typeof EvmPaymentPayloadSchema>;
 
+/**
+ * Minimal EIP-1193 provider (window.ethereum, WalletConnect, Privy, ...)
+ */
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: unknown[] | object }) => Promise<any>;
+  on?: (event: string, listener: (...args: any[]) => void) => void;
+  removeListener?: (event: string, listener: (...args: any[]) => void) => void;
+}
+
+/**
+ * Wallet metadata announced via EIP-6963
+ */
+export interface Eip6963ProviderInfo {
+  uuid: string; // Unique per page load
+  name: string; // Display name, e.g. "MetaMask"
+  icon: string; // Data URI of the wallet icon
+  rdns: string; // Reverse-DNS id, stable across sessions, e.g. "io.metamask"
+}
+
+/**
+ * Wallet announced via EIP-6963
+ */
+export interface Eip6963ProviderDetail {
+  info: Eip6963ProviderInfo;
+  provider: Eip1193Provider;
+}
+
 /**
  * Configuration for EVM payment client
  */
-export interface EvmClientConfig {
+export interface EvmClientConfig extends PaymentFlowOptions {
   wallet: EvmWalletAdapter;
-  network: EvmNetwork;
+  network: string; // Any EVM network in the chain registry, including ones added with registerChain()
   maxPaymentAmount?: bigint; // Maximum amount willing to pay (in atomic units)
+  fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
+  checkBalance?: boolean; // Check ERC-20 balance via JSON-RPC before signing
+  rpcUrl?: string; // JSON-RPC URL for the balance check (defaults to chain registry)
 }
 
 /**
@@ -54,6 +87,23 @@ export interface CreateEvmPaymentHeaderParams {
   paymentRequirements: PaymentRequirements;
   x402Version: number;
   chainId: number;
+  checkBalance?: boolean; // Check ERC-20 balance via JSON-RPC before signing
+  rpcUrl?: string; // JSON-RPC URL for the balance check (defaults to chain registry)
+  signal?: AbortSignal; // Checked right before the wallet signature prompt
+  logger?: Logger; // Defaults to the SDK logger
+}
+
+/**
+ * Parameters for paying an already-selected EVM payment requirement
+ */
+export interface ExecuteEvmPaymentParams extends PaymentFlowOptions {
+  wallet: EvmWalletAdapter;
+  paymentRequirements: PaymentRequirements;
+  x402Version: number;
+  maxPaymentAmount?: bigint; // Maximum amount willing to pay (in atomic units)
+  fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
+  checkBalance?: boolean; // Check ERC-20 balance via JSON-RPC before signing
+  rpcUrl?: string; // JSON-RPC URL for the balance check (defaults to chain registry)
 }
 
 /**
@@ -68,51 +118,63 @@ export interface EvmNetworkConfig {
     symbol: string;
     decimals: number;
   };
+  blockExplorerUrls?: string[];
+}
+
+/**
+ * Get wallet network configuration (wallet_addEthereumChain format) for an EVM network
+ */
+export function getEvmNetworkConfig(network: string): EvmNetworkConfig | undefined {
+  const chain = getChain(network);
+  if (!chain || chain.type !== NetworkType.EVM || !chain.chainId) {
+    return undefined;
+  }
+  return {
+    chainId: `0x${chain.chainId.toString(16)}`,
+    chainName: chain.displayName,
+    rpcUrls: chain.rpcUrls,
+    nativeCurrency: chain.nativeCurrency,
+    ...(chain.explorerUrl ? {blockExplorerUrls: [chain.explorerUrl]} : {}),
+  };
+}
+
+/**
+ * Get wallet network configurations for every registered EVM chain
+ *
+ * Reads the chain registry on each call, so chains added with registerChain() are included.
+ */
+export function getEvmNetworkConfigs(): Record<string, EvmNetworkConfig> {
+  const configs: Record<string, EvmNetworkConfig> = {};
+  for (const chain of chainRegistry.list(NetworkType.EVM)) {
+    const config = getEvmNetworkConfig(chain.network);
+    if (config) {
+      configs[chain.network] = config;
+    }
+  }
+  return configs;
 }
 
 /**
  * Common EVM network configurations
+ *
+ * Snapshot of the built-in chains; chains added later with registerChain() are not included.
+ * @deprecated Use getEvmNetworkConfig() or getEvmNetworkConfigs() instead
  */
-export const EVM_NETWORK_CONFIGS: Record<string, EvmNetworkConfig> = {
-  "ethereum": {
-    chainId: "0x1",
-    chainName: "Ethereum Mainnet",
-    rpcUrls: ["https://eth.llamarpc.com"],
-    nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
-  },
-  "sepolia": {
-    chainId: "0xaa36a7",
-    chainName: "Sepolia",
-    rpcUrls: ["https://sepolia.infura.io/v3/"],
-    nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
-  },
-  "base": {
-    chainId: "0x2105",
-    chainName: "Base",
-    rpcUrls: ["https://mainnet.base.org"],
-    nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
-  },
-  "base-sepolia": {
-    chainId: "0x14a34",
-    chainName: "Base Sepolia",
-    rpcUrls: ["https://sepolia.base.org"],
-    nativeCurrency: {name: "Ether", symbol: "ETH", decimals: 18},
-  },
-};
+export const EVM_NETWORK_CONFIGS: Record<string, EvmNetworkConfig> = getEvmNetworkConfigs();
 
 /**
  * Get chain ID from network name
+ *
+ * @throws PaymentOperationError (UNSUPPORTED_NETWORK) if the network is not a registered EVM chain
  */
 export function getChainId(network: string): number {
-  const chainIdMap: Record<string, number> = {
-    'ethereum': 1,
-    'sepolia': 11155111,
-    'base': 8453,
-    'base-sepolia': 84532,
-    'polygon': 137,
-    'arbitrum': 42161,
-    'optimism': 10,
-  };
-  return chainIdMap[network.toLowerCase()] || 1;
+  const chain = getChain(network);
+  if (!chain || chain.type !== NetworkType.EVM || !chain.chainId) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.UNSUPPORTED_NETWORK,
+      message: `Unknown EVM network: ${network}`,
+      details: {network},
+    });
+  }
+  return chain.chainId;
 }
-
@@ -51,10 +51,43 @@ export {
 export type {
   WalletAdapter,
   EvmWalletAdapter,
+  PaymentResult,
+  PaymentAbortOptions,
+  PaymentFlowOptions,
+  PaymentLifecycleEvents,
+  PaymentLifecycleEvent,
+  PaymentLifecycleHooks,
+  PaymentEventSource,
+  PaymentRequirementsSelector,
+  PaymentPreference,
+  X402ClientConfig,
+  ChainConfig,
+  TokenInfo,
+  TokenMetadata,
+  TokenMetadataSource,
+  Logger,
+  LogFields,
+  WalletStorage,
+  WalletStorageOptions,
+  V402Client,
+  V402ClientConfig,
+  V402RequestOptions,
+  CheckoutStatus,
+  CheckoutWallet,
+  CheckoutState,
+  CheckoutMachine,
+  CheckoutMachineOptions,
+  WalletConnector,
+  EvmWalletConnector,
+  SvmWalletConnector,
+  WalletConnectorEvents,
+  ConnectorWallet,
+  WalletSyncMessage,
 } from "./common";
 
 export {
   NetworkType,
+  PROD_BACK_URL,
 } from "./common";
 
 // ============================================
@@ -65,6 +98,10 @@ export type {
   SolanaPaymentPayload,
   SvmClientConfig,
   CreateSvmPaymentHeaderParams,
+  ExecuteSvmPaymentParams,
+  StandardWallet,
+  StandardWalletAccount,
+  StandardWalletInfo,
 } from "./svm";
 
 export {
@@ -80,7 +117,11 @@ export type {
   EvmPaymentPayload,
   EvmClientConfig,
   CreateEvmPaymentHeaderParams,
+  ExecuteEvmPaymentParams,
   EvmNetworkConfig,
+  Eip1193Provider,
+  Eip6963ProviderInfo,
+  Eip6963ProviderDetail,
 } from "./evm";
 
 export {
@@ -88,4 +129,6 @@ export {
   EvmPaymentPayloadSchema,
   EVM_NETWORK_CONFIGS,
   getChainId,
+  getEvmNetworkConfig,
+  getEvmNetworkConfigs,
 } from "./evm";
@@ -5,7 +5,7 @@
 
 import {z} from "zod";
 import {ExactSvmPayloadSchema, type PaymentRequirements} from "x402/types";
-import type {WalletAdapter} from "./common";
+import type {Logger, PaymentFlowOptions, WalletAdapter} from "./common";
 
 // Re-export x402 SVM types
 export type {PaymentRequirements};
@@ -36,11 +36,12 @@ export type SolanaPaymentPayload = z.infer<typeof SolanaPaymentPayloadSchema>;
 /**
  * Configuration for Solana payment client
  */
-export interface SvmClientConfig {
+export interface SvmClientConfig extends PaymentFlowOptions {
   wallet: WalletAdapter;
   network: SolanaNetwork;
   rpcUrl?: string;
   maxPaymentAmount?: bigint; // Maximum amount willing to pay (in atomic units)
+  fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
 }
 
 /**
@@ -51,5 +52,50 @@ export interface CreateSvmPaymentHeaderParams {
   paymentRequirements: PaymentRequirements;
   x402Version: number;
   rpcUrl: string;
+  signal?: AbortSignal; // Checked right before the wallet signature prompt
+  logger?: Logger; // Defaults to the SDK logger
 }
 
+/**
+ * Parameters for paying an already-selected Solana payment requirement
+ */
+export interface ExecuteSvmPaymentParams extends PaymentFlowOptions {
+  wallet: WalletAdapter;
+  paymentRequirements: PaymentRequirements;
+  x402Version: number;
+  rpcUrl?: string; // Defaults to getDefaultSolanaRpcUrl(paymentRequirements.network)
+  maxPaymentAmount?: bigint; // Maximum amount willing to pay (in atomic units)
+  fetch?: typeof fetch; // Custom fetch implementation (defaults to global fetch)
+}
+
+/**
+ * Account exposed by a Wallet Standard wallet
+ *
+ * Typed structurally so @wallet-standard/base stays an optional dependency.
+ */
+export interface StandardWalletAccount {
+  address: string; // Base58 public key
+  publicKey: Uint8Array;
+  chains: readonly string[]; // e.g. "solana:mainnet"
+  features: readonly string[];
+}
+
+/**
+ * Wallet registered through the Wallet Standard (Phantom, Backpack, Solflare, ...)
+ */
+export interface StandardWallet {
+  version: string;
+  name: string;
+  icon: string; // Data URI of the wallet icon
+  chains: readonly string[];
+  features: Readonly<Record<string, any>>; // e.g. "standard:connect", "solana:signTransaction"
+  accounts: readonly StandardWalletAccount[];
+}
+
+/**
+ * Display metadata of a Wallet Standard wallet
+ */
+export interface StandardWalletInfo {
+  name: string; // Also used as the wallet id
+  icon: string;
+}
@@ -0,0 +1,117 @@
+/**
+ * Payment Cancellation
+ *
+ * AbortSignal / timeout helpers shared by all payment entry points.
+ * Flows check the signal before signing and before the paid retry, so a
+ * cancelled payment is never submitted.
+ */
+
+import type {PaymentAbortOptions} from "../types/common";
+import {PaymentErrorCode, PaymentOperationError} from "./payment-error-handler";
+
+function createCancelledError(reason?: any): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.CANCELLED,
+    message: 'Payment was cancelled',
+    originalError: reason,
+  });
+}
+
+function createTimeoutError(timeoutMs: number): PaymentOperationError {
+  return new PaymentOperationError({
+    code: PaymentErrorCode.TIMEOUT,
+    message: `Payment timed out after ${timeoutMs}ms`,
+    details: {timeoutMs},
+  });
+}
+
+/**
+ * Get the CANCELLED / TIMEOUT error for an aborted signal
+ */
+export function getAbortError(signal: AbortSignal): PaymentOperationError {
+  const reason = signal.reason;
+  if (reason instanceof PaymentOperationError) {
+    return reason;
+  }
+  return createCancelledError(reason);
+}
+
+/**
+ * Throw CANCELLED / TIMEOUT if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw getAbortError(signal);
+  }
+}
+
+/**
+ * Settle with `promise`, or reject with the CANCELLED / TIMEOUT error as soon as the signal aborts
+ *
+ * For calls that take no signal themselves (e.g. ethers contract reads); the call itself keeps running.
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener('abort', onAbort, {once: true});
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Run a payment flow with a combined signal for `signal` and `timeoutMs`
+ *
+ * Errors thrown after the signal aborts (e.g. fetch's AbortError) are
+ * replaced by the CANCELLED / TIMEOUT error.
+ *
+ * @param options - Caller signal and timeout
+ * @param run - Flow to run; receives the combined signal (undefined if neither option is set)
+ */
+export async function withPaymentAbort<T>(
+    options: PaymentAbortOptions,
+    run: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  const {signal, timeoutMs} = options;
+
+  if (!timeoutMs) {
+    throwIfAborted(signal);
+    try {
+      return await run(signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        throw getAbortError(signal);
+      }
+      throw error;
+    }
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason instanceof PaymentOperationError
+      ? signal.reason
+      : createCancelledError(signal?.reason));
+  const timer = setTimeout(() => controller.abort(createTimeoutError(timeoutMs)), timeoutMs);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, {once: true});
+  }
+
+  try {
+    throwIfAborted(controller.signal);
+    return await run(controller.signal);
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw getAbortError(controller.signal);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
@@ -0,0 +1,98 @@
+import {describe, expect, it} from "vitest";
+import {formatAmount, formatUnits, parseUnits, roundUnits} from "./amount";
+
+describe("parseUnits", () => {
+  it("converts decimal strings without losing precision", () => {
+    expect(parseUnits("1", 6)).toBe(1_000_000n);
+    expect(parseUnits("2.5", 6)).toBe(2_500_000n);
+    expect(parseUnits("0.000001", 6)).toBe(1n);
+    expect(parseUnits("1.000000000000000001", 18)).toBe(1_000_000_000_000_000_001n);
+    expect(parseUnits("123456789012345678901234567890", 18)).toBe(123456789012345678901234567890n * 10n ** 18n);
+  });
+
+  it("accepts numbers, bigints, exponents and separators", () => {
+    expect(parseUnits(2.5, 6)).toBe(2_500_000n);
+    expect(parseUnits(2n, 6)).toBe(2_000_000n);
+    expect(parseUnits("1e-6", 6)).toBe(1n);
+    expect(parseUnits("1.5E3", 0)).toBe(1500n);
+    expect(parseUnits("1_000", 2)).toBe(100_000n);
+    expect(parseUnits(".5", 1)).toBe(5n);
+    expect(parseUnits("5.", 1)).toBe(50n);
+    expect(parseUnits(" 1.25 ", 2)).toBe(125n);
+  });
+
+  it("handles negative amounts", () => {
+    expect(parseUnits("-1.5", 6)).toBe(-1_500_000n);
+    expect(parseUnits("-0.0000015", 6)).toBe(-2n);
+  });
+
+  it("rounds extra fraction digits with the given mode", () => {
+    expect(parseUnits("0.0000015", 6)).toBe(1n);
+    expect(parseUnits("0.0000015", 6, "ceil")).toBe(2n);
+    expect(parseUnits("0.0000015", 6, "trunc")).toBe(1n);
+    expect(parseUnits("0.0000015", 6, "halfUp")).toBe(2n);
+    expect(parseUnits("0.0000025", 6, "halfEven")).toBe(2n);
+    expect(parseUnits("0.0000035", 6, "halfEven")).toBe(4n);
+    expect(parseUnits("-0.0000015", 6, "trunc")).toBe(-1n);
+    expect(parseUnits("-0.0000015", 6, "ceil")).toBe(-1n);
+    expect(parseUnits("-0.0000015", 6, "halfUp")).toBe(-2n);
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => parseUnits("", 6)).toThrow("Invalid amount");
+    expect(() => parseUnits("abc", 6)).toThrow("Invalid amount");
+    expect(() => parseUnits("1.2.3", 6)).toThrow("Invalid amount");
+    expect(() => parseUnits(".", 6)).toThrow("Invalid amount");
+    expect(() => parseUnits(Number.NaN, 6)).toThrow("Invalid amount");
+    expect(() => parseUnits(Infinity, 6)).toThrow("Invalid amount");
+    expect(() => parseUnits("1", -1)).toThrow("Invalid decimals");
+    expect(() => parseUnits("1", 1.5)).toThrow("Invalid decimals");
+  });
+});
+
+describe("formatUnits", () => {
+  it("formats atomic units as a plain decimal", () => {
+    expect(formatUnits(2_500_000n, 6)).toBe("2.5");
+    expect(formatUnits(1n, 6)).toBe("0.000001");
+    expect(formatUnits(0n, 6)).toBe("0");
+    expect(formatUnits(1_000_000n, 6)).toBe("1");
+    expect(formatUnits(1_000_000_000_000_000_001n, 18)).toBe("1.000000000000000001");
+    expect(formatUnits(42n, 0)).toBe("42");
+  });
+
+  it("accepts strings and numbers and keeps the sign", () => {
+    expect(formatUnits("1500000", 6)).toBe("1.5");
+    expect(formatUnits(1500000, 6)).toBe("1.5");
+    expect(formatUnits(-1_500_000n, 6)).toBe("-1.5");
+  });
+
+  it("round-trips with parseUnits", () => {
+    for (const amount of ["0", "1", "0.1", "123.456789", "99999999999.999999"]) {
+      expect(formatUnits(parseUnits(amount, 6), 6)).toBe(amount);
+    }
+  });
+});
+
+describe("roundUnits", () => {
+  it("rounds below the display digits", () => {
+    expect(roundUnits(1_234_567n, 6, 2)).toBe(1_230_000n);
+    expect(roundUnits(1_235_000n, 6, 2)).toBe(1_240_000n);
+    expect(roundUnits(1_235_000n, 6, 2, "floor")).toBe(1_230_000n);
+    expect(roundUnits(1_234_567n, 6, 6)).toBe(1_234_567n);
+  });
+});
+
+describe("formatAmount", () => {
+  it("adds separators and fraction padding", () => {
+    expect(formatAmount(1_234_500_000n, 6, {locale: "en-US", minimumFractionDigits: 2, maximumFractionDigits: 2}))
+        .toBe("1,234.50");
+    expect(formatAmount(1_234_500_000n, 6, {locale: "de-DE", minimumFractionDigits: 2, maximumFractionDigits: 2}))
+        .toBe("1.234,50");
+    expect(formatAmount(1_234_500_000n, 6, {locale: "en-US", useGrouping: false})).toBe("1234.5");
+  });
+
+  it("rounds to the maximum fraction digits", () => {
+    expect(formatAmount(1_999_999n, 6, {locale: "en-US", maximumFractionDigits: 2})).toBe("2");
+    expect(formatAmount(-1_234_567n, 6, {locale: "en-US", maximumFractionDigits: 2})).toBe("-1.23");
+  });
+});
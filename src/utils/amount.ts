@@ -0,0 +1,197 @@
+/**
+ * Amount utilities
+ *
+ * Exact decimal <-> atomic unit conversion using strings and bigint.
+ * No floating point is involved, so 18-decimal tokens and large amounts keep full precision.
+ */
+
+/**
+ * Rounding mode used when a value has more fractional digits than allowed
+ *
+ * - `floor`: toward negative infinity
+ * - `ceil`: toward positive infinity
+ * - `trunc`: toward zero
+ * - `halfUp`: to nearest, ties away from zero
+ * - `halfEven`: to nearest, ties to even (banker's rounding)
+ */
+export type RoundingMode = 'floor' | 'ceil' | 'trunc' | 'halfUp' | 'halfEven';
+
+/**
+ * Options for formatAmount()
+ */
+export interface FormatAmountOptions {
+  locale?: string | string[]; // BCP 47 locale for separators (defaults to runtime locale)
+  minimumFractionDigits?: number; // Pad with zeros up to this many digits (default 0)
+  maximumFractionDigits?: number; // Round to this many digits (default: token decimals)
+  rounding?: RoundingMode; // Default 'halfUp'
+  useGrouping?: boolean; // Thousands separators (default true)
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new Error(`Invalid decimals: ${decimals}`);
+  }
+}
+
+/**
+ * Divide by 10^shift, rounding the discarded digits with the given mode
+ */
+function shiftRight(value: bigint, shift: number, rounding: RoundingMode): bigint {
+  if (shift <= 0) {
+    return value * 10n ** BigInt(-shift);
+  }
+
+  const divisor = 10n ** BigInt(shift);
+  const quotient = value / divisor; // truncates toward zero
+  const remainder = value % divisor;
+  if (remainder === 0n) {
+    return quotient;
+  }
+
+  const negative = value < 0n;
+  const absRemainderDoubled = (remainder < 0n ? -remainder : remainder) * 2n;
+  const awayFromZero = negative ? quotient - 1n : quotient + 1n;
+
+  switch (rounding) {
+    case 'floor':
+      return negative ? awayFromZero : quotient;
+    case 'ceil':
+      return negative ? quotient : awayFromZero;
+    case 'trunc':
+      return quotient;
+    case 'halfUp':
+      return absRemainderDoubled >= divisor ? awayFromZero : quotient;
+    case 'halfEven':
+      if (absRemainderDoubled === divisor) {
+        return quotient % 2n === 0n ? quotient : awayFromZero;
+      }
+      return absRemainderDoubled > divisor ? awayFromZero : quotient;
+  }
+}
+
+/**
+ * Parse a decimal amount into atomic units
+ *
+ * @param amount - Human-readable amount ("2.5", "1e-6", 2.5 or 2n)
+ * @param decimals - Token decimals (e.g., 6 for USDC, 18 for ETH)
+ * @param rounding - How to handle digits beyond `decimals` (default 'floor')
+ * @returns Amount in atomic units
+ *
+ * @example
+ * ```typescript
+ * parseUnits("1.000000000000000001", 18); // 1000000000000000001n
+ * parseUnits("0.0000015", 6, "halfUp");  // 2n
+ * ```
+ */
+export function parseUnits(
+    amount: string | number | bigint,
+    decimals: number,
+    rounding: RoundingMode = 'floor'
+): bigint {
+  assertDecimals(decimals);
+
+  if (typeof amount === 'bigint') {
+    return amount * 10n ** BigInt(decimals);
+  }
+
+  if (typeof amount === 'number' && !Number.isFinite(amount)) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const text = String(amount).trim().replace(/_/g, '');
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${amount}`);
+  }
+
+  const [, sign, integerDigits = '', fractionDigits = '', exponent = '0'] = match;
+  const digits = BigInt((integerDigits + fractionDigits) || '0');
+  const signed = sign === '-' ? -digits : digits;
+
+  // value = signed * 10^(exponent - fractionDigits.length); atomic = value * 10^decimals
+  const scale = decimals + parseInt(exponent, 10) - fractionDigits.length;
+  return shiftRight(signed, -scale, rounding);
+}
+
+/**
+ * Format atomic units as an exact decimal string
+ *
+ * @param atomicUnits - Token amount in smallest units
+ * @param decimals - Token decimals
+ * @returns Plain decimal string without trailing zeros (e.g. "2.5")
+ *
+ * @example
+ * ```typescript
+ * formatUnits(1000000000000000001n, 18); // "1.000000000000000001"
+ * ```
+ */
+export function formatUnits(atomicUnits: bigint | string | number, decimals: number): string {
+  assertDecimals(decimals);
+
+  const value = BigInt(atomicUnits);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+  const integerPart = digits.slice(0, digits.length - decimals);
+  const fractionPart = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${integerPart}${fractionPart ? `.${fractionPart}` : ''}`;
+}
+
+/**
+ * Round atomic units to a number of display fraction digits
+ *
+ * @returns Atomic units with everything below `fractionDigits` rounded away
+ */
+export function roundUnits(
+    atomicUnits: bigint | string | number,
+    decimals: number,
+    fractionDigits: number,
+    rounding: RoundingMode = 'halfUp'
+): bigint {
+  assertDecimals(decimals);
+  const drop = decimals - fractionDigits;
+  if (drop <= 0) {
+    return BigInt(atomicUnits);
+  }
+  return shiftRight(BigInt(atomicUnits), drop, rounding) * 10n ** BigInt(drop);
+}
+
+/**
+ * Format atomic units for display with locale-aware separators
+ *
+ * @param atomicUnits - Token amount in smallest units
+ * @param decimals - Token decimals
+ * @param options - Locale, fraction digits and rounding
+ * @returns Localised string (e.g. "1,234.50" in en-US, "1.234,50" in de-DE)
+ *
+ * @example
+ * ```typescript
+ * formatAmount(1234500000n, 6, {minimumFractionDigits: 2, maximumFractionDigits: 2}); // "1,234.50"
+ * ```
+ */
+export function formatAmount(
+    atomicUnits: bigint | string | number,
+    decimals: number,
+    options: FormatAmountOptions = {}
+): string {
+  const {
+    locale,
+    minimumFractionDigits = 0,
+    maximumFractionDigits = decimals,
+    rounding = 'halfUp',
+    useGrouping = true,
+  } = options;
+
+  const rounded = roundUnits(atomicUnits, decimals, maximumFractionDigits, rounding);
+  const [integerText, fractionText = ''] = formatUnits(rounded, decimals).split('.');
+  const negative = integerText.startsWith('-');
+
+  const numberFormat = new Intl.NumberFormat(locale, {useGrouping});
+  const integerFormatted = numberFormat.format(BigInt(integerText.replace('-', '')));
+  const decimalSeparator = numberFormat.formatToParts(1.1).find(part => part.type === 'decimal')?.value || '.';
+  const fraction = fractionText.padEnd(Math.min(minimumFractionDigits, Math.max(maximumFractionDigits, 0)), '0');
+
+  return `${negative ? '-' : ''}${integerFormatted}${fraction ? `${decimalSeparator}${fraction}` : ''}`;
+}
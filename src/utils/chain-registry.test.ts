@@ -0,0 +1,105 @@
+import {describe, expect, it} from "vitest";
+import {NetworkType} from "../types/common";
+import type {ChainConfig} from "../types/common";
+import {
+  chainRegistry,
+  ChainRegistry,
+  getChain,
+  getChainByChainId,
+  getExplorerAddressUrl,
+  getExplorerTxUrl,
+  getKnownToken,
+  registerChain,
+} from "./chain-registry";
+
+const avalanche: ChainConfig = {
+  network: "avalanche",
+  type: NetworkType.EVM,
+  chainId: 43114,
+  displayName: "Avalanche",
+  rpcUrls: ["https://api.avax.network/ext/bc/C/rpc"],
+  explorerUrl: "https://snowtrace.io",
+  nativeCurrency: {name: "Avalanche", symbol: "AVAX", decimals: 18},
+  stablecoins: [{symbol: "USDC", address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", decimals: 6}],
+  aliases: ["avax"],
+};
+
+describe("built-in chains", () => {
+  it("resolves networks by name, alias and chain id", () => {
+    expect(getChain("base")?.chainId).toBe(8453);
+    expect(getChain(" Base-Sepolia ")?.chainId).toBe(84532);
+    expect(getChain("eth")?.network).toBe("ethereum");
+    expect(getChainByChainId(137)?.network).toBe("polygon");
+    expect(getChain("solana-devnet")?.type).toBe(NetworkType.SOLANA);
+  });
+
+  it("returns undefined for unknown networks", () => {
+    expect(getChain("unknown")).toBeUndefined();
+    expect(getChainByChainId(999_999)).toBeUndefined();
+  });
+
+  it("finds known tokens, ignoring case only for EVM addresses", () => {
+    expect(getKnownToken("base", "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913")?.symbol).toBe("USDC");
+    expect(getKnownToken("solana-devnet", "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU")?.symbol).toBe("USDC");
+    expect(getKnownToken("solana-devnet", "4zmmc9srt5ri5x14gagxhahii3gnpaeeryPjgzjdncdu")).toBeUndefined();
+    expect(getKnownToken("unknown", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913")).toBeUndefined();
+  });
+
+  it("lists chains by network type", () => {
+    const evm = chainRegistry.list(NetworkType.EVM);
+    expect(evm.length).toBeGreaterThan(0);
+    expect(evm.every(chain => chain.type === NetworkType.EVM && chain.chainId)).toBe(true);
+    expect(chainRegistry.list(NetworkType.SOLANA).map(chain => chain.network)).toContain("solana");
+  });
+});
+
+describe("ChainRegistry", () => {
+  it("registers chains with aliases", () => {
+    const registry = new ChainRegistry();
+    registry.register(avalanche);
+
+    expect(registry.has("Avalanche")).toBe(true);
+    expect(registry.get("AVAX")).toBe(avalanche);
+    expect(registry.getByChainId(43114)).toBe(avalanche);
+    expect(registry.getToken("avax", "0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e")?.decimals).toBe(6);
+  });
+
+  it("replaces a chain and drops its old aliases", () => {
+    const registry = new ChainRegistry([avalanche]);
+    registry.register({...avalanche, displayName: "Avalanche C-Chain", aliases: ["avalanche-c"]});
+
+    expect(registry.get("avalanche")?.displayName).toBe("Avalanche C-Chain");
+    expect(registry.get("avalanche-c")?.displayName).toBe("Avalanche C-Chain");
+    expect(registry.get("avax")).toBeUndefined();
+    expect(registry.list()).toHaveLength(1);
+  });
+});
+
+describe("explorer links", () => {
+  const evmTx = "0x3b3a2c1d8f0e4b5a6c7d8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f9a0b1c2d3";
+  const evmAddress = "0x857b06519E91e3A54538791bDbb0E22373e36b66";
+  const signature = "5VERv8NMvzbJMEkV8xnrLkEaWRtSz9CosKDYjCJjBRnbJLgp8uirBgmQpjKhoR4tjF3ZpRzrFmBV6UjKdiSZkQUW";
+  const account = "9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM";
+
+  it("links EVM transactions and addresses", () => {
+    expect(getExplorerTxUrl("base", evmTx)).toBe(`https://basescan.org/tx/${evmTx}`);
+    expect(getExplorerAddressUrl("base-sepolia", evmAddress)).toBe(`https://sepolia.basescan.org/address/${evmAddress}`);
+  });
+
+  it("links Solana transactions and accounts with the cluster", () => {
+    expect(getExplorerTxUrl("solana", signature)).toBe(`https://solscan.io/tx/${signature}`);
+    expect(getExplorerTxUrl("solana-devnet", signature)).toBe(`https://solscan.io/tx/${signature}?cluster=devnet`);
+    expect(getExplorerAddressUrl("solana-testnet", account)).toBe(`https://solscan.io/account/${account}?cluster=testnet`);
+  });
+
+  it("returns undefined without an explorer", () => {
+    expect(getExplorerTxUrl("unknown", evmTx)).toBeUndefined();
+    registerChain({...avalanche, network: "no-explorer", aliases: [], explorerUrl: undefined});
+    expect(getExplorerTxUrl("no-explorer", evmTx)).toBeUndefined();
+  });
+
+  it("trims trailing slashes and encodes the path", () => {
+    registerChain({...avalanche, network: "slashed", aliases: [], explorerUrl: "https://explorer.example.com/"});
+    expect(getExplorerTxUrl("slashed", "a/b")).toBe("https://explorer.example.com/tx/a%2Fb");
+  });
+});
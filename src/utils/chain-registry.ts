@@ -0,0 +1,296 @@
+/**
+ * Chain Registry
+ *
+ * Single source of chain knowledge (chain ids, names, RPCs, explorers, tokens).
+ * Network helpers read from here, so new chains can be added at runtime via registerChain()
+ */
+
+import {NetworkType} from "../types/common";
+import type {ChainConfig, TokenInfo} from "../types/common";
+
+const ETHER = {name: "Ether", symbol: "ETH", decimals: 18};
+const SOL = {name: "Solana", symbol: "SOL", decimals: 9};
+
+/**
+ * Built-in chains
+ */
+const DEFAULT_CHAINS: ChainConfig[] = [
+  // EVM mainnets
+  {
+    network: "ethereum",
+    type: NetworkType.EVM,
+    chainId: 1,
+    displayName: "Ethereum",
+    rpcUrls: ["https://eth.llamarpc.com"],
+    explorerUrl: "https://etherscan.io",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6}],
+    aliases: ["eth"],
+  },
+  {
+    network: "base",
+    type: NetworkType.EVM,
+    chainId: 8453,
+    displayName: "Base",
+    rpcUrls: ["https://mainnet.base.org"],
+    explorerUrl: "https://basescan.org",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913", decimals: 6}],
+  },
+  {
+    network: "polygon",
+    type: NetworkType.EVM,
+    chainId: 137,
+    displayName: "Polygon",
+    rpcUrls: ["https://polygon-rpc.com"],
+    explorerUrl: "https://polygonscan.com",
+    nativeCurrency: {name: "POL", symbol: "POL", decimals: 18},
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359", decimals: 6}],
+  },
+  {
+    network: "arbitrum",
+    type: NetworkType.EVM,
+    chainId: 42161,
+    displayName: "Arbitrum",
+    rpcUrls: ["https://arb1.arbitrum.io/rpc"],
+    explorerUrl: "https://arbiscan.io",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831", decimals: 6}],
+  },
+  {
+    network: "optimism",
+    type: NetworkType.EVM,
+    chainId: 10,
+    displayName: "Optimism",
+    rpcUrls: ["https://mainnet.optimism.io"],
+    explorerUrl: "https://optimistic.etherscan.io",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85", decimals: 6}],
+  },
+  {
+    network: "bsc",
+    type: NetworkType.EVM,
+    chainId: 56,
+    displayName: "BNB Smart Chain",
+    rpcUrls: ["https://bsc-dataseed.binance.org"],
+    explorerUrl: "https://bscscan.com",
+    nativeCurrency: {name: "BNB", symbol: "BNB", decimals: 18},
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d", decimals: 18}],
+  },
+
+  // EVM testnets
+  {
+    network: "sepolia",
+    type: NetworkType.EVM,
+    chainId: 11155111,
+    displayName: "Sepolia Testnet",
+    rpcUrls: ["https://sepolia.infura.io/v3/"],
+    explorerUrl: "https://sepolia.etherscan.io",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238", decimals: 6}],
+    testnet: true,
+  },
+  {
+    network: "base-sepolia",
+    type: NetworkType.EVM,
+    chainId: 84532,
+    displayName: "Base Sepolia",
+    rpcUrls: ["https://sepolia.base.org"],
+    explorerUrl: "https://sepolia.basescan.org",
+    nativeCurrency: ETHER,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e", decimals: 6}],
+    testnet: true,
+  },
+  {
+    network: "goerli",
+    type: NetworkType.EVM,
+    chainId: 5,
+    displayName: "Goerli Testnet",
+    rpcUrls: ["https://rpc.ankr.com/eth_goerli"],
+    explorerUrl: "https://goerli.etherscan.io",
+    nativeCurrency: ETHER,
+    testnet: true,
+  },
+
+  // Solana
+  {
+    network: "solana",
+    type: NetworkType.SOLANA,
+    displayName: "Solana",
+    rpcUrls: ["https://cathee-fu8ezd-fast-mainnet.helius-rpc.com"],
+    explorerUrl: "https://solscan.io",
+    nativeCurrency: SOL,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", decimals: 6}],
+    aliases: ["solana-mainnet"],
+  },
+  {
+    network: "solana-devnet",
+    type: NetworkType.SOLANA,
+    displayName: "Solana Devnet",
+    rpcUrls: ["https://api.devnet.solana.com"],
+    explorerUrl: "https://solscan.io",
+    explorerParams: {cluster: "devnet"},
+    nativeCurrency: SOL,
+    stablecoins: [{symbol: "USDC", name: "USD Coin", address: "4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU", decimals: 6}],
+    testnet: true,
+  },
+  {
+    network: "solana-testnet",
+    type: NetworkType.SOLANA,
+    displayName: "Solana Testnet",
+    rpcUrls: ["https://api.testnet.solana.com"],
+    explorerUrl: "https://solscan.io",
+    explorerParams: {cluster: "testnet"},
+    nativeCurrency: SOL,
+    testnet: true,
+  },
+];
+
+/**
+ * Registry of known chains, keyed by lowercase network name and alias
+ */
+export class ChainRegistry {
+  private chains = new Map<string, ChainConfig>();
+  private aliases = new Map<string, string>();
+
+  constructor(chains: ChainConfig[] = []) {
+    chains.forEach(chain => this.register(chain));
+  }
+
+  /**
+   * Add or replace a chain definition
+   */
+  register(chain: ChainConfig): void {
+    const key = chain.network.toLowerCase().trim();
+    const existing = this.chains.get(key);
+    existing?.aliases?.forEach(alias => this.aliases.delete(alias.toLowerCase()));
+
+    this.chains.set(key, chain);
+    chain.aliases?.forEach(alias => this.aliases.set(alias.toLowerCase().trim(), key));
+  }
+
+  /**
+   * Get a chain by network name or alias
+   */
+  get(network: string): ChainConfig | undefined {
+    const normalized = network.toLowerCase().trim();
+    return this.chains.get(normalized) || this.chains.get(this.aliases.get(normalized) || '');
+  }
+
+  /**
+   * Get an EVM chain by its numeric chain id
+   */
+  getByChainId(chainId: number): ChainConfig | undefined {
+    return this.list().find(chain => chain.chainId === chainId);
+  }
+
+  /**
+   * Get a known token (e.g. a stablecoin) on a network by contract / mint address
+   */
+  getToken(network: string, address: string): TokenInfo | undefined {
+    const chain = this.get(network);
+    if (!chain) {
+      return undefined;
+    }
+    // EVM addresses are case-insensitive, Solana mints are not
+    const matches = chain.type === NetworkType.EVM
+        ? (token: TokenInfo) => token.address.toLowerCase() === address.toLowerCase()
+        : (token: TokenInfo) => token.address === address;
+    return chain.stablecoins?.find(matches);
+  }
+
+  /**
+   * Check if a network name or alias is registered
+   */
+  has(network: string): boolean {
+    return !!this.get(network);
+  }
+
+  /**
+   * List registered chains, optionally filtered by network type
+   */
+  list(type?: NetworkType): ChainConfig[] {
+    const chains = Array.from(this.chains.values());
+    return type ? chains.filter(chain => chain.type === type) : chains;
+  }
+}
+
+/**
+ * Shared registry used by all SDK network helpers
+ */
+export const chainRegistry = new ChainRegistry(DEFAULT_CHAINS);
+
+/**
+ * Register a chain (or override a built-in one)
+ *
+ * @example
+ * ```typescript
+ * registerChain({
+ *   network: "avalanche",
+ *   type: NetworkType.EVM,
+ *   chainId: 43114,
+ *   displayName: "Avalanche",
+ *   rpcUrls: ["https://api.avax.network/ext/bc/C/rpc"],
+ *   explorerUrl: "https://snowtrace.io",
+ *   nativeCurrency: {name: "Avalanche", symbol: "AVAX", decimals: 18},
+ *   stablecoins: [{symbol: "USDC", address: "0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E", decimals: 6}],
+ * });
+ * ```
+ */
+export function registerChain(chain: ChainConfig): void {
+  chainRegistry.register(chain);
+}
+
+/**
+ * Get chain definition by network name or alias
+ */
+export function getChain(network: string): ChainConfig | undefined {
+  return chainRegistry.get(network);
+}
+
+/**
+ * Get chain definition by EVM chain id
+ */
+export function getChainByChainId(chainId: number): ChainConfig | undefined {
+  return chainRegistry.getByChainId(chainId);
+}
+
+/**
+ * Get a known token on a network by contract / mint address
+ */
+export function getKnownToken(network: string, address: string): TokenInfo | undefined {
+  return chainRegistry.getToken(network, address);
+}
+
+// Explorer link for a path on the network's explorer, with the chain's query params
+function getExplorerUrl(network: string, path: string): string | undefined {
+  const chain = getChain(network);
+  if (!chain?.explorerUrl) {
+    return undefined;
+  }
+  const query = new URLSearchParams(chain.explorerParams).toString();
+  return `${chain.explorerUrl.replace(/\/+$/, '')}/${path}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Explorer link for a transaction (Basescan, Etherscan, Solscan, ...)
+ *
+ * @returns Link, or undefined if the network has no explorer
+ *
+ * @example
+ * ```typescript
+ * getExplorerTxUrl("solana-devnet", signature); // https://solscan.io/tx/<signature>?cluster=devnet
+ * ```
+ */
+export function getExplorerTxUrl(network: string, transaction: string): string | undefined {
+  return getExplorerUrl(network, `tx/${encodeURIComponent(transaction)}`);
+}
+
+/**
+ * Explorer link for an account / address
+ *
+ * @returns Link, or undefined if the network has no explorer
+ */
+export function getExplorerAddressUrl(network: string, address: string): string | undefined {
+  return getExplorerUrl(network, `${getChain(network)?.type === NetworkType.EVM ? 'address' : 'account'}/${encodeURIComponent(address)}`);
+}
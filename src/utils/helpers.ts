@@ -4,11 +4,18 @@
  * Miscellaneous helper functions for the SDK
  */
 
+import {formatUnits, parseUnits} from "./amount";
+import type {RoundingMode} from "./amount";
+
 /**
  * Convert human-readable amount to atomic units (smallest unit)
  *
- * @param amount - Human-readable amount (e.g., 2.5 for 2.5 USDC)
+ * Exact: parsed as a decimal string, so no floating point error.
+ * Pass amounts as strings to keep precision beyond what a JS number can hold.
+ *
+ * @param amount - Human-readable amount (e.g., 2.5 or "2.5" for 2.5 USDC)
  * @param decimals - Token decimals (e.g., 6 for USDC, 18 for ETH)
+ * @param rounding - How to handle digits beyond `decimals` (default 'floor')
  * @returns Amount in atomic units as bigint
  *
  * @example
@@ -17,13 +24,19 @@
  * const atomicUnits = toAtomicUnits(2.5, 6); // 2500000n
  * ```
  */
-export function toAtomicUnits(amount: number, decimals: number): bigint {
-  return BigInt(Math.floor(amount * Math.pow(10, decimals)));
+export function toAtomicUnits(
+    amount: number | string,
+    decimals: number,
+    rounding: RoundingMode = 'floor'
+): bigint {
+  return parseUnits(amount, decimals, rounding);
 }
 
 /**
  * Convert atomic units to human-readable amount
  *
+ * Returns a JS number; use formatUnits() for an exact string or formatAmount() for display.
+ *
  * @param atomicUnits - Token amount in smallest units
  * @param decimals - Token decimals (e.g., 6 for USDC, 18 for ETH)
  * @returns Human-readable amount as number
@@ -34,8 +47,8 @@ export function toAtomicUnits(amount: number, decimals: number): bigint {
  * const amount = fromAtomicUnits(2500000n, 6); // 2.5
  * ```
  */
-export function fromAtomicUnits(atomicUnits: bigint | number, decimals: number): number {
-  return Number(atomicUnits) / Math.pow(10, decimals);
+export function fromAtomicUnits(atomicUnits: bigint | number | string, decimals: number): number {
+  return Number(formatUnits(atomicUnits, decimals));
 }
 
 /**
@@ -0,0 +1,16 @@
+import {describe, expect, it} from "vitest";
+import {isMessageKey} from "./i18n";
+
+describe("isMessageKey", () => {
+  it("accepts catalog keys", () => {
+    expect(isMessageKey("error.EXPIRED")).toBe(true);
+    expect(isMessageKey("checkout.paymentRequired")).toBe(true);
+  });
+
+  it("rejects unknown keys and inherited object properties", () => {
+    expect(isMessageKey("error.NOT_A_CODE")).toBe(false);
+    expect(isMessageKey("toString")).toBe(false);
+    expect(isMessageKey("constructor")).toBe(false);
+    expect(isMessageKey("__proto__")).toBe(false);
+  });
+});
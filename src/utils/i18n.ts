@@ -0,0 +1,100 @@
+/**
+ * Internationalization
+ *
+ * Message catalog for user-facing SDK and component text, keyed by error code and UI label.
+ * English and Chinese are built in; other locales and overrides are added with addMessages().
+ */
+
+import {en} from "./locales/en";
+import {zh} from "./locales/zh";
+
+/**
+ * Catalog key (e.g. `error.EXPIRED`, `checkout.paymentRequired`)
+ */
+export type MessageKey = keyof typeof en;
+
+/**
+ * Complete set of messages for a locale
+ */
+export type MessageCatalog = Record<MessageKey, string>;
+
+/**
+ * Values for `{name}` placeholders
+ */
+export type MessageParams = Record<string, unknown>;
+
+const DEFAULT_LOCALE = 'en';
+
+const catalogs: Record<string, Partial<MessageCatalog>> = {
+  en: {...en},
+  zh: {...zh},
+};
+
+let currentLocale = DEFAULT_LOCALE;
+
+/**
+ * Get the SDK-wide default locale
+ */
+export function getLocale(): string {
+  return currentLocale;
+}
+
+/**
+ * Set the SDK-wide default locale (e.g. 'en', 'zh', 'zh-CN')
+ *
+ * Used by any component or error without its own `locale`.
+ */
+export function setLocale(locale: string): void {
+  currentLocale = locale;
+}
+
+/**
+ * Add translations for a locale, or override built-in messages
+ *
+ * @example
+ * ```typescript
+ * addMessages('en', {'checkout.paymentRequired': 'Unlock this article'});
+ * addMessages('fr', {'checkout.paymentRequired': 'Paiement requis', ...});
+ * ```
+ */
+export function addMessages(locale: string, messages: Partial<MessageCatalog>): void {
+  catalogs[locale] = {...catalogs[locale], ...messages};
+}
+
+/**
+ * Whether a string is a catalog key
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(en, key);
+}
+
+function lookup(key: MessageKey, locale: string): string | undefined {
+  // Exact locale, then its language (zh-CN -> zh), then English
+  const language = locale.split('-')[0];
+  return catalogs[locale]?.[key] ?? catalogs[language]?.[key] ?? catalogs[DEFAULT_LOCALE]?.[key];
+}
+
+/**
+ * Resolve a message, filling `{name}` placeholders from params
+ *
+ * Falls back from the regional locale to its language, then to English.
+ *
+ * @param key - Catalog key
+ * @param params - Placeholder values
+ * @param locale - Defaults to getLocale()
+ *
+ * @example
+ * ```typescript
+ * translate('checkout.pay', {amount: '$1.00'}, 'zh'); // '支付 $1.00'
+ * ```
+ */
+export function translate(key: MessageKey, params?: MessageParams, locale: string = currentLocale): string {
+  const message = lookup(key, locale) ?? key;
+  if (!params) {
+    return message;
+  }
+
+  return message.replace(/\{(\w+)}/g, (placeholder, name) =>
+      params[name] !== undefined && params[name] !== null ? String(params[name]) : placeholder
+  );
+}
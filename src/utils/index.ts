@@ -1,21 +1,19 @@
 /**
  * x402 Payment SDK - Utilities
  *
- * General-purpose utilities for wallet management, network detection, and helpers
+ * General-purpose utilities for wallet state, network detection, and helpers.
+ * Leaf layer: nothing here imports from services, client or react
  */
 
 // Wallet utilities
 export {
-  isWalletInstalled,
-  getWalletProvider,
   formatAddress,
   markWalletDisconnected,
   clearWalletDisconnection,
   isWalletManuallyDisconnected,
   saveConnectedNetworkType,
   getConnectedNetworkType,
-  getWalletInstallUrl,
-  getWalletDisplayName,
+  clearConnectedNetworkType,
   // 多网络钱包缓存
   getAllWalletAddresses,
   saveWalletAddress,
@@ -24,25 +22,52 @@ export {
   clearAllWalletAddresses,
 } from "./wallet";
 
-// Wallet connection utilities (for demo/UI)
+// Wallet state storage
 export {
-  connectWallet,
-  disconnectWallet,
-  getCurrentWallet,
-  switchNetwork, // 新增：切换网络
-  onAccountsChanged,
-  onChainChanged,
-  onWalletDisconnect,
-} from "./wallet-connect";
+  configureStorage,
+  getStorage,
+  getStorageKey,
+  createWebStorage,
+  createMemoryStorage,
+} from "./storage";
+
+// Cross-tab wallet sync
+export {
+  broadcastWalletChange,
+  onWalletSync,
+} from "./wallet-sync";
+
+// Wallet discovery: EIP-6963 (EVM) and Wallet Standard (Solana)
+export {
+  discoverEvmWallets,
+  getEvmWallets,
+  getEvmWallet,
+  getEvmProvider,
+  onEvmWalletsChanged,
+  getSelectedEvmWallet,
+  saveSelectedEvmWallet,
+  discoverSvmWallets,
+  getSvmWallets,
+  getSvmWallet,
+  onSvmWalletsChanged,
+  getSelectedSvmWallet,
+  saveSelectedSvmWallet,
+} from "./wallet-discovery";
 
 // Payment helpers (for demo/UI)
 export {
-    makePayment,
   parsePaymentRequired,
   getSupportedNetworkTypes,
   type PaymentCallbacks,
 } from "./payment-helpers";
 
+// Payment response decoding
+export {
+  decodePaymentResponse,
+  getPaymentSettlement,
+  X_PAYMENT_RESPONSE_HEADER,
+} from "./payment-response";
+
 // Network utilities
 export {
   getNetworkType,
@@ -51,8 +76,31 @@ export {
   isSolanaAddress,
   isEvmAddress,
   getNetworkDisplayName,
+  getChainDisplayName,
 } from "./network";
 
+// Chain registry
+export {
+  ChainRegistry,
+  chainRegistry,
+  registerChain,
+  getChain,
+  getChainByChainId,
+  getKnownToken,
+  getExplorerTxUrl,
+  getExplorerAddressUrl,
+} from "./chain-registry";
+
+// Amount conversion and formatting
+export {
+  parseUnits,
+  formatUnits,
+  formatAmount,
+  roundUnits,
+  type RoundingMode,
+  type FormatAmountOptions,
+} from "./amount";
+
 // General helpers
 export {
   toAtomicUnits,
@@ -62,10 +110,53 @@ export {
   is402Response,
 } from "./helpers";
 
+// Cancellation
+export {
+  withPaymentAbort,
+  throwIfAborted,
+  getAbortError,
+  raceAbort,
+} from "./abort";
+
+// Logging
+export {
+  consoleLogger,
+  silentLogger,
+  getLogger,
+  setLogger,
+  resolveLogger,
+  errorFields,
+} from "./logger";
+
+// Internationalization
+export {
+  translate,
+  getLocale,
+  setLocale,
+  addMessages,
+  isMessageKey,
+  type MessageKey,
+  type MessageCatalog,
+  type MessageParams,
+} from "./i18n";
+
+// Payment lifecycle
+export {
+  PaymentEventEmitter,
+  combinePaymentHooks,
+  emitPaymentEvent,
+  confirmBeforeSign,
+  trackPaymentFailure,
+} from "./payment-lifecycle";
+
 // Payment error handling
 export {
   parsePaymentError,
   wrapPaymentError,
+  wrapChainSwitchError,
+  mapPaymentErrorReason,
+  getRetryResponseError,
+  getErrorMessageKey,
   PaymentOperationError,
   PaymentErrorCode,
   type PaymentError,
@@ -0,0 +1,104 @@
+/**
+ * English messages (default catalog)
+ *
+ * `error.<PaymentErrorCode>` keys are the user-facing text of PaymentOperationError.
+ * `{name}` placeholders are filled from the error details / label params.
+ */
+
+export const en = {
+  // Payment errors
+  'error.USER_REJECTED': 'You rejected the signature request. Please try again if you want to proceed.',
+  'error.USER_CANCELLED': 'The payment was cancelled.',
+  'error.NETWORK_MISMATCH': 'Please switch your wallet to the correct network.',
+  'error.NETWORK_SWITCH_FAILED': 'Failed to switch network. Please switch manually in your wallet.',
+  'error.UNSUPPORTED_NETWORK': 'This network is not supported.',
+  'error.CHAIN_ID_MISMATCH': 'Your wallet is on the wrong network. Please switch to the correct network and try again.',
+  'error.CHAIN_ID_UNAVAILABLE': 'Could not read the network from your wallet. Please try again.',
+  'error.WALLET_NOT_CONNECTED': 'Please connect your wallet first.',
+  'error.WALLET_NOT_INSTALLED': 'Please install {wallet} or another compatible wallet.',
+  'error.WALLET_LOCKED': 'Please unlock your wallet and try again.',
+  'error.INSUFFICIENT_BALANCE': 'You don\'t have enough balance to complete this payment.',
+  'error.INVALID_PAYMENT_REQUIREMENTS': 'Invalid payment configuration. Please contact support.',
+  'error.AMOUNT_EXCEEDED': 'Payment amount exceeds the maximum allowed.',
+  'error.INVALID_PAYMENT': 'The payment was rejected as invalid. Please try again.',
+  'error.INVALID_SIGNATURE': 'The payment signature was rejected. Please try again.',
+  'error.EXPIRED': 'The payment authorization expired. Please try again.',
+  'error.ALREADY_USED': 'This payment has already been used. Please start a new payment.',
+  'error.SIMULATION_FAILED': 'Transaction simulation failed. Please make sure you have enough funds to cover the payment and transaction fees.',
+  'error.VERIFICATION_FAILED': 'The payment could not be verified. Please try again.',
+  'error.SETTLEMENT_FAILED': 'The payment could not be settled. Please try again.',
+  'error.CANCELLED': 'The payment was cancelled.',
+  'error.TIMEOUT': 'The payment took too long and was cancelled. Please try again.',
+  'error.SIGNATURE_FAILED': 'Failed to sign the transaction. Please try again.',
+  'error.UNKNOWN_ERROR': 'An unexpected error occurred. Please try again or contact support.',
+  'error.NETWORK_SWITCH_REJECTED': 'You rejected the network switch request. Please switch to {network} manually.',
+  'error.NETWORK_SWITCH_FAILED_TO': 'Failed to switch to {network}. Please switch manually in your wallet.',
+  'error.CHAIN_NOT_CONFIGURED': 'Your wallet does not have {network}. Please add it in your wallet and try again.',
+  'error.BROWSER_REQUIRED': 'Please open this page in a browser.',
+  'error.NO_WALLET_ADDRESS': 'Could not get an address from your wallet.',
+
+  // WalletConnect
+  'wallet.connectTitle': 'Connect Wallet',
+  'wallet.payWith': 'Pay with {token}',
+  'wallet.noSupportedWallet': 'Please install a supported wallet extension',
+  'wallet.connecting': 'Connecting...',
+  'wallet.install': 'Install Wallet',
+  'wallet.switchAccountHint': 'To switch accounts, please change it in your wallet extension',
+  'wallet.connected': 'Connected',
+  'wallet.connectedOn': 'Connected ({network})',
+  'wallet.disconnect': 'Disconnect',
+  'wallet.changeAddressHint': 'Switch account in your wallet to change address',
+  'wallet.connectFailed': 'Failed to connect wallet',
+  'wallet.switchFailed': 'Failed to switch network',
+
+  // V402Checkout
+  'checkout.title': 'V402Pay - Make x402Pay Easier',
+  'checkout.tooltip': 'V402Pay - Accept Crypto Payments Easier',
+  'checkout.walletDisconnectedTitle': 'Wallet Disconnected',
+  'checkout.walletDisconnected': 'Your wallet has been disconnected successfully.',
+  'checkout.walletNotConnectedTitle': 'Wallet Not Connected',
+  'checkout.paymentSuccessful': 'Payment Successful!',
+  'checkout.paymentProcessed': 'Your payment has been processed successfully.',
+  'checkout.paymentFailed': 'Payment Failed',
+  'checkout.paymentRequired': 'Payment Required',
+  'checkout.payToAccess': 'Pay {amount} to access',
+  'checkout.requiredAmount': 'the required amount',
+  'checkout.invalidCheckoutId': 'Invalid Checkout ID',
+  'checkout.invalidCheckoutIdHint': 'The checkout ID you provided is invalid or has expired.',
+  'checkout.loadFailed': 'Failed to load payment information. Please check your checkout ID.',
+  'checkout.loadingPaymentInfo': 'Loading payment information...',
+  'checkout.connectedWallet': 'Connected Wallet',
+  'checkout.paymentAmount': 'Payment Amount',
+  'checkout.currency': 'Currency',
+  'checkout.network': 'Network',
+  'checkout.paymentOptions': 'Pay with',
+  'checkout.walletAddress': 'Wallet Address',
+  'checkout.wrongNetworkTitle': 'Wrong network',
+  'checkout.wrongNetwork': 'Your wallet is on {current}, but this payment requires {network}.',
+  'checkout.anotherNetwork': 'another network',
+  'checkout.switchNetwork': 'Switch to {network}',
+  'checkout.switchingNetwork': 'Switching network...',
+  'checkout.securedBy': 'Secure payment powered by v402pay',
+  'checkout.processing': 'Processing...',
+  'checkout.loading': 'Loading...',
+  'checkout.pay': 'Pay {amount}',
+  'checkout.noToken': 'Don\'t have {token}?',
+  'checkout.getItHere': 'Get it here',
+  'checkout.processingPayment': 'Processing Payment',
+  'checkout.close': 'Close',
+  'checkout.verifyingPayment': 'Verifying Payment',
+  'checkout.verifyingHint': 'Please wait while we confirm your transaction',
+  'checkout.mayTakeMoments': 'This may take a few moments',
+  'checkout.transactionConfirmed': 'Your transaction has been confirmed',
+  'checkout.receipt': 'RECEIPT',
+  'checkout.transactionHash': 'Transaction',
+  'checkout.payer': 'Paid From',
+  'checkout.viewOnExplorer': 'View on {explorer}',
+  'checkout.copy': 'Copy',
+  'checkout.copied': 'Copied',
+  'checkout.responseData': 'RESPONSE DATA',
+  'checkout.somethingWentWrong': 'Something went wrong with your transaction',
+  'checkout.errorDetails': 'ERROR DETAILS',
+  'checkout.tryAgain': 'Try Again',
+  'checkout.fetchFailed': 'Failed to fetch payment info',
+};
@@ -0,0 +1,103 @@
+/**
+ * 中文消息
+ */
+
+import type {MessageCatalog} from "../i18n";
+
+export const zh: MessageCatalog = {
+  // 支付错误
+  'error.USER_REJECTED': '您拒绝了签名请求。如需继续，请重试。',
+  'error.USER_CANCELLED': '支付已取消。',
+  'error.NETWORK_MISMATCH': '请将钱包切换到正确的网络。',
+  'error.NETWORK_SWITCH_FAILED': '切换网络失败，请在钱包中手动切换。',
+  'error.UNSUPPORTED_NETWORK': '不支持该网络。',
+  'error.CHAIN_ID_MISMATCH': '钱包所在网络不正确，请切换到正确的网络后重试。',
+  'error.CHAIN_ID_UNAVAILABLE': '无法读取钱包当前网络，请重试。',
+  'error.WALLET_NOT_CONNECTED': '请先连接钱包。',
+  'error.WALLET_NOT_INSTALLED': '请安装 {wallet} 或其他兼容的钱包。',
+  'error.WALLET_LOCKED': '请解锁钱包后重试。',
+  'error.INSUFFICIENT_BALANCE': '余额不足，无法完成本次支付。',
+  'error.INVALID_PAYMENT_REQUIREMENTS': '支付配置无效，请联系客服。',
+  'error.AMOUNT_EXCEEDED': '支付金额超过允许的上限。',
+  'error.INVALID_PAYMENT': '支付数据无效，请重试。',
+  'error.INVALID_SIGNATURE': '支付签名无效，请重试。',
+  'error.EXPIRED': '支付授权已过期，请重试。',
+  'error.ALREADY_USED': '该支付已被使用，请重新发起支付。',
+  'error.SIMULATION_FAILED': '交易模拟失败，请确认余额足以支付金额和交易手续费。',
+  'error.VERIFICATION_FAILED': '支付验证失败，请重试。',
+  'error.SETTLEMENT_FAILED': '支付结算失败，请重试。',
+  'error.CANCELLED': '支付已取消。',
+  'error.TIMEOUT': '支付超时已取消，请重试。',
+  'error.SIGNATURE_FAILED': '交易签名失败，请重试。',
+  'error.UNKNOWN_ERROR': '发生未知错误，请重试或联系客服。',
+  'error.NETWORK_SWITCH_REJECTED': '您拒绝了切换网络的请求，请手动切换到 {network}。',
+  'error.NETWORK_SWITCH_FAILED_TO': '切换到 {network} 失败，请在钱包中手动切换。',
+  'error.CHAIN_NOT_CONFIGURED': '钱包中没有 {network} 网络，请先在钱包中添加后重试。',
+  'error.BROWSER_REQUIRED': '请在浏览器环境中使用',
+  'error.NO_WALLET_ADDRESS': '未能获取到钱包地址',
+
+  // WalletConnect
+  'wallet.connectTitle': '连接钱包',
+  'wallet.payWith': '使用 {token} 支付',
+  'wallet.noSupportedWallet': '请安装受支持的钱包插件',
+  'wallet.connecting': '连接中...',
+  'wallet.install': '安装钱包',
+  'wallet.switchAccountHint': '如需切换账户，请在钱包插件中切换',
+  'wallet.connected': '已连接',
+  'wallet.connectedOn': '已连接（{network}）',
+  'wallet.disconnect': '断开连接',
+  'wallet.changeAddressHint': '在钱包中切换账户即可更换地址',
+  'wallet.connectFailed': '连接钱包失败',
+  'wallet.switchFailed': '切换网络失败',
+
+  // V402Checkout
+  'checkout.title': 'V402Pay - 让 x402 支付更简单',
+  'checkout.tooltip': 'V402Pay - 更轻松地接受加密货币支付',
+  'checkout.walletDisconnectedTitle': '钱包已断开',
+  'checkout.walletDisconnected': '您的钱包已成功断开连接。',
+  'checkout.walletNotConnectedTitle': '钱包未连接',
+  'checkout.paymentSuccessful': '支付成功！',
+  'checkout.paymentProcessed': '您的支付已处理完成。',
+  'checkout.paymentFailed': '支付失败',
+  'checkout.paymentRequired': '需要支付',
+  'checkout.payToAccess': '支付 {amount} 以访问',
+  'checkout.requiredAmount': '所需金额',
+  'checkout.invalidCheckoutId': '无效的 Checkout ID',
+  'checkout.invalidCheckoutIdHint': '您提供的 Checkout ID 无效或已过期。',
+  'checkout.loadFailed': '加载支付信息失败，请检查您的 Checkout ID。',
+  'checkout.loadingPaymentInfo': '正在加载支付信息...',
+  'checkout.connectedWallet': '已连接钱包',
+  'checkout.paymentAmount': '支付金额',
+  'checkout.currency': '币种',
+  'checkout.network': '网络',
+  'checkout.paymentOptions': '支付方式',
+  'checkout.walletAddress': '钱包地址',
+  'checkout.wrongNetworkTitle': '网络不匹配',
+  'checkout.wrongNetwork': '钱包当前在 {current}，此笔支付需要 {network}。',
+  'checkout.anotherNetwork': '其他网络',
+  'checkout.switchNetwork': '切换到 {network}',
+  'checkout.switchingNetwork': '正在切换网络...',
+  'checkout.securedBy': '由 v402pay 提供安全支付',
+  'checkout.processing': '处理中...',
+  'checkout.loading': '加载中...',
+  'checkout.pay': '支付 {amount}',
+  'checkout.noToken': '没有 {token}？',
+  'checkout.getItHere': '点此获取',
+  'checkout.processingPayment': '正在处理支付',
+  'checkout.close': '关闭',
+  'checkout.verifyingPayment': '正在验证支付',
+  'checkout.verifyingHint': '请稍候，我们正在确认您的交易',
+  'checkout.mayTakeMoments': '这可能需要一点时间',
+  'checkout.transactionConfirmed': '您的交易已确认',
+  'checkout.receipt': '支付凭证',
+  'checkout.transactionHash': '交易哈希',
+  'checkout.payer': '付款地址',
+  'checkout.viewOnExplorer': '在 {explorer} 上查看',
+  'checkout.copy': '复制',
+  'checkout.copied': '已复制',
+  'checkout.responseData': '响应数据',
+  'checkout.somethingWentWrong': '交易过程中出现问题',
+  'checkout.errorDetails': '错误详情',
+  'checkout.tryAgain': '重试',
+  'checkout.fetchFailed': '获取支付信息失败',
+};
@@ -0,0 +1,91 @@
+/**
+ * Logger
+ *
+ * All SDK diagnostics go through a Logger instead of console.
+ * The default logs to console in development and is silent in production builds.
+ */
+
+import type {LogFields, Logger} from "../types/common";
+
+const PREFIX = '[v402]';
+
+/**
+ * Logger that writes to console, with structured fields as a second argument
+ */
+export const consoleLogger: Logger = {
+  debug: (message, fields) => fields ? console.debug(`${PREFIX} ${message}`, fields) : console.debug(`${PREFIX} ${message}`),
+  info: (message, fields) => fields ? console.info(`${PREFIX} ${message}`, fields) : console.info(`${PREFIX} ${message}`),
+  warn: (message, fields) => fields ? console.warn(`${PREFIX} ${message}`, fields) : console.warn(`${PREFIX} ${message}`),
+  error: (message, fields) => fields ? console.error(`${PREFIX} ${message}`, fields) : console.error(`${PREFIX} ${message}`),
+};
+
+/**
+ * Logger that discards everything
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Whether the app was built for production
+ *
+ * Bundlers replace `process.env.NODE_ENV` at build time; without a bundler
+ * `process` may not exist, which counts as development.
+ */
+function isProductionBuild(): boolean {
+  try {
+    return process.env.NODE_ENV === 'production';
+  } catch {
+    return false;
+  }
+}
+
+let defaultLogger: Logger = isProductionBuild() ? silentLogger : consoleLogger;
+
+/**
+ * Get the SDK-wide default logger
+ */
+export function getLogger(): Logger {
+  return defaultLogger;
+}
+
+/**
+ * Replace the SDK-wide default logger
+ *
+ * Used by wallet utilities, the wallet store and any payment flow without its own `logger`.
+ *
+ * @example
+ * ```typescript
+ * setLogger(consoleLogger); // verbose logs in production
+ * setLogger({
+ *   debug: () => {},
+ *   info: (msg, fields) => datadog.info(msg, fields),
+ *   warn: (msg, fields) => datadog.warn(msg, fields),
+ *   error: (msg, fields) => datadog.error(msg, fields),
+ * });
+ * ```
+ */
+export function setLogger(logger: Logger): void {
+  defaultLogger = logger;
+}
+
+/**
+ * Use the given logger, falling back to the SDK default
+ */
+export function resolveLogger(logger?: Logger): Logger {
+  return logger || defaultLogger;
+}
+
+/**
+ * Structured fields for an error (message and code, not the whole object)
+ */
+export function errorFields(error: any, fields: LogFields = {}): LogFields {
+  return {
+    ...fields,
+    error: error?.message || String(error),
+    ...(error?.code !== undefined ? {code: error.code} : {}),
+  };
+}
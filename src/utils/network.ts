@@ -5,28 +5,12 @@
  */
 
 import {NetworkType} from "../types";
+import {getChain, getChainByChainId} from "./chain-registry";
 
 /**
- * Network type mapping
+ * Network family names that are not chains themselves
  */
-const NETWORK_TYPE_MAP: Record<string, NetworkType> = {
-    // EVM chains
-    'ethereum': NetworkType.EVM,
-    'eth': NetworkType.EVM,
-    'base': NetworkType.EVM,
-    'base-sepolia': NetworkType.EVM,
-    'polygon': NetworkType.EVM,
-    'arbitrum': NetworkType.EVM,
-    'optimism': NetworkType.EVM,
-    'bsc': NetworkType.EVM,
-    'sepolia': NetworkType.EVM,
-    'goerli': NetworkType.EVM,
-
-    // Solana/SVM
-    'solana': NetworkType.SOLANA,
-    'solana-devnet': NetworkType.SOLANA,
-    'solana-testnet': NetworkType.SOLANA,
-    'solana-mainnet': NetworkType.SOLANA,
+const NETWORK_FAMILY_MAP: Record<string, NetworkType> = {
     'svm': NetworkType.SVM,
 };
 
@@ -35,7 +19,7 @@ const NETWORK_TYPE_MAP: Record<string, NetworkType> = {
  */
 export function getNetworkType(network: string): NetworkType {
     const normalizedNetwork = network.toLowerCase().trim();
-    return NETWORK_TYPE_MAP[normalizedNetwork] || NetworkType.UNKNOWN;
+    return getChain(normalizedNetwork)?.type || NETWORK_FAMILY_MAP[normalizedNetwork] || NetworkType.UNKNOWN;
 }
 
 /**
@@ -80,19 +64,15 @@ export function isEvmAddress(address: string): boolean {
  * Get network display name
  */
 export function getNetworkDisplayName(network: string): string {
-    const displayNames: Record<string, string> = {
-        'evm': 'EVM',
-        'ethereum': 'Ethereum',
-        'sepolia': 'Sepolia Testnet',
-        'base': 'Base',
-        'base-sepolia': 'Base Sepolia',
-        'polygon': 'Polygon',
-        'arbitrum': 'Arbitrum',
-        'optimism': 'Optimism',
-        'solana': 'Solana',
-        'solana-devnet': 'Solana Devnet',
-        'solana-mainnet': 'Solana Mainnet',
-    };
+    if (network.toLowerCase() === 'evm') {
+        return 'EVM';
+    }
+    return getChain(network)?.displayName || network;
+}
 
-    return displayNames[network.toLowerCase()] || network;
+/**
+ * Get display name for an EVM chain id (falls back to "Chain <id>")
+ */
+export function getChainDisplayName(chainId: number): string {
+    return getChainByChainId(chainId)?.displayName || `Chain ${chainId}`;
 }
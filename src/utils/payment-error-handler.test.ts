@@ -0,0 +1,73 @@
+import {describe, expect, it} from "vitest";
+import {
+  getRetryResponseError,
+  mapPaymentErrorReason,
+  PaymentErrorCode,
+  PaymentOperationError,
+} from "./payment-error-handler";
+
+describe("mapPaymentErrorReason", () => {
+  it.each([undefined, null, "", "X-PAYMENT header is required", "missing X-PAYMENT header", "payment_required"])(
+      "ignores %j as part of the normal 402 flow",
+      (reason) => {
+        expect(mapPaymentErrorReason(reason)).toBeNull();
+      }
+  );
+
+  it.each([
+    ["insufficient_funds", PaymentErrorCode.INSUFFICIENT_BALANCE],
+    ["invalid_exact_svm_payload_transaction_sender_ata_not_found", PaymentErrorCode.INSUFFICIENT_BALANCE],
+    ["invalid_signature", PaymentErrorCode.INVALID_SIGNATURE],
+    ["invalid_exact_evm_payload_signature", PaymentErrorCode.INVALID_SIGNATURE],
+    ["payment_expired", PaymentErrorCode.EXPIRED],
+    ["invalid_exact_evm_payload_authorization_valid_before", PaymentErrorCode.EXPIRED],
+    ["settle_exact_svm_block_height_exceeded", PaymentErrorCode.EXPIRED],
+    ["already_used", PaymentErrorCode.ALREADY_USED],
+    ["invalid_network", PaymentErrorCode.NETWORK_MISMATCH],
+    ["invalid_exact_svm_payload_transaction_simulation_failed", PaymentErrorCode.SIMULATION_FAILED],
+    ["invalid_payload", PaymentErrorCode.INVALID_PAYMENT],
+    ["invalid_scheme", PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS],
+    ["unexpected_verify_error", PaymentErrorCode.VERIFICATION_FAILED],
+    ["unexpected_settle_error", PaymentErrorCode.SETTLEMENT_FAILED],
+  ])("maps %s to %s", (reason, code) => {
+    const error = mapPaymentErrorReason(reason);
+    expect(error).toBeInstanceOf(PaymentOperationError);
+    expect(error?.code).toBe(code);
+    expect(error?.reason).toBe(reason);
+    expect(error?.messageKey).toBe(`error.${code}`);
+  });
+
+  it("maps other scheme payload checks to INVALID_PAYMENT", () => {
+    expect(mapPaymentErrorReason("invalid_exact_evm_payload_authorization_value")?.code)
+        .toBe(PaymentErrorCode.INVALID_PAYMENT);
+    expect(mapPaymentErrorReason("invalid_exact_svm_payload_transaction_amount_mismatch")?.code)
+        .toBe(PaymentErrorCode.INVALID_PAYMENT);
+  });
+
+  it("keeps unknown reasons as UNKNOWN_ERROR with the raw reason", () => {
+    const error = mapPaymentErrorReason("merchant_disabled");
+    expect(error?.code).toBe(PaymentErrorCode.UNKNOWN_ERROR);
+    expect(error?.reason).toBe("merchant_disabled");
+    expect(error?.message).toBe("Payment failed: merchant_disabled");
+  });
+
+  it("resolves the user message from the locale catalog", () => {
+    const error = mapPaymentErrorReason("payment_expired");
+    expect(error?.getUserMessage("en")).toBe("The payment authorization expired. Please try again.");
+    expect(error?.getUserMessage("zh")).toBe("支付授权已过期，请重试。");
+  });
+});
+
+describe("getRetryResponseError", () => {
+  it("treats a 402 retry as a rejected payment", () => {
+    const error = getRetryResponseError(new Response(null, {status: 402}));
+    expect(error.code).toBe(PaymentErrorCode.VERIFICATION_FAILED);
+    expect(error.details).toEqual({status: 402});
+  });
+
+  it("treats any other non-2xx retry as a failed settlement", () => {
+    const error = getRetryResponseError(new Response(null, {status: 503}));
+    expect(error.code).toBe(PaymentErrorCode.SETTLEMENT_FAILED);
+    expect(error.message).toBe("Paid request failed with HTTP 503");
+  });
+});
@@ -2,14 +2,19 @@
  * Payment Error Handler
  *
  * Centralized error handling for wallet and payment operations
- * Provides user-friendly error messages for common issues
+ * Provides user-friendly error messages for common issues (resolved through the i18n catalog)
  */
 
+import {isMessageKey, type MessageKey, translate} from "./i18n";
+
 export interface PaymentError {
   code: string;
-  message: string;
-  userMessage: string;
+  message: string; // Developer-facing description (English)
+  userMessage?: string; // Explicit user-facing text; defaults to the catalog message for `messageKey`
+  messageKey?: MessageKey; // Catalog key for userMessage (defaults to `error.<code>`)
   originalError?: any;
+  details?: Record<string, any>; // Structured context (e.g. required/available amounts), also fills message placeholders
+  reason?: string; // Raw error reason returned by the backend (x402 ErrorReasons or v402pay codes)
 }
 
 /**
@@ -31,6 +36,7 @@ export enum PaymentErrorCode {
 
   // Wallet errors
   WALLET_NOT_CONNECTED = 'WALLET_NOT_CONNECTED',
+  WALLET_NOT_INSTALLED = 'WALLET_NOT_INSTALLED',
   WALLET_LOCKED = 'WALLET_LOCKED',
   INSUFFICIENT_BALANCE = 'INSUFFICIENT_BALANCE',
 
@@ -38,6 +44,19 @@ export enum PaymentErrorCode {
   INVALID_PAYMENT_REQUIREMENTS = 'INVALID_PAYMENT_REQUIREMENTS',
   AMOUNT_EXCEEDED = 'AMOUNT_EXCEEDED',
 
+  // Backend verification / settlement errors
+  INVALID_PAYMENT = 'INVALID_PAYMENT',
+  INVALID_SIGNATURE = 'INVALID_SIGNATURE',
+  EXPIRED = 'EXPIRED',
+  ALREADY_USED = 'ALREADY_USED',
+  SIMULATION_FAILED = 'SIMULATION_FAILED',
+  VERIFICATION_FAILED = 'VERIFICATION_FAILED',
+  SETTLEMENT_FAILED = 'SETTLEMENT_FAILED',
+
+  // Cancellation
+  CANCELLED = 'CANCELLED', // Aborted via AbortSignal
+  TIMEOUT = 'TIMEOUT', // timeoutMs elapsed
+
   // Generic errors
   SIGNATURE_FAILED = 'SIGNATURE_FAILED',
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
@@ -52,7 +71,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.UNKNOWN_ERROR,
       message: 'Unknown error occurred',
-      userMessage: 'An unknown error occurred. Please try again.',
       originalError: error,
     };
   }
@@ -73,7 +91,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.USER_REJECTED,
       message: 'User rejected the transaction',
-      userMessage: 'You rejected the signature request. Please try again if you want to proceed.',
       originalError: error,
     };
   }
@@ -92,7 +109,6 @@ export function parsePaymentError(error: any): PaymentError {
       return {
         code: PaymentErrorCode.CHAIN_ID_MISMATCH,
         message: `Network mismatch (wallet is on different chain): Requested ${requestedChain}, but wallet is on ${activeChain}`,
-        userMessage: `Your wallet is on the wrong network. Please switch to the correct network and try again.`,
         originalError: error,
       };
     }
@@ -100,7 +116,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.CHAIN_ID_MISMATCH,
       message: 'Network mismatch (wallet selected network does not match)',
-      userMessage: 'Your wallet is on the wrong network. Please switch to the correct network.',
       originalError: error,
     };
   }
@@ -114,7 +129,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.NETWORK_MISMATCH,
       message: errorMessage,
-      userMessage: 'Please switch your wallet to the correct network.',
       originalError: error,
     };
   }
@@ -127,7 +141,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.WALLET_LOCKED,
       message: 'Wallet is locked',
-      userMessage: 'Please unlock your wallet and try again.',
       originalError: error,
     };
   }
@@ -140,7 +153,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.INSUFFICIENT_BALANCE,
       message: 'Insufficient balance',
-      userMessage: 'You don\'t have enough balance to complete this payment.',
       originalError: error,
     };
   }
@@ -153,7 +165,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.NETWORK_SWITCH_FAILED,
       message: errorMessage,
-      userMessage: 'Failed to switch network. Please switch manually in your wallet.',
       originalError: error,
     };
   }
@@ -167,7 +178,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.WALLET_NOT_CONNECTED,
       message: 'Wallet not connected',
-      userMessage: 'Please connect your wallet first.',
       originalError: error,
     };
   }
@@ -182,7 +192,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS,
       message: errorMessage,
-      userMessage: 'Invalid payment configuration. Please contact support.',
       originalError: error,
     };
   }
@@ -192,7 +201,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.AMOUNT_EXCEEDED,
       message: errorMessage,
-      userMessage: 'Payment amount exceeds the maximum allowed.',
       originalError: error,
     };
   }
@@ -206,7 +214,6 @@ export function parsePaymentError(error: any): PaymentError {
     return {
       code: PaymentErrorCode.SIGNATURE_FAILED,
       message: errorMessage,
-      userMessage: 'Failed to sign the transaction. Please try again.',
       originalError: error,
     };
   }
@@ -215,25 +222,40 @@ export function parsePaymentError(error: any): PaymentError {
   return {
     code: PaymentErrorCode.UNKNOWN_ERROR,
     message: errorMessage,
-    userMessage: 'An unexpected error occurred. Please try again or contact support.',
     originalError: error,
   };
 }
 
+/**
+ * Catalog key for an error code (unknown codes use the generic message)
+ */
+export function getErrorMessageKey(code: string): MessageKey {
+  const key = `error.${code}`;
+  return isMessageKey(key) ? key : 'error.UNKNOWN_ERROR';
+}
+
 /**
  * Create a user-friendly error with detailed information
  */
 export class PaymentOperationError extends Error {
   public readonly code: string;
-  public readonly userMessage: string;
+  public readonly userMessage: string; // In the default locale at the time of the error
+  public readonly messageKey: MessageKey;
   public readonly originalError?: any;
+  public readonly details?: Record<string, any>;
+  public readonly reason?: string;
+  private readonly explicitUserMessage?: string;
 
   constructor(paymentError: PaymentError) {
     super(paymentError.message);
     this.name = 'PaymentOperationError';
     this.code = paymentError.code;
-    this.userMessage = paymentError.userMessage;
+    this.messageKey = paymentError.messageKey || getErrorMessageKey(paymentError.code);
     this.originalError = paymentError.originalError;
+    this.details = paymentError.details;
+    this.reason = paymentError.reason;
+    this.explicitUserMessage = paymentError.userMessage;
+    this.userMessage = this.getUserMessage();
 
     // Maintain proper stack trace
     if (Error.captureStackTrace) {
@@ -241,6 +263,15 @@ export class PaymentOperationError extends Error {
     }
   }
 
+  /**
+   * User-facing message in the given locale
+   *
+   * @param locale - Defaults to the SDK locale (see setLocale)
+   */
+  getUserMessage(locale?: string): string {
+    return this.explicitUserMessage ?? translate(this.messageKey, this.details, locale);
+  }
+
   /**
    * Get a formatted error message for logging
    */
@@ -251,9 +282,202 @@ export class PaymentOperationError extends Error {
 
 /**
  * Wrap an error with payment error handling
+ * Errors that are already PaymentOperationError are returned unchanged
  */
 export function wrapPaymentError(error: any): PaymentOperationError {
+  if (error instanceof PaymentOperationError) {
+    return error;
+  }
+
   const parsedError = parsePaymentError(error);
   return new PaymentOperationError(parsedError);
 }
 
+/**
+ * Wrap a failed wallet chain switch
+ * Rejections keep USER_REJECTED, anything else becomes NETWORK_SWITCH_FAILED
+ *
+ * @param error - Error thrown by the wallet
+ * @param network - Display name of the target network
+ */
+export function wrapChainSwitchError(error: any, network: string): PaymentOperationError {
+  // The chain is unknown to both the wallet and the SDK - already explained
+  if (error instanceof PaymentOperationError && error.code === PaymentErrorCode.UNSUPPORTED_NETWORK) {
+    return error;
+  }
+
+  const wrappedError = wrapPaymentError(error);
+  const rejected = wrappedError.code === PaymentErrorCode.USER_REJECTED;
+
+  return new PaymentOperationError({
+    code: rejected ? PaymentErrorCode.USER_REJECTED : PaymentErrorCode.NETWORK_SWITCH_FAILED,
+    message: wrappedError.message,
+    messageKey: rejected ? 'error.NETWORK_SWITCH_REJECTED' : 'error.NETWORK_SWITCH_FAILED_TO',
+    details: {network},
+    originalError: wrappedError.originalError,
+  });
+}
+
+
+type PaymentReasonMapping = Pick<PaymentError, 'code' | 'message'>;
+
+// Reasons that are part of the normal 402 flow (initial request without X-PAYMENT)
+const IGNORED_PAYMENT_REASONS = [
+  'X-PAYMENT header is required',
+  'missing X-PAYMENT header',
+  'payment_required',
+];
+
+const INSUFFICIENT_FUNDS: PaymentReasonMapping = {
+  code: PaymentErrorCode.INSUFFICIENT_BALANCE,
+  message: 'Insufficient balance to complete this payment',
+};
+
+const INVALID_SIGNATURE: PaymentReasonMapping = {
+  code: PaymentErrorCode.INVALID_SIGNATURE,
+  message: 'Invalid payment signature',
+};
+
+const EXPIRED: PaymentReasonMapping = {
+  code: PaymentErrorCode.EXPIRED,
+  message: 'Payment authorization has expired',
+};
+
+const NETWORK_MISMATCH: PaymentReasonMapping = {
+  code: PaymentErrorCode.NETWORK_MISMATCH,
+  message: 'Payment network does not match',
+};
+
+const INVALID_PAYMENT: PaymentReasonMapping = {
+  code: PaymentErrorCode.INVALID_PAYMENT,
+  message: 'Invalid payment data',
+};
+
+const INVALID_REQUIREMENTS: PaymentReasonMapping = {
+  code: PaymentErrorCode.INVALID_PAYMENT_REQUIREMENTS,
+  message: 'Invalid payment requirements',
+};
+
+const VERIFICATION_FAILED: PaymentReasonMapping = {
+  code: PaymentErrorCode.VERIFICATION_FAILED,
+  message: 'Payment verification failed',
+};
+
+const SETTLEMENT_FAILED: PaymentReasonMapping = {
+  code: PaymentErrorCode.SETTLEMENT_FAILED,
+  message: 'Payment settlement failed',
+};
+
+/**
+ * Backend error reasons (x402 ErrorReasons plus v402pay codes) by error code
+ */
+const PAYMENT_REASONS: Record<string, PaymentReasonMapping> = {
+  // Balance
+  'insufficient_funds': INSUFFICIENT_FUNDS,
+  'invalid_exact_svm_payload_transaction_sender_ata_not_found': INSUFFICIENT_FUNDS,
+
+  // Signature
+  'invalid_signature': INVALID_SIGNATURE,
+  'invalid_exact_evm_payload_signature': INVALID_SIGNATURE,
+
+  // Expiry
+  'expired': EXPIRED,
+  'payment_expired': EXPIRED,
+  'invalid_exact_evm_payload_authorization_valid_before': EXPIRED,
+  'settle_exact_svm_block_height_exceeded': EXPIRED,
+
+  // Replay
+  'already_used': {
+    code: PaymentErrorCode.ALREADY_USED,
+    message: 'This payment has already been used',
+  },
+
+  // Network
+  'network_mismatch': NETWORK_MISMATCH,
+  'invalid_network': NETWORK_MISMATCH,
+
+  // Simulation (v402pay returns this when the payer can't cover amount + fees)
+  'invalid_exact_svm_payload_transaction_simulation_failed': {
+    code: PaymentErrorCode.SIMULATION_FAILED,
+    message: 'Transaction simulation failed due to insufficient balance. Please check your wallet balance carefully and ensure you have enough funds to cover the payment and transaction fees.',
+  },
+
+  // Payload
+  'invalid_payment': INVALID_PAYMENT,
+  'invalid_payload': INVALID_PAYMENT,
+
+  // Requirements
+  'invalid_payment_requirements': INVALID_REQUIREMENTS,
+  'invalid_scheme': INVALID_REQUIREMENTS,
+  'unsupported_scheme': INVALID_REQUIREMENTS,
+  'invalid_x402_version': INVALID_REQUIREMENTS,
+
+  // Facilitator
+  'verification_failed': VERIFICATION_FAILED,
+  'unexpected_verify_error': VERIFICATION_FAILED,
+  'unexpected_settle_error': SETTLEMENT_FAILED,
+  'invalid_transaction_state': SETTLEMENT_FAILED,
+  'settle_exact_svm_transaction_confirmation_timed_out': SETTLEMENT_FAILED,
+};
+
+function getPaymentReasonMapping(reason: string): PaymentReasonMapping {
+  const mapping = PAYMENT_REASONS[reason];
+  if (mapping) {
+    return mapping;
+  }
+
+  // Remaining scheme-specific payload checks (amount, recipient, instructions...)
+  if (reason.startsWith('invalid_exact_evm_payload') || reason.startsWith('invalid_exact_svm_payload')) {
+    return INVALID_PAYMENT;
+  }
+
+  return {
+    code: PaymentErrorCode.UNKNOWN_ERROR,
+    message: `Payment failed: ${reason}`,
+  };
+}
+
+/**
+ * Map a backend error reason (the `error` field of a 402 body) to a PaymentOperationError
+ *
+ * @param reason - x402 ErrorReason or v402pay-specific code
+ * @returns The error (raw reason kept in `reason`), or null if there is no reason
+ * or it is part of the normal 402 flow
+ *
+ * @example
+ * ```typescript
+ * const error = mapPaymentErrorReason(body.error);
+ * if (error) throw error; // error.code === PaymentErrorCode.EXPIRED, error.reason === 'payment_expired'
+ * ```
+ */
+export function mapPaymentErrorReason(reason: string | undefined | null): PaymentOperationError | null {
+  if (!reason || IGNORED_PAYMENT_REASONS.includes(reason)) {
+    return null;
+  }
+
+  return new PaymentOperationError({...getPaymentReasonMapping(reason), reason});
+}
+
+/**
+ * Error for a paid retry (the request carrying X-PAYMENT) that did not return 2xx
+ *
+ * A 402 means the payment was not accepted; any other status means the paid request
+ * failed. Either way the payment must not be reported as settled.
+ *
+ * @param response - Response to the retry
+ */
+export function getRetryResponseError(response: Response): PaymentOperationError {
+  const details = {status: response.status};
+  if (response.status === 402) {
+    return new PaymentOperationError({
+      code: PaymentErrorCode.VERIFICATION_FAILED,
+      message: 'Payment was not accepted (HTTP 402)',
+      details,
+    });
+  }
+  return new PaymentOperationError({
+    code: PaymentErrorCode.SETTLEMENT_FAILED,
+    message: `Paid request failed with HTTP ${response.status}`,
+    details,
+  });
+}
@@ -0,0 +1,200 @@
+/**
+ * Payment Lifecycle
+ *
+ * Typed progress events for the payment flows (requirements received,
+ * selected, signing, retry, settlement, failure) plus a small event emitter
+ */
+
+import type {
+  PaymentEventSource,
+  PaymentLifecycleEvent,
+  PaymentLifecycleEvents,
+  PaymentLifecycleHooks,
+} from "../types/common";
+import {PaymentErrorCode, PaymentOperationError, wrapPaymentError} from "./payment-error-handler";
+import {errorFields, getLogger} from "./logger";
+
+type Listener<K extends PaymentLifecycleEvent> = NonNullable<PaymentLifecycleHooks[K]>;
+
+const PAYMENT_LIFECYCLE_EVENTS: PaymentLifecycleEvent[] = [
+  'requirementsReceived',
+  'requirementSelected',
+  'chainSwitchRequested',
+  'beforeSign',
+  'signed',
+  'retrySent',
+  'settled',
+  'failed',
+];
+
+// Errors already reported through `failed`, so nested flows don't report twice
+const reportedErrors = new WeakSet<object>();
+
+/**
+ * Call a lifecycle hook; hook errors are logged and never break the payment
+ */
+export async function emitPaymentEvent<K extends Exclude<PaymentLifecycleEvent, 'beforeSign'>>(
+    hooks: PaymentLifecycleHooks | undefined,
+    event: K,
+    payload: PaymentLifecycleEvents[K]
+): Promise<void> {
+  const hook = hooks?.[event] as ((payload: PaymentLifecycleEvents[K]) => unknown) | undefined;
+  if (!hook) {
+    return;
+  }
+
+  try {
+    await hook(payload);
+  } catch (error) {
+    getLogger().warn('Payment hook threw', errorFields(error, {event}));
+  }
+}
+
+/**
+ * Run the `beforeSign` hook, throwing USER_CANCELLED if it vetoes the payment
+ */
+export async function confirmBeforeSign(
+    hooks: PaymentLifecycleHooks | undefined,
+    payload: PaymentLifecycleEvents['beforeSign']
+): Promise<void> {
+  if (!hooks?.beforeSign) {
+    return;
+  }
+
+  let approved: boolean | void;
+  try {
+    approved = await hooks.beforeSign(payload);
+  } catch (error) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.USER_CANCELLED,
+      message: `Payment vetoed by beforeSign hook: ${(error as Error)?.message || error}`,
+      originalError: error,
+    });
+  }
+
+  if (approved === false) {
+    throw new PaymentOperationError({
+      code: PaymentErrorCode.USER_CANCELLED,
+      message: 'Payment vetoed by beforeSign hook',
+    });
+  }
+}
+
+/**
+ * Run a payment flow, reporting any error through the `failed` hook (once)
+ */
+export async function trackPaymentFailure<T>(
+    hooks: PaymentLifecycleHooks | undefined,
+    endpoint: string,
+    run: () => Promise<T>
+): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    const alreadyReported = typeof error === 'object' && error !== null && reportedErrors.has(error);
+    if (!alreadyReported) {
+      if (typeof error === 'object' && error !== null) {
+        reportedErrors.add(error);
+      }
+      await emitPaymentEvent(hooks, 'failed', {endpoint, error: wrapPaymentError(error)});
+    }
+    throw error;
+  }
+}
+
+/**
+ * Merge several hook sets into one (hooks run in order)
+ */
+export function combinePaymentHooks(
+    ...hookSets: (PaymentLifecycleHooks | undefined)[]
+): PaymentLifecycleHooks | undefined {
+  const sets = hookSets.filter((hooks): hooks is PaymentLifecycleHooks => !!hooks);
+  if (sets.length <= 1) {
+    return sets[0];
+  }
+
+  const combined: Record<string, (payload: any) => Promise<boolean | void>> = {};
+  PAYMENT_LIFECYCLE_EVENTS.forEach(event => {
+    const handlers = sets.map(hooks => hooks[event] as ((payload: any) => any) | undefined).filter(Boolean);
+    if (handlers.length === 0) {
+      return;
+    }
+    combined[event] = async (payload) => {
+      for (const handler of handlers) {
+        if (await handler!(payload) === false && event === 'beforeSign') {
+          return false;
+        }
+      }
+    };
+  });
+  return combined as PaymentLifecycleHooks;
+}
+
+/**
+ * Event emitter for payment lifecycle events
+ *
+ * Pass `emitter.hooks` to any payment entry point, then subscribe with `on()`.
+ *
+ * @example
+ * ```typescript
+ * const events = new PaymentEventEmitter();
+ * events.on('signed', () => showStep('Submitting payment...'));
+ * events.on('beforeSign', ({requirements}) => confirm(`Pay ${requirements.maxAmountRequired}?`));
+ *
+ * await handleX402Payment(endpoint, {evmWallet, hooks: events.hooks});
+ * ```
+ */
+export class PaymentEventEmitter implements PaymentEventSource {
+  private listeners = new Map<PaymentLifecycleEvent, Set<(payload: any) => any>>();
+
+  /**
+   * Hooks object that forwards every event to the subscribed listeners
+   */
+  readonly hooks: PaymentLifecycleHooks;
+
+  constructor() {
+    const hooks: Record<string, (payload: any) => Promise<boolean | void>> = {};
+    PAYMENT_LIFECYCLE_EVENTS.forEach(event => {
+      hooks[event] = async (payload) => {
+        for (const listener of Array.from(this.listeners.get(event) || [])) {
+          if (await listener(payload) === false && event === 'beforeSign') {
+            return false;
+          }
+        }
+      };
+    });
+    this.hooks = hooks as PaymentLifecycleHooks;
+  }
+
+  /**
+   * Subscribe to an event
+   *
+   * @returns Unsubscribe function
+   */
+  on<K extends PaymentLifecycleEvent>(event: K, listener: Listener<K>): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends PaymentLifecycleEvent>(event: K, listener: Listener<K>): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Subscribe every hook in a hooks object
+   *
+   * @returns Unsubscribe function for all of them
+   */
+  use(hooks: PaymentLifecycleHooks): () => void {
+    const unsubscribers = PAYMENT_LIFECYCLE_EVENTS
+        .filter(event => hooks[event])
+        .map(event => this.on(event, hooks[event] as Listener<typeof event>));
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }
+}
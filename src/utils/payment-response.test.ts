@@ -0,0 +1,52 @@
+import {afterAll, beforeAll, describe, expect, it} from "vitest";
+import {decodePaymentResponse, getPaymentSettlement, X_PAYMENT_RESPONSE_HEADER} from "./payment-response";
+import {getLogger, setLogger, silentLogger} from "./logger";
+
+const previousLogger = getLogger();
+
+const settlement = {
+  success: true,
+  transaction: "0x3b3a2c1d8f0e4b5a6c7d8e9f0a1b2c3d4e5f60718293a4b5c6d7e8f9a0b1c2d3",
+  network: "base-sepolia",
+  payer: "0x857b06519E91e3A54538791bDbb0E22373e36b66",
+};
+
+function encode(value: unknown): string {
+  return btoa(JSON.stringify(value));
+}
+
+describe("decodePaymentResponse", () => {
+  beforeAll(() => setLogger(silentLogger));
+  afterAll(() => setLogger(previousLogger));
+
+  it("decodes a base64 settlement", () => {
+    expect(decodePaymentResponse(encode(settlement))).toEqual(settlement);
+  });
+
+  it("returns null for a missing header", () => {
+    expect(decodePaymentResponse(null)).toBeNull();
+    expect(decodePaymentResponse(undefined)).toBeNull();
+    expect(decodePaymentResponse("")).toBeNull();
+  });
+
+  it("returns null for a value that is not base64 JSON", () => {
+    expect(decodePaymentResponse("not base64!")).toBeNull();
+    expect(decodePaymentResponse(btoa("{not json"))).toBeNull();
+  });
+
+  it("returns null for JSON that is not a settlement", () => {
+    expect(decodePaymentResponse(encode({foo: "bar"}))).toBeNull();
+    expect(decodePaymentResponse(encode({...settlement, success: "yes"}))).toBeNull();
+  });
+});
+
+describe("getPaymentSettlement", () => {
+  it("reads the X-PAYMENT-RESPONSE header", () => {
+    const response = new Response(null, {headers: {[X_PAYMENT_RESPONSE_HEADER]: encode(settlement)}});
+    expect(getPaymentSettlement(response)).toEqual(settlement);
+  });
+
+  it("returns null when the header is absent", () => {
+    expect(getPaymentSettlement(new Response(null))).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Payment response utilities
+ *
+ * Decode the X-PAYMENT-RESPONSE header returned by the server after settlement
+ */
+
+import {SettleResponseSchema, type SettleResponse} from "x402/types";
+import {errorFields, getLogger} from "./logger";
+
+/**
+ * Header carrying the base64-encoded settlement result
+ */
+export const X_PAYMENT_RESPONSE_HEADER = "X-PAYMENT-RESPONSE";
+
+/**
+ * Decode a base64 X-PAYMENT-RESPONSE header value into a SettleResponse
+ *
+ * @param header - Raw header value
+ * @returns Validated settlement result, or null if missing or malformed
+ *
+ * @example
+ * ```typescript
+ * const settlement = decodePaymentResponse(response.headers.get("X-PAYMENT-RESPONSE"));
+ * console.log(settlement?.transaction);
+ * ```
+ */
+export function decodePaymentResponse(header: string | null | undefined): SettleResponse | null {
+  if (!header) {
+    return null;
+  }
+
+  try {
+    const decoded = JSON.parse(atob(header));
+    const parsed = SettleResponseSchema.safeParse(decoded);
+    if (!parsed.success) {
+      getLogger().warn('Invalid X-PAYMENT-RESPONSE header', {issues: parsed.error.issues});
+      return null;
+    }
+    return parsed.data;
+  } catch (error) {
+    getLogger().warn('Could not decode X-PAYMENT-RESPONSE header', errorFields(error));
+    return null;
+  }
+}
+
+/**
+ * Read and decode the settlement result from a paid response
+ */
+export function getPaymentSettlement(response: Response): SettleResponse | null {
+  return decodePaymentResponse(response.headers.get(X_PAYMENT_RESPONSE_HEADER));
+}
@@ -0,0 +1,155 @@
+/**
+ * Wallet Storage
+ *
+ * Where wallet utilities, the connector registry and walletStore persist their state.
+ * The default is localStorage in the browser and an in-memory store during server rendering and tests.
+ */
+
+import type {WalletStorage, WalletStorageOptions} from "../types/common";
+import {errorFields, getLogger} from "./logger";
+
+/**
+ * Create a storage that keeps values in memory (lost on reload)
+ */
+export function createMemoryStorage(): WalletStorage {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+/**
+ * Create a storage backed by localStorage or sessionStorage
+ *
+ * Reads return null and writes are dropped when Web Storage is unavailable
+ * (server rendering, disabled cookies, quota exceeded).
+ */
+export function createWebStorage(type: 'local' | 'session' = 'local'): WalletStorage {
+  const resolve = (): Storage | null => {
+    if (typeof window === 'undefined') {
+      return null;
+    }
+    try {
+      return type === 'session' ? window.sessionStorage : window.localStorage;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return {
+    getItem: (key) => {
+      try {
+        return resolve()?.getItem(key) ?? null;
+      } catch (error) {
+        return null;
+      }
+    },
+    setItem: (key, value) => {
+      try {
+        resolve()?.setItem(key, value);
+      } catch (error) {
+        getLogger().warn('Failed to write wallet storage', errorFields(error, {key}));
+      }
+    },
+    removeItem: (key) => {
+      try {
+        resolve()?.removeItem(key);
+      } catch (error) {
+        getLogger().warn('Failed to write wallet storage', errorFields(error, {key}));
+      }
+    },
+  };
+}
+
+function createDefaultStorage(): WalletStorage {
+  return typeof window === 'undefined' ? createMemoryStorage() : createWebStorage('local');
+}
+
+let backend: WalletStorage = createDefaultStorage();
+let namespace = '';
+const configureListeners = new Set<() => void>();
+
+// 带命名空间前缀的存储视图
+const namespacedStorage: WalletStorage = {
+  getItem: (key) => backend.getItem(getStorageKey(key)),
+  setItem: (key, value) => backend.setItem(getStorageKey(key), value),
+  removeItem: (key) => backend.removeItem(getStorageKey(key)),
+};
+
+/**
+ * Get the storage used for wallet state, with keys prefixed by the configured namespace
+ */
+export function getStorage(): WalletStorage {
+  return namespacedStorage;
+}
+
+/**
+ * Full key (with namespace) under which a wallet state key is stored
+ */
+export function getStorageKey(key: string): string {
+  return namespace ? `${namespace}:${key}` : key;
+}
+
+/**
+ * Choose where wallet state is persisted
+ *
+ * Call it before the first render; values already stored under the previous
+ * backend or namespace are not moved.
+ *
+ * @example
+ * ```typescript
+ * configureStorage({storage: createWebStorage('session')}); // forget wallets when the tab closes
+ * configureStorage({namespace: 'shop'});                     // keys become "shop:connected_network_type"
+ * configureStorage({storage: createMemoryStorage()});        // tests
+ * ```
+ */
+export function configureStorage(options: WalletStorageOptions): void {
+  if (options.storage) {
+    backend = options.storage;
+  }
+  if (options.namespace !== undefined) {
+    namespace = options.namespace;
+  }
+  configureListeners.forEach(listener => listener());
+}
+
+/**
+ * Listen for configureStorage() calls (e.g. to follow a namespace change)
+ *
+ * @returns Unsubscribe function
+ */
+export function onStorageConfigured(listener: () => void): () => void {
+  configureListeners.add(listener);
+  return () => {
+    configureListeners.delete(listener);
+  };
+}
+
+/**
+ * Read a JSON value, falling back when it is missing or malformed
+ */
+export function readJson<T>(key: string, fallback: T): T {
+  const cached = namespacedStorage.getItem(key);
+  if (!cached) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(cached);
+  } catch (error) {
+    getLogger().error('Failed to parse wallet storage', errorFields(error, {key}));
+    return fallback;
+  }
+}
+
+/**
+ * Write a JSON value
+ */
+export function writeJson(key: string, value: unknown): void {
+  namespacedStorage.setItem(key, JSON.stringify(value));
+}
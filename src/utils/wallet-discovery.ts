@@ -0,0 +1,219 @@
+/**
+ * Wallet discovery
+ *
+ * Finds installed wallets through EIP-6963 (EVM) and the Wallet Standard registry (Solana),
+ * and remembers which one the user picked
+ */
+
+import type {Eip1193Provider, Eip6963ProviderDetail, StandardWallet} from "../types";
+import {getStorage} from "./storage";
+
+const EVM_WALLET_RDNS_KEY = 'evm_wallet_rdns'; // 用户选择的 EVM 钱包 (EIP-6963 rdns)
+const SVM_WALLET_NAME_KEY = 'svm_wallet_name'; // 用户选择的 Solana 钱包 (Wallet Standard name)
+
+// EIP-6963 announced wallets, keyed by rdns
+const evmWallets = new Map<string, Eip6963ProviderDetail>();
+const evmWalletListeners = new Set<(wallets: Eip6963ProviderDetail[]) => void>();
+let evmDiscoveryStarted = false;
+
+function handleAnnounceProvider(event: Event): void {
+  const detail = (event as CustomEvent<Eip6963ProviderDetail>).detail;
+  if (!detail?.info?.rdns || !detail.provider) {
+    return;
+  }
+
+  evmWallets.set(detail.info.rdns, detail);
+  const wallets = Array.from(evmWallets.values());
+  evmWalletListeners.forEach(listener => listener(wallets));
+}
+
+/**
+ * Discover injected EVM wallets via EIP-6963
+ *
+ * Listens for `eip6963:announceProvider` and asks wallets to announce themselves.
+ * Safe to call repeatedly; wallets that load late announce on their own.
+ */
+export function discoverEvmWallets(): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  if (!evmDiscoveryStarted) {
+    evmDiscoveryStarted = true;
+    window.addEventListener('eip6963:announceProvider', handleAnnounceProvider);
+  }
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+}
+
+/**
+ * Get EVM wallets announced via EIP-6963
+ */
+export function getEvmWallets(): Eip6963ProviderDetail[] {
+  if (!evmDiscoveryStarted) {
+    discoverEvmWallets();
+  }
+  return Array.from(evmWallets.values());
+}
+
+/**
+ * Subscribe to newly announced EVM wallets
+ */
+export function onEvmWalletsChanged(
+    listener: (wallets: Eip6963ProviderDetail[]) => void
+): () => void {
+  evmWalletListeners.add(listener);
+  return () => {
+    evmWalletListeners.delete(listener);
+  };
+}
+
+/**
+ * Get the rdns of the EVM wallet the user picked
+ */
+export function getSelectedEvmWallet(): string | null {
+  return getStorage().getItem(EVM_WALLET_RDNS_KEY);
+}
+
+/**
+ * Remember the EVM wallet the user picked
+ */
+export function saveSelectedEvmWallet(rdns: string | null): void {
+  if (rdns) {
+    getStorage().setItem(EVM_WALLET_RDNS_KEY, rdns);
+  } else {
+    getStorage().removeItem(EVM_WALLET_RDNS_KEY);
+  }
+}
+
+/**
+ * Get an announced EVM wallet
+ *
+ * @param rdns - Wallet id; defaults to the selected wallet, or the only discovered one
+ */
+export function getEvmWallet(rdns?: string): Eip6963ProviderDetail | null {
+  const wallets = getEvmWallets();
+  const id = rdns || getSelectedEvmWallet();
+  if (id) {
+    return evmWallets.get(id) || null;
+  }
+  return wallets.length === 1 ? wallets[0] : null;
+}
+
+/**
+ * Get the EIP-1193 provider for an EVM wallet
+ *
+ * An explicit rdns must match a discovered wallet. Otherwise the selected wallet is used,
+ * falling back to window.ethereum for wallets that do not support EIP-6963.
+ */
+export function getEvmProvider(rdns?: string): Eip1193Provider | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const wallet = getEvmWallet(rdns);
+  if (wallet) {
+    return wallet.provider;
+  }
+  return rdns ? null : (window as any).ethereum || null;
+}
+
+// Wallet Standard wallets that can sign Solana transactions, keyed by name
+const svmWallets = new Map<string, StandardWallet>();
+const svmWalletListeners = new Set<(wallets: StandardWallet[]) => void>();
+let svmDiscoveryStarted = false;
+
+function isSolanaWallet(wallet: StandardWallet): boolean {
+  return !!wallet.features['standard:connect']
+      && !!wallet.features['solana:signTransaction']
+      && wallet.chains.some(chain => chain.startsWith('solana:'));
+}
+
+function notifySvmWalletListeners(): void {
+  const wallets = Array.from(svmWallets.values());
+  svmWalletListeners.forEach(listener => listener(wallets));
+}
+
+function registerSvmWallets(...wallets: StandardWallet[]): () => void {
+  const added = wallets.filter(isSolanaWallet);
+  added.forEach(wallet => svmWallets.set(wallet.name, wallet));
+  if (added.length > 0) {
+    notifySvmWalletListeners();
+  }
+
+  return () => {
+    added.forEach(wallet => svmWallets.delete(wallet.name));
+    notifySvmWalletListeners();
+  };
+}
+
+/**
+ * Discover Solana wallets via the Wallet Standard registry
+ *
+ * Picks up wallets registered before and after this call
+ * (`wallet-standard:app-ready` / `wallet-standard:register-wallet`).
+ */
+export function discoverSvmWallets(): void {
+  if (typeof window === 'undefined' || svmDiscoveryStarted) {
+    return;
+  }
+  svmDiscoveryStarted = true;
+
+  const api = {register: registerSvmWallets};
+  window.addEventListener('wallet-standard:register-wallet', (event) => {
+    (event as CustomEvent<(registry: typeof api) => void>).detail(api);
+  });
+  window.dispatchEvent(new CustomEvent('wallet-standard:app-ready', {detail: api}));
+}
+
+/**
+ * Get Solana wallets registered through the Wallet Standard
+ */
+export function getSvmWallets(): StandardWallet[] {
+  discoverSvmWallets();
+  return Array.from(svmWallets.values());
+}
+
+/**
+ * Subscribe to Solana wallets being registered or removed
+ */
+export function onSvmWalletsChanged(
+    listener: (wallets: StandardWallet[]) => void
+): () => void {
+  svmWalletListeners.add(listener);
+  return () => {
+    svmWalletListeners.delete(listener);
+  };
+}
+
+/**
+ * Get the name of the Solana wallet the user picked
+ */
+export function getSelectedSvmWallet(): string | null {
+  return getStorage().getItem(SVM_WALLET_NAME_KEY);
+}
+
+/**
+ * Remember the Solana wallet the user picked
+ */
+export function saveSelectedSvmWallet(name: string | null): void {
+  if (name) {
+    getStorage().setItem(SVM_WALLET_NAME_KEY, name);
+  } else {
+    getStorage().removeItem(SVM_WALLET_NAME_KEY);
+  }
+}
+
+/**
+ * Get a Wallet Standard Solana wallet
+ *
+ * @param name - Wallet name; defaults to the selected wallet, or the only registered one.
+ * Returns null when none matches, in which case callers fall back to window.solana.
+ */
+export function getSvmWallet(name?: string): StandardWallet | null {
+  const wallets = getSvmWallets();
+  const id = name || getSelectedSvmWallet();
+  if (id) {
+    return svmWallets.get(id) || null;
+  }
+  return wallets.length === 1 ? wallets[0] : null;
+}
@@ -0,0 +1,107 @@
+/**
+ * Cross-tab wallet sync
+ *
+ * Shares connect / disconnect between tabs of the same origin through BroadcastChannel,
+ * falling back to `storage` events where BroadcastChannel is missing (older Safari).
+ * The channel name follows the storage namespace, so namespaced apps only hear their own tabs.
+ * The fallback always goes through localStorage (whatever the wallet storage backend is),
+ * since only localStorage fires `storage` events in other tabs.
+ */
+
+import type {WalletSyncMessage} from "../types";
+import {errorFields, getLogger} from "./logger";
+import {createWebStorage, getStorageKey, onStorageConfigured} from "./storage";
+
+const WALLET_SYNC_KEY = 'wallet_sync_event'; // BroadcastChannel 名称 / storage 事件的 key
+
+const syncListeners = new Set<(message: WalletSyncMessage) => void>();
+let channel: BroadcastChannel | null = null;
+let channelName: string | null = null;
+let storageListening = false;
+// 同步事件只用于触发其他标签页的 storage 事件，与钱包状态的存储后端无关
+const syncStorage = createWebStorage('local');
+
+function notifySyncListeners(message: WalletSyncMessage): void {
+  syncListeners.forEach(listener => listener(message));
+}
+
+// Channel for the current namespace, reopened if the namespace changed
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') {
+    return null;
+  }
+
+  const name = getStorageKey(WALLET_SYNC_KEY);
+  if (channel && channelName === name) {
+    return channel;
+  }
+
+  channel?.close();
+  try {
+    channel = new BroadcastChannel(name);
+    channelName = name;
+    channel.onmessage = (event: MessageEvent<WalletSyncMessage>) => notifySyncListeners(event.data);
+  } catch (error) {
+    getLogger().warn('BroadcastChannel unavailable, using storage events', errorFields(error));
+    channel = null;
+    channelName = null;
+  }
+  return channel;
+}
+
+// Fallback: other tabs see the localStorage write as a `storage` event
+function handleStorageEvent(event: StorageEvent): void {
+  if (event.key !== getStorageKey(WALLET_SYNC_KEY) || !event.newValue) {
+    return;
+  }
+  try {
+    notifySyncListeners(JSON.parse(event.newValue).message);
+  } catch (error) {
+    getLogger().warn('Ignoring malformed wallet sync event', errorFields(error));
+  }
+}
+
+/**
+ * Tell other tabs about a wallet state change
+ */
+export function broadcastWalletChange(message: WalletSyncMessage): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  const syncChannel = getChannel();
+  if (syncChannel) {
+    syncChannel.postMessage(message);
+    return;
+  }
+
+  // 时间戳保证相同的消息也会触发 storage 事件
+  syncStorage.setItem(getStorageKey(WALLET_SYNC_KEY), JSON.stringify({message, at: Date.now()}));
+}
+
+/**
+ * Listen for wallet state changes made in other tabs
+ *
+ * @returns Unsubscribe function
+ */
+export function onWalletSync(listener: (message: WalletSyncMessage) => void): () => void {
+  syncListeners.add(listener);
+
+  if (typeof window !== 'undefined') {
+    if (!getChannel() && !storageListening) {
+      window.addEventListener('storage', handleStorageEvent);
+      storageListening = true;
+    }
+  }
+
+  return () => {
+    syncListeners.delete(listener);
+  };
+}
+
+// configureStorage() 修改命名空间后，已订阅的标签页重新打开对应名称的频道
+onStorageConfigured(() => {
+  if (syncListeners.size > 0) {
+    getChannel();
+  }
+});
@@ -1,59 +1,18 @@
 /**
  * Wallet utilities
  *
- * Generic wallet connection and management utilities
- * Framework-agnostic and chain-agnostic
+ * Wallet state kept in storage: disconnect flags, connected network type and cached addresses.
+ * Connector-backed helpers (isWalletInstalled, getWalletProvider, ...) live in services/connectors
  */
 
 import {NetworkType} from "../types";
+import {getStorage, readJson, writeJson} from "./storage";
 
 const WALLET_DISCONNECTED_KEY = 'wallet_manually_disconnected';
 const WALLET_DISCONNECTED_NETWORKS_KEY = 'wallet_disconnected_networks'; // 记录每个网络的断开状态
 const CONNECTED_NETWORK_TYPE_KEY = 'connected_network_type';
 const WALLET_ADDRESSES_KEY = 'wallet_addresses_cache'; // 多网络钱包地址缓存
 
-/**
- * Check if a wallet is installed for a specific network type
- */
-export function isWalletInstalled(networkType: NetworkType): boolean {
-  if (typeof window === 'undefined') {
-    return false;
-  }
-
-  switch (networkType) {
-    case NetworkType.EVM:
-      return !!(window as any).ethereum;
-
-    case NetworkType.SOLANA:
-    case NetworkType.SVM:
-      return !!(window as any).solana || !!(window as any).phantom;
-
-    default:
-      return false;
-  }
-}
-
-/**
- * Get wallet provider for a network type
- */
-export function getWalletProvider(networkType: NetworkType): any {
-  if (typeof window === 'undefined') {
-    return null;
-  }
-
-  switch (networkType) {
-    case NetworkType.EVM:
-      return (window as any).ethereum;
-
-    case NetworkType.SOLANA:
-    case NetworkType.SVM:
-      return (window as any).solana || (window as any).phantom;
-
-    default:
-      return null;
-  }
-}
-
 /**
  * Format wallet address for display (show first 6 and last 4 characters)
  */
@@ -68,32 +27,22 @@ export function formatAddress(address: string): string {
  * Get all disconnected networks
  */
 function getDisconnectedNetworks(): Partial<Record<NetworkType, boolean>> {
-  if (typeof window === 'undefined') {
-    return {};
-  }
-  try {
-    const cached = localStorage.getItem(WALLET_DISCONNECTED_NETWORKS_KEY);
-    return cached ? JSON.parse(cached) : {};
-  } catch (error) {
-    return {};
-  }
+  return readJson(WALLET_DISCONNECTED_NETWORKS_KEY, {});
 }
 
 /**
  * Mark wallet as manually disconnected (for specific network)
  */
 export function markWalletDisconnected(networkType?: NetworkType): void {
-  if (typeof window !== 'undefined') {
-    if (networkType) {
-      // 标记特定网络为断开
-      const disconnected = getDisconnectedNetworks();
-      disconnected[networkType] = true;
-      localStorage.setItem(WALLET_DISCONNECTED_NETWORKS_KEY, JSON.stringify(disconnected));
-    } else {
-      // 兼容旧版：全局断开
-      localStorage.setItem(WALLET_DISCONNECTED_KEY, 'true');
-      localStorage.removeItem(CONNECTED_NETWORK_TYPE_KEY);
-    }
+  if (networkType) {
+    // 标记特定网络为断开
+    const disconnected = getDisconnectedNetworks();
+    disconnected[networkType] = true;
+    writeJson(WALLET_DISCONNECTED_NETWORKS_KEY, disconnected);
+  } else {
+    // 兼容旧版：全局断开
+    getStorage().setItem(WALLET_DISCONNECTED_KEY, 'true');
+    clearConnectedNetworkType();
   }
 }
 
@@ -101,16 +50,14 @@ export function markWalletDisconnected(networkType?: NetworkType): void {
  * Clear wallet disconnection flag (for specific network or all)
  */
 export function clearWalletDisconnection(networkType?: NetworkType): void {
-  if (typeof window !== 'undefined') {
-    if (networkType) {
-      // 清除特定网络的断开标记
-      const disconnected = getDisconnectedNetworks();
-      delete disconnected[networkType];
-      localStorage.setItem(WALLET_DISCONNECTED_NETWORKS_KEY, JSON.stringify(disconnected));
-    } else {
-      // 兼容旧版：清除全局断开标记
-      localStorage.removeItem(WALLET_DISCONNECTED_KEY);
-    }
+  if (networkType) {
+    // 清除特定网络的断开标记
+    const disconnected = getDisconnectedNetworks();
+    delete disconnected[networkType];
+    writeJson(WALLET_DISCONNECTED_NETWORKS_KEY, disconnected);
+  } else {
+    // 兼容旧版：清除全局断开标记
+    getStorage().removeItem(WALLET_DISCONNECTED_KEY);
   }
 }
 
@@ -118,17 +65,13 @@ export function clearWalletDisconnection(networkType?: NetworkType): void {
  * Check if user manually disconnected wallet (for specific network)
  */
 export function isWalletManuallyDisconnected(networkType?: NetworkType): boolean {
-  if (typeof window === 'undefined') {
-    return false;
-  }
-  
   if (networkType) {
     // 检查特定网络是否断开
     const disconnected = getDisconnectedNetworks();
     return disconnected[networkType] === true;
   } else {
     // 兼容旧版：检查全局断开标记
-    return localStorage.getItem(WALLET_DISCONNECTED_KEY) === 'true';
+    return getStorage().getItem(WALLET_DISCONNECTED_KEY) === 'true';
   }
 }
 
@@ -136,78 +79,38 @@ export function isWalletManuallyDisconnected(networkType?: NetworkType): boolean
  * Save connected network type
  */
 export function saveConnectedNetworkType(networkType: NetworkType): void {
-  if (typeof window !== 'undefined') {
-    localStorage.setItem(CONNECTED_NETWORK_TYPE_KEY, networkType);
-  }
+  getStorage().setItem(CONNECTED_NETWORK_TYPE_KEY, networkType);
 }
 
 /**
  * Get saved network type
  */
 export function getConnectedNetworkType(): NetworkType | null {
-  if (typeof window === 'undefined') {
-    return null;
-  }
-  const type = localStorage.getItem(CONNECTED_NETWORK_TYPE_KEY);
+  const type = getStorage().getItem(CONNECTED_NETWORK_TYPE_KEY);
   return type as NetworkType || null;
 }
 
 /**
- * Get wallet install URL
- */
-export function getWalletInstallUrl(networkType: NetworkType): string {
-  switch (networkType) {
-    case NetworkType.EVM:
-      return 'https://metamask.io/download/';
-    case NetworkType.SOLANA:
-    case NetworkType.SVM:
-      return 'https://phantom.app/download';
-    default:
-      return '#';
-  }
-}
-
-/**
- * Get wallet display name
+ * Forget the saved network type
  */
-export function getWalletDisplayName(networkType: NetworkType): string {
-  switch (networkType) {
-    case NetworkType.EVM:
-      return 'MetaMask';
-    case NetworkType.SOLANA:
-    case NetworkType.SVM:
-      return 'Phantom';
-    default:
-      return 'Unknown Wallet';
-  }
+export function clearConnectedNetworkType(): void {
+  getStorage().removeItem(CONNECTED_NETWORK_TYPE_KEY);
 }
 
 /**
  * Get all cached wallet addresses
  */
 export function getAllWalletAddresses(): Partial<Record<NetworkType, string>> {
-  if (typeof window === 'undefined') {
-    return {};
-  }
-  try {
-    const cached = localStorage.getItem(WALLET_ADDRESSES_KEY);
-    return cached ? JSON.parse(cached) : {};
-  } catch (error) {
-    console.error('Failed to parse wallet addresses cache:', error);
-    return {};
-  }
+  return readJson(WALLET_ADDRESSES_KEY, {});
 }
 
 /**
  * Save wallet address for a specific network
  */
 export function saveWalletAddress(networkType: NetworkType, address: string): void {
-  if (typeof window === 'undefined') {
-    return;
-  }
   const addresses = getAllWalletAddresses();
   addresses[networkType] = address;
-  localStorage.setItem(WALLET_ADDRESSES_KEY, JSON.stringify(addresses));
+  writeJson(WALLET_ADDRESSES_KEY, addresses);
 }
 
 /**
@@ -222,19 +125,14 @@ export function getCachedWalletAddress(networkType: NetworkType): string | null
  * Remove wallet address for a specific network
  */
 export function removeWalletAddress(networkType: NetworkType): void {
-  if (typeof window === 'undefined') {
-    return;
-  }
   const addresses = getAllWalletAddresses();
   delete addresses[networkType];
-  localStorage.setItem(WALLET_ADDRESSES_KEY, JSON.stringify(addresses));
+  writeJson(WALLET_ADDRESSES_KEY, addresses);
 }
 
 /**
  * Clear all cached wallet addresses
  */
 export function clearAllWalletAddresses(): void {
-  if (typeof window !== 'undefined') {
-    localStorage.removeItem(WALLET_ADDRESSES_KEY);
-  }
+  getStorage().removeItem(WALLET_ADDRESSES_KEY);
 }
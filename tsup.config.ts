@@ -1,17 +1,11 @@
 import {defineConfig, Options} from 'tsup';
 
-// 检查是否为 release 构建（通过环境变量控制）
-const isRelease = process.env.BUILD_ENV === 'production';
-
 const baseConfig: Partial<Options> = {
     dts: true,
     sourcemap: true,
     format: ['cjs', 'esm'],
-    external: ['react', '@solana/web3.js', '@solana/spl-token', 'ethers', 'x402', 'viem', 'zod', 'antd', '@ant-design/icons'],
-    // 非 release 环境替换 PROD_BACK_URL 为 localhost，release 环境保持生产 URL
-    define: !isRelease ? {
-        PROD_BACK_URL: JSON.stringify('http://localhost:3000/api/pay'),
-    } : undefined,
+    external: ['react', '@solana/web3.js', '@solana/spl-token', 'ethers', 'x402', 'viem', 'zod'],
+    // 后端地址在运行时通过 createV402Client({ baseUrl }) 配置，不再在构建时替换
 };
 
 export default defineConfig([